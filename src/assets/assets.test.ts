@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { AssetLoader, type AssetLoaderLoadParams, Assets } from './assets.js';
+import { TextLoader } from './textLoader.js';
+
+class Level {}
+
+/**
+ * A loader that only loads from url paths.
+ */
+class LevelLoader extends AssetLoader<Level> {
+  constructor() {
+    super(Level);
+  }
+
+  load(_params: AssetLoaderLoadParams): Promise<Level> {
+    return Promise.resolve(new Level());
+  }
+}
+
+describe('Assets files', () => {
+  let assets: Assets;
+
+  beforeEach(() => {
+    assets = new Assets();
+    assets.registerLoader(new TextLoader());
+    assets.registerLoader(new LevelLoader());
+  });
+
+  it('should load text from a blob', async () => {
+    const text = await assets.loadFile({ type: String, id: 'level', file: new Blob(['{"tiles":[]}']) });
+
+    expect(text.toString()).toBe('{"tiles":[]}');
+    expect(assets.get(String, 'level')).toBe(text);
+  });
+
+  it('should not keep the asset when keep is false', async () => {
+    await assets.loadFile({ type: String, id: 'level', file: new Blob(['data']), keep: false });
+
+    expect(() => assets.get(String, 'level')).toThrow('Asset with id "level" not loaded');
+  });
+
+  it('should reject a kept id that is already loaded', async () => {
+    const first = await assets.loadFile({ type: String, id: 'level', file: new Blob(['first']) });
+
+    await expect(assets.loadFile({ type: String, id: 'level', file: new Blob(['second']) })).rejects.toThrow(
+      'Asset with id "level" is already loaded',
+    );
+    expect(assets.get(String, 'level')).toBe(first);
+
+    assets.unload(String, 'level');
+    const second = await assets.loadFile({ type: String, id: 'level', file: new Blob(['second']) });
+    expect(second.toString()).toBe('second');
+  });
+
+  it('should reject when the loader does not support files', async () => {
+    await expect(assets.loadFile({ type: Level, id: 'level', file: new Blob([]) })).rejects.toThrow(
+      'The loader does not support files',
+    );
+  });
+});
@@ -15,6 +15,13 @@ export type AssetLoaderLoadParams = {
   keep?: boolean;
 };
 
+export type AssetLoaderFileParams = {
+  id: string;
+  file: Blob;
+  props?: unknown;
+  keep?: boolean;
+};
+
 export type AssetsLoadParams<T> = {
   type: new (
     // biome-ignore lint/suspicious/noExplicitAny: Asset items can take any parameters.
@@ -26,6 +33,17 @@ export type AssetsLoadParams<T> = {
   keep?: boolean;
 };
 
+export type AssetsLoadFileParams<T> = {
+  type: new (
+    // biome-ignore lint/suspicious/noExplicitAny: Asset items can take any parameters.
+    ...args: any[]
+  ) => T;
+  id: string;
+  file: Blob;
+  props?: unknown;
+  keep?: boolean;
+};
+
 /**
  * Base class for custom asset loaders.
  */
@@ -59,6 +77,14 @@ export abstract class AssetLoader<T> {
    */
   abstract load(params: AssetLoaderLoadParams): Promise<T>;
 
+  /**
+   * Load an asset from file data, like a dropped or pasted file. Loaders that support this override it.
+   * @param params The parameters needed to load the asset.
+   */
+  loadFile(params: AssetLoaderFileParams): Promise<T> {
+    return Promise.reject(new Error(`Unable to load "${params.id}". The loader does not support files.`));
+  }
+
   /**
    * Add an externally loaded asset to the loader.
    * @param id The id used to reference the asset.
@@ -68,6 +94,15 @@ export abstract class AssetLoader<T> {
     this.loadedAssets[id] = instance;
   }
 
+  /**
+   * Check if an asset is loaded.
+   * @param id The id of the asset.
+   * @returns True if the asset is loaded.
+   */
+  has(id: string): boolean {
+    return this.loadedAssets[id] !== undefined;
+  }
+
   /**
    * Get a loaded asset by id.
    * @param id The id of the asset to load.
@@ -144,6 +179,29 @@ export class Assets {
     });
   }
 
+  /**
+   * Load an asset from file data instead of a url path. Use this for dropped or pasted files. Rejects when an asset
+   * with the same id is kept already, so unload the old asset first to replace it.
+   * @param type The class type of asset to load.
+   * @param id The id used to reference the asset.
+   * @param file The file or blob with the asset data.
+   * @param props Any other properties needed to load the asset.
+   * @param keep Should this asset be stored.
+   * @returns The loaded asset.
+   */
+  loadFile<T>({ type, id, file, props, keep = true }: AssetsLoadFileParams<T>): Promise<T> {
+    const loader = this.loaders.get(type);
+    if (!loader) {
+      return Promise.reject(new Error('Loader is not registered for type'));
+    }
+
+    if (keep && loader.has(id)) {
+      return Promise.reject(new Error(`Asset with id "${id}" is already loaded`));
+    }
+
+    return loader.loadFile({ id, file, props, keep }) as Promise<T>;
+  }
+
   /**
    * Load a list of assets in parallel. Returns when all assets are loaded.
    * @param assets The assets to load.
@@ -1,5 +1,5 @@
 import { Image } from '../graphics/image.js';
-import { AssetLoader, type AssetLoaderLoadParams } from './assets.js';
+import { AssetLoader, type AssetLoaderFileParams, type AssetLoaderLoadParams } from './assets.js';
 
 export class ImageLoader extends AssetLoader<Image> {
   constructor() {
@@ -12,16 +12,8 @@ export class ImageLoader extends AssetLoader<Image> {
       element.onload = (): void => {
         element.onload = null;
 
-        const canvas = document.createElement('canvas');
-        canvas.width = element.width;
-        canvas.height = element.height;
-
-        const canvasContext = canvas.getContext('2d');
-        canvasContext?.drawImage(element, 0, 0);
-
-        const data = canvasContext?.getImageData(0, 0, element.width, element.height).data;
-        if (data) {
-          const image = new Image(element.width, element.height, data);
+        const image = this.createImage(element, element.width, element.height);
+        if (image) {
           if (keep) {
             this.loadedAssets[id] = image;
           }
@@ -39,6 +31,22 @@ export class ImageLoader extends AssetLoader<Image> {
     });
   }
 
+  override async loadFile({ id, file, keep = true }: AssetLoaderFileParams): Promise<Image> {
+    const bitmap = await createImageBitmap(file);
+    const image = this.createImage(bitmap, bitmap.width, bitmap.height);
+    bitmap.close();
+
+    if (!image) {
+      throw new Error(`Unable to load image "${id}".`);
+    }
+
+    if (keep) {
+      this.loadedAssets[id] = image;
+    }
+
+    return image;
+  }
+
   override unload(id: string): boolean {
     const image = this.loadedAssets[id];
     if (image) {
@@ -48,4 +56,24 @@ export class ImageLoader extends AssetLoader<Image> {
 
     return false;
   }
+
+  /**
+   * Read the pixels of a decoded image into an image asset.
+   * @param source - The decoded image.
+   * @param width - The image width.
+   * @param height - The image height.
+   * @returns The image or undefined if the pixels can't be read.
+   */
+  private createImage(source: CanvasImageSource, width: number, height: number): Image | undefined {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const canvasContext = canvas.getContext('2d');
+    canvasContext?.drawImage(source, 0, 0);
+
+    const data = canvasContext?.getImageData(0, 0, width, height).data;
+
+    return data ? new Image(width, height, data) : undefined;
+  }
 }
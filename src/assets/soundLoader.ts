@@ -1,7 +1,7 @@
 import type { Audio } from '../audio/audio.js';
 import { Sound } from '../audio/sound.js';
 import { inject } from '../di/inject.js';
-import { AssetLoader, type AssetLoaderLoadParams } from './assets.js';
+import { AssetLoader, type AssetLoaderFileParams, type AssetLoaderLoadParams } from './assets.js';
 
 export class SoundLoader extends AssetLoader<Sound> {
   @inject()
@@ -28,4 +28,17 @@ export class SoundLoader extends AssetLoader<Sound> {
 
     throw new Error(`Unable to load sound ${id}.`);
   }
+
+  override async loadFile({ id, file, keep = true }: AssetLoaderFileParams): Promise<Sound> {
+    const sound = await this.audio.decodeSound(id, await file.arrayBuffer());
+    if (!sound) {
+      throw new Error(`Unable to load sound ${id}.`);
+    }
+
+    if (keep) {
+      this.loadedAssets[id] = sound;
+    }
+
+    return sound;
+  }
 }
@@ -1,4 +1,4 @@
-import { AssetLoader, type AssetLoaderLoadParams } from './assets.js';
+import { AssetLoader, type AssetLoaderFileParams, type AssetLoaderLoadParams } from './assets.js';
 
 // biome-ignore lint/complexity/noBannedTypes: Need to be able to use String as a type.
 export class TextLoader extends AssetLoader<String> {
@@ -24,4 +24,14 @@ export class TextLoader extends AssetLoader<String> {
 
     throw new Error(`Unable to load text ${path}.`);
   }
+
+  // biome-ignore lint/complexity/noBannedTypes: Same as above.
+  override async loadFile({ id, file, keep = true }: AssetLoaderFileParams): Promise<String> {
+    const text = new String(await file.text());
+    if (keep) {
+      this.loadedAssets[id] = text;
+    }
+
+    return text;
+  }
 }
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createNullAudioContext } from '../headless/nullAudioContext.js';
+import { Audio } from './audio.js';
+import { DelayEffect, FilterEffect, ReverbEffect } from './audioEffects.js';
+import { Sound } from './sound.js';
+
+describe('Audio', () => {
+  let audio: Audio;
+  let sound: Sound;
+
+  beforeEach(() => {
+    audio = new Audio(createNullAudioContext());
+    sound = new Sound('test', {} as AudioBuffer);
+  });
+
+  it('should play on a free channel', () => {
+    expect(audio.getFreeChannel()).toBe(0);
+    expect(audio.play({ sound })).toBe(0);
+    expect(audio.play({ sound, bus: 'music' })).toBe(1);
+    expect(audio.isPlaying(0)).toBe(true);
+  });
+
+  it('should have the default buses route into master', () => {
+    for (const name of ['music', 'sfx', 'ui', 'voice']) {
+      expect(audio.getBus(name).parent).toBe(audio.master);
+    }
+    expect(() => audio.play({ sound, bus: 'ambience' })).toThrow('Audio bus "ambience" does not exist');
+  });
+
+  it('should connect a channel to its bus', () => {
+    const context = createNullAudioContext();
+    const createGain = context.createGain.bind(context);
+    const connects: unknown[] = [];
+    context.createGain = (): GainNode => {
+      const gain = createGain();
+      gain.connect = vi.fn((node: AudioNode) => {
+        connects.push(node);
+
+        return node;
+      }) as unknown as GainNode['connect'];
+
+      return gain;
+    };
+    audio = new Audio(context);
+    const ambience = audio.createBus('ambience', 'music');
+
+    expect(connects).not.toContain(ambience.input);
+    audio.play({ sound, bus: 'ambience' });
+
+    expect(connects).toContain(ambience.input);
+    expect(ambience.routesInto(audio.getBus('music'))).toBe(true);
+    expect(ambience.routesInto(audio.master)).toBe(true);
+  });
+
+  it('should keep the volume when muted', () => {
+    audio.setVolume(0.5);
+    audio.mute();
+
+    expect(audio.isMuted()).toBe(true);
+    expect(audio.master.audible).toBe(false);
+    expect(audio.getVolume()).toBe(0.5);
+
+    audio.unMute();
+    expect(audio.master.audible).toBe(true);
+  });
+
+  it('should only hear soloed buses and their route', () => {
+    const footsteps = audio.createBus('footsteps', 'sfx');
+    footsteps.solo = true;
+
+    expect(footsteps.audible).toBe(true);
+    expect(audio.getBus('sfx').audible).toBe(true);
+    expect(audio.master.audible).toBe(true);
+    expect(audio.getBus('music').audible).toBe(false);
+
+    audio.getBus('music').solo = true;
+    expect(audio.getBus('music').audible).toBe(true);
+    expect(audio.getBus('ui').audible).toBe(false);
+
+    footsteps.solo = false;
+    audio.getBus('music').solo = false;
+    expect(audio.getBus('ui').audible).toBe(true);
+  });
+
+  it('should chain effects in order', () => {
+    const bus = audio.getBus('sfx');
+    const filter = new FilterEffect(audio.context, { type: 'highpass', frequency: 200 });
+    const reverb = new ReverbEffect(audio.context);
+    const connect = vi.spyOn(bus.input, 'connect');
+    const filterConnect = vi.spyOn(filter.output, 'connect');
+
+    bus.addEffect(reverb);
+    bus.addEffect(filter, 0);
+
+    expect(bus.effects).toEqual([filter, reverb]);
+    expect(connect).toHaveBeenLastCalledWith(filter.input);
+    expect(filterConnect).toHaveBeenLastCalledWith(reverb.input);
+    expect(() => bus.addEffect(filter)).toThrow();
+
+    expect(bus.removeEffect(filter)).toBe(true);
+    expect(connect).toHaveBeenLastCalledWith(reverb.input);
+    expect(bus.removeEffect(filter)).toBe(false);
+  });
+
+  it('should keep effect settings in range', () => {
+    const delay = new DelayEffect(audio.context, { time: 0.5, feedback: 2, mix: 0.25 });
+
+    expect(delay.time).toBe(0.5);
+    expect(delay.feedback).toBe(0.95);
+    expect(delay.mix).toBe(0.25);
+  });
+
+  it('should only remove custom buses without children', () => {
+    audio.createBus('ambience');
+    audio.createBus('wind', 'ambience');
+    const id = audio.play({ sound, bus: 'wind' });
+
+    expect(() => audio.removeBus('music')).toThrow();
+    expect(() => audio.removeBus('ambience')).toThrow();
+
+    audio.removeBus('wind');
+    expect(audio.hasBus('wind')).toBe(false);
+    expect(audio.isPlaying(id)).toBe(false);
+  });
+});
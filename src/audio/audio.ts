@@ -1,3 +1,4 @@
+import { AudioBus } from './audioBus.js';
 import { AudioChannel } from './audioChannel.js';
 import { Sound } from './sound.js';
 
@@ -7,8 +8,18 @@ export type PlayParams = {
   volume?: number;
   channelId?: number;
   startTime?: number;
+
+  /**
+   * The bus to play into. Defaults to 'sfx'.
+   */
+  bus?: string;
 };
 
+/**
+ * The buses every `Audio` has. All of them route into 'master'.
+ */
+const DEFAULT_BUSES = ['music', 'sfx', 'ui', 'voice'];
+
 /**
  * The game audio manager.
  */
@@ -19,36 +30,33 @@ export class Audio {
   readonly context: AudioContext;
 
   /**
-   * The main gain node that controls all volume.
+   * The bus that controls all volume. Every other bus routes into it.
    */
-  private readonly mainGain: GainNode;
+  readonly master: AudioBus;
 
   /**
-   * All audio channels.
+   * All buses by name.
    */
-  private audioChannels: AudioChannel[];
-
-  /**
-   * The volume before muting.
-   */
-  private prevVolume: number;
+  private readonly buses = new Map<string, AudioBus>();
 
   /**
-   * Is the volume muted.
+   * All audio channels.
    */
-  private muted: boolean;
+  private audioChannels: AudioChannel[];
 
   /**
    * Create a new AudioManager instance.
+   * @param context - Optional audio context to use. Creates a new Web Audio context when not set.
    */
-  constructor() {
-    this.context = new AudioContext();
-    this.mainGain = this.context.createGain();
-    this.mainGain.connect(this.context.destination);
+  constructor(context?: AudioContext) {
+    this.context = context ?? new AudioContext();
+    this.master = new AudioBus(this.context, 'master', undefined, this.updateSolo);
+    this.buses.set('master', this.master);
+    for (const name of DEFAULT_BUSES) {
+      this.createBus(name);
+    }
 
     this.audioChannels = [];
-    this.prevVolume = 1;
-    this.muted = false;
 
     for (let i = 0; i < 32; i++) {
       this.audioChannels.push(new AudioChannel(this.context.createGain()));
@@ -56,7 +64,7 @@ export class Audio {
   }
 
   /**
-   * Get the volume of a channel or if no channel is passed get the main volume.
+   * Get the volume of a channel or if no channel is passed get the master volume.
    * @param channelId - Optional channel id.
    * @returns The volume (0 - 1).
    */
@@ -65,11 +73,11 @@ export class Audio {
       return this.audioChannels[channelId].volume;
     }
 
-    return this.mainGain.gain.value;
+    return this.master.volume;
   }
 
   /**
-   * Set the volume of a channel or the main volume if no channel is passed.
+   * Set the volume of a channel or the master volume if no channel is passed.
    * @param value - The new volume (0 - 1).
    * @param channelId - Optional channel id.
    */
@@ -77,8 +85,77 @@ export class Audio {
     if (channelId) {
       this.audioChannels[channelId].volume = value;
     } else {
-      this.mainGain.gain.value = value;
+      this.master.volume = value;
+    }
+  }
+
+  /**
+   * Get a bus by name.
+   * @param name - The bus name. 'master', 'music', 'sfx', 'ui' and 'voice' always exist.
+   * @returns The bus.
+   */
+  getBus(name: string): AudioBus {
+    const bus = this.buses.get(name);
+    if (!bus) {
+      throw new Error(`Audio bus "${name}" does not exist`);
     }
+
+    return bus;
+  }
+
+  /**
+   * Check if a bus exists.
+   * @param name - The bus name.
+   * @returns True if the bus exists.
+   */
+  hasBus(name: string): boolean {
+    return this.buses.has(name);
+  }
+
+  /**
+   * Create a custom bus.
+   * @param name - The bus name.
+   * @param parent - The name of the bus to route into. Defaults to 'master'.
+   * @returns The new bus.
+   */
+  createBus(name: string, parent = 'master'): AudioBus {
+    if (this.buses.has(name)) {
+      throw new Error(`Audio bus "${name}" already exists`);
+    }
+
+    const bus = new AudioBus(this.context, name, this.getBus(parent), this.updateSolo);
+    this.buses.set(name, bus);
+    this.updateSolo();
+
+    return bus;
+  }
+
+  /**
+   * Remove a custom bus. Sounds playing on the bus are stopped.
+   * @param name - The bus name.
+   */
+  removeBus(name: string): void {
+    const bus = this.getBus(name);
+    if (bus === this.master || DEFAULT_BUSES.includes(name)) {
+      throw new Error(`Audio bus "${name}" can't be removed`);
+    }
+
+    for (const other of this.buses.values()) {
+      if (other.parent === bus) {
+        throw new Error(`Audio bus "${name}" can't be removed. Bus "${other.name}" routes into it`);
+      }
+    }
+
+    for (const channel of this.audioChannels) {
+      if (channel.bus === bus) {
+        channel.stop();
+        channel.bus = undefined;
+      }
+    }
+
+    bus.destroy();
+    this.buses.delete(name);
+    this.updateSolo();
   }
 
   /**
@@ -122,12 +199,13 @@ export class Audio {
    * @param startTime - The position to start the sound.
    * @returns The channel id the sound is playing on.
    */
-  play({ sound, loop = 0, volume = 1, channelId = -1, startTime = 0 }: PlayParams): number {
+  play({ sound, loop = 0, volume = 1, channelId = -1, startTime = 0, bus = 'sfx' }: PlayParams): number {
     const id = channelId !== -1 ? channelId : this.getFreeChannel();
     if (id === -1) {
       throw new Error('Unable to play sound. All audio channels are in use.');
     }
 
+    const audioBus = this.getBus(bus);
     const channel = this.audioChannels[id];
     if (channel.sound) {
       channel.stop();
@@ -136,7 +214,8 @@ export class Audio {
     const source = this.context.createBufferSource();
     source.buffer = sound.buffer;
     source.connect(channel.gain);
-    channel.gain.connect(this.mainGain);
+    channel.gain.connect(audioBus.input);
+    channel.bus = audioBus;
     channel.startTime = this.context.currentTime - startTime;
     source.start(0, startTime);
     channel.volume = volume;
@@ -152,7 +231,7 @@ export class Audio {
             channel.loop--;
           }
 
-          this.play({ sound, loop: channel.loop, volume: channel.volume, channelId: id });
+          this.play({ sound, loop: channel.loop, volume: channel.volume, channelId: id, bus });
           channel.startTime = this.context.currentTime;
         } else if (channel.loop === 0) {
           channel.stop();
@@ -206,6 +285,7 @@ export class Audio {
           volume: channel.volume,
           channelId,
           startTime: channel.pauseTime,
+          bus: channel.bus?.name,
         });
       }
     } else {
@@ -218,6 +298,7 @@ export class Audio {
             volume: channel.volume,
             channelId: i,
             startTime: channel.pauseTime,
+            bus: channel.bus?.name,
           });
         }
       }
@@ -238,28 +319,21 @@ export class Audio {
    * @returns True if the audio is muted.
    */
   isMuted(): boolean {
-    return this.muted;
+    return this.master.muted;
   }
 
   /**
-   * Mute all audio. This sets the volume to 0, but doesn't stop the audio playing.
+   * Mute all audio. This mutes the master bus, but doesn't stop the audio playing.
    */
   mute(): void {
-    if (!this.muted) {
-      this.prevVolume = this.getVolume();
-      this.muted = true;
-      this.setVolume(0);
-    }
+    this.master.muted = true;
   }
 
   /**
    * Unmute all audio.
    */
   unMute(): void {
-    if (this.muted) {
-      this.muted = false;
-      this.setVolume(this.prevVolume);
-    }
+    this.master.muted = false;
   }
 
   /**
@@ -276,4 +350,15 @@ export class Audio {
 
     return null;
   }
+
+  /**
+   * Silence the buses that are not on the route of a soloed bus.
+   */
+  private updateSolo = (): void => {
+    const soloed = [...this.buses.values()].filter((bus) => bus.solo);
+    for (const bus of this.buses.values()) {
+      const onSoloRoute = soloed.some((other) => other === bus || other.routesInto(bus) || bus.routesInto(other));
+      bus.setSilencedBySolo(soloed.length > 0 && !onSoloRoute);
+    }
+  };
 }
@@ -0,0 +1,201 @@
+import { clamp } from '../math/mathUtils.js';
+import type { AudioEffect } from './audioEffects.js';
+
+/**
+ * A named mixer bus. Channels and child buses route into the input of a bus. The sound goes through the effects of
+ * the bus and its volume into the parent bus. The master bus has no parent and goes to the speakers.
+ */
+export class AudioBus {
+  /**
+   * The bus name.
+   */
+  readonly name: string;
+
+  /**
+   * The bus this bus routes into. Undefined for the master bus.
+   */
+  readonly parent?: AudioBus;
+
+  /**
+   * The node channels and child buses connect to.
+   */
+  readonly input: GainNode;
+
+  /**
+   * The volume node after the effects.
+   */
+  private readonly output: GainNode;
+
+  private readonly _effects: AudioEffect[] = [];
+
+  private _volume = 1;
+
+  private _muted = false;
+
+  private _solo = false;
+
+  /**
+   * Another bus is soloed and this bus is not part of its route.
+   */
+  private silencedBySolo = false;
+
+  private readonly onSoloChange: () => void;
+
+  /**
+   * Create a new bus.
+   * @param context - The audio context to create the nodes with.
+   * @param name - The bus name.
+   * @param parent - The bus to route into. The bus goes to the context destination when not set.
+   * @param onSoloChange - Called when the bus is soloed or unsoloed.
+   */
+  constructor(context: BaseAudioContext, name: string, parent: AudioBus | undefined, onSoloChange: () => void) {
+    this.name = name;
+    this.parent = parent;
+    this.onSoloChange = onSoloChange;
+
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.input.connect(this.output);
+    this.output.connect(parent ? parent.input : context.destination);
+  }
+
+  /**
+   * The bus volume (0 - 1).
+   */
+  get volume(): number {
+    return this._volume;
+  }
+
+  set volume(value: number) {
+    this._volume = clamp(value, 0, 1);
+    this.updateGain();
+  }
+
+  /**
+   * Is the bus muted. Muting keeps the volume.
+   */
+  get muted(): boolean {
+    return this._muted;
+  }
+
+  set muted(value: boolean) {
+    this._muted = value;
+    this.updateGain();
+  }
+
+  /**
+   * Is the bus soloed. When any bus is soloed only soloed buses and the buses they route through are heard.
+   */
+  get solo(): boolean {
+    return this._solo;
+  }
+
+  set solo(value: boolean) {
+    if (value !== this._solo) {
+      this._solo = value;
+      this.onSoloChange();
+    }
+  }
+
+  /**
+   * Is the bus not muted and not silenced by a solo on another bus. Parent buses can still be muted.
+   */
+  get audible(): boolean {
+    return !this._muted && !this.silencedBySolo;
+  }
+
+  /**
+   * The effects in the order the sound goes through them.
+   */
+  get effects(): readonly AudioEffect[] {
+    return this._effects;
+  }
+
+  /**
+   * Insert an effect.
+   * @param effect - The effect to add.
+   * @param index - The position in the effect chain. Defaults to the end.
+   */
+  addEffect(effect: AudioEffect, index = this._effects.length): void {
+    if (this._effects.includes(effect)) {
+      throw new Error(`Effect is already on bus "${this.name}"`);
+    }
+
+    this._effects.splice(clamp(index, 0, this._effects.length), 0, effect);
+    this.connectEffects();
+  }
+
+  /**
+   * Remove an effect. The effect is not destroyed and can be added again.
+   * @param effect - The effect to remove.
+   * @returns True if the effect was on this bus.
+   */
+  removeEffect(effect: AudioEffect): boolean {
+    const index = this._effects.indexOf(effect);
+    if (index === -1) {
+      return false;
+    }
+
+    this._effects.splice(index, 1);
+    effect.output.disconnect();
+    this.connectEffects();
+
+    return true;
+  }
+
+  /**
+   * Check if this bus routes into another bus, directly or through other buses.
+   * @param bus - The possible ancestor.
+   * @returns True if the other bus is an ancestor of this bus.
+   */
+  routesInto(bus: AudioBus): boolean {
+    let parent = this.parent;
+    while (parent) {
+      if (parent === bus) {
+        return true;
+      }
+      parent = parent.parent;
+    }
+
+    return false;
+  }
+
+  /**
+   * Silence or restore the bus because of a solo on another bus. `Audio` calls this when a solo changes.
+   * @param value - Should the bus be silenced.
+   */
+  setSilencedBySolo(value: boolean): void {
+    this.silencedBySolo = value;
+    this.updateGain();
+  }
+
+  /**
+   * Disconnect the bus and its effects.
+   */
+  destroy(): void {
+    for (const effect of this._effects) {
+      effect.output.disconnect();
+    }
+    this._effects.length = 0;
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+
+  private updateGain(): void {
+    this.output.gain.value = this.audible ? this._volume : 0;
+  }
+
+  /**
+   * Connect the input through all effects to the output.
+   */
+  private connectEffects(): void {
+    this.input.disconnect();
+    let last: AudioNode = this.input;
+    for (const effect of this._effects) {
+      effect.output.disconnect();
+      last.connect(effect.input);
+      last = effect.output;
+    }
+    last.connect(this.output);
+  }
+}
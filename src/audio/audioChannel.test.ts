@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+
+import { AudioChannel } from './audioChannel.js';
+
+describe('AudioChannel', () => {
+  it('should start as ended so a new channel is free to play on', () => {
+    const channel = new AudioChannel({ gain: { value: 0 } } as unknown as GainNode);
+
+    expect(channel.ended).toBe(true);
+    expect(channel.volume).toBe(1);
+  });
+});
@@ -1,4 +1,5 @@
 import { clamp } from '../math/mathUtils.js';
+import type { AudioBus } from './audioBus.js';
 import type { Sound } from './sound.js';
 
 /**
@@ -15,6 +16,11 @@ export class AudioChannel {
    */
   source?: AudioBufferSourceNode;
 
+  /**
+   * The bus the channel plays into.
+   */
+  bus?: AudioBus;
+
   /**
    * Where in the sound to start.
    */
@@ -76,7 +82,8 @@ export class AudioChannel {
     this.startTime = 0;
     this.pauseTime = 0;
     this.loop = 0;
-    this.ended = false;
+    // A new channel is free to play on.
+    this.ended = true;
     this.paused = false;
   }
 
@@ -0,0 +1,366 @@
+import { clamp } from '../math/mathUtils.js';
+
+/**
+ * Base class for effects that can be inserted on an audio bus. Sound goes into the input node and comes out of the
+ * output node.
+ */
+export abstract class AudioEffect {
+  /**
+   * The node the sound goes into.
+   */
+  abstract readonly input: AudioNode;
+
+  /**
+   * The node the processed sound comes out of.
+   */
+  abstract readonly output: AudioNode;
+
+  /**
+   * Disconnect all nodes of the effect. Remove the effect from its bus first.
+   */
+  abstract destroy(): void;
+}
+
+export type FilterEffectOptions = {
+  /**
+   * The filter type. Defaults to 'lowpass'.
+   */
+  type?: 'lowpass' | 'highpass' | 'bandpass';
+
+  /**
+   * The cutoff frequency in hertz. Defaults to 1000.
+   */
+  frequency?: number;
+
+  /**
+   * The quality factor. Higher values give a sharper peak at the cutoff. Defaults to 1.
+   */
+  q?: number;
+};
+
+/**
+ * A low-pass, high-pass or band-pass filter.
+ */
+export class FilterEffect extends AudioEffect {
+  readonly input: BiquadFilterNode;
+
+  readonly output: BiquadFilterNode;
+
+  /**
+   * Create a filter effect.
+   * @param context - The audio context to create the nodes with.
+   * @param options - The filter settings.
+   */
+  constructor(context: BaseAudioContext, { type = 'lowpass', frequency = 1000, q = 1 }: FilterEffectOptions = {}) {
+    super();
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = q;
+
+    this.input = filter;
+    this.output = filter;
+  }
+
+  /**
+   * The cutoff frequency in hertz.
+   */
+  get frequency(): number {
+    return this.input.frequency.value;
+  }
+
+  set frequency(value: number) {
+    this.input.frequency.value = value;
+  }
+
+  /**
+   * The quality factor.
+   */
+  get q(): number {
+    return this.input.Q.value;
+  }
+
+  set q(value: number) {
+    this.input.Q.value = value;
+  }
+
+  destroy(): void {
+    this.input.disconnect();
+  }
+}
+
+export type CompressorEffectOptions = {
+  /**
+   * The level in decibels above which the sound is compressed. Defaults to -24.
+   */
+  threshold?: number;
+
+  /**
+   * The range in decibels above the threshold where the compression fades in. Defaults to 30.
+   */
+  knee?: number;
+
+  /**
+   * The input change in decibels for a 1 decibel output change. Defaults to 12.
+   */
+  ratio?: number;
+
+  /**
+   * The time in seconds to reduce the gain by 10 decibels. Defaults to 0.003.
+   */
+  attack?: number;
+
+  /**
+   * The time in seconds to increase the gain by 10 decibels. Defaults to 0.25.
+   */
+  release?: number;
+};
+
+/**
+ * A dynamics compressor that lowers the volume of loud parts.
+ */
+export class CompressorEffect extends AudioEffect {
+  readonly input: DynamicsCompressorNode;
+
+  readonly output: DynamicsCompressorNode;
+
+  /**
+   * Create a compressor effect.
+   * @param context - The audio context to create the nodes with.
+   * @param options - The compressor settings.
+   */
+  constructor(
+    context: BaseAudioContext,
+    { threshold = -24, knee = 30, ratio = 12, attack = 0.003, release = 0.25 }: CompressorEffectOptions = {},
+  ) {
+    super();
+    const compressor = context.createDynamicsCompressor();
+    compressor.threshold.value = threshold;
+    compressor.knee.value = knee;
+    compressor.ratio.value = ratio;
+    compressor.attack.value = attack;
+    compressor.release.value = release;
+
+    this.input = compressor;
+    this.output = compressor;
+  }
+
+  /**
+   * The compressor node to change the settings.
+   */
+  get compressor(): DynamicsCompressorNode {
+    return this.input;
+  }
+
+  destroy(): void {
+    this.input.disconnect();
+  }
+}
+
+/**
+ * An effect that mixes the unprocessed sound with the processed sound.
+ */
+abstract class MixEffect extends AudioEffect {
+  readonly input: GainNode;
+
+  readonly output: GainNode;
+
+  private readonly dry: GainNode;
+
+  private readonly wet: GainNode;
+
+  /**
+   * Create the mix nodes.
+   * @param context - The audio context to create the nodes with.
+   * @param mix - How much of the processed sound is heard (0 - 1).
+   */
+  constructor(context: BaseAudioContext, mix: number) {
+    super();
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.dry = context.createGain();
+    this.wet = context.createGain();
+
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+    this.wet.connect(this.output);
+    this.mix = mix;
+  }
+
+  /**
+   * How much of the processed sound is heard (0 - 1). 0 is only the unprocessed sound.
+   */
+  get mix(): number {
+    return this.wet.gain.value;
+  }
+
+  set mix(value: number) {
+    const mix = clamp(value, 0, 1);
+    this.wet.gain.value = mix;
+    this.dry.gain.value = 1 - mix;
+  }
+
+  destroy(): void {
+    this.input.disconnect();
+    this.dry.disconnect();
+    this.wet.disconnect();
+    this.output.disconnect();
+  }
+
+  /**
+   * Route the sound through the processing nodes into the wet mix.
+   * @param first - The first processing node.
+   * @param last - The last processing node.
+   */
+  protected connectWet(first: AudioNode, last: AudioNode): void {
+    this.input.connect(first);
+    last.connect(this.wet);
+  }
+}
+
+export type ReverbEffectOptions = {
+  /**
+   * The recorded impulse response of a room. A decaying noise impulse is generated when not set.
+   */
+  impulse?: AudioBuffer;
+
+  /**
+   * The length of the generated impulse in seconds. Defaults to 2.
+   */
+  duration?: number;
+
+  /**
+   * How fast the generated impulse fades out. Higher is faster. Defaults to 2.
+   */
+  decay?: number;
+
+  /**
+   * How much of the reverb is heard (0 - 1). Defaults to 0.3.
+   */
+  mix?: number;
+};
+
+/**
+ * A convolution reverb.
+ */
+export class ReverbEffect extends MixEffect {
+  private readonly convolver: ConvolverNode;
+
+  /**
+   * Create a reverb effect.
+   * @param context - The audio context to create the nodes with.
+   * @param options - The reverb settings.
+   */
+  constructor(context: BaseAudioContext, { impulse, duration = 2, decay = 2, mix = 0.3 }: ReverbEffectOptions = {}) {
+    super(context, mix);
+    this.convolver = context.createConvolver();
+    this.convolver.buffer = impulse ?? createImpulse(context, duration, decay);
+    this.connectWet(this.convolver, this.convolver);
+  }
+
+  override destroy(): void {
+    super.destroy();
+    this.convolver.disconnect();
+  }
+}
+
+export type DelayEffectOptions = {
+  /**
+   * The time between echoes in seconds. Defaults to 0.25.
+   */
+  time?: number;
+
+  /**
+   * How much of each echo is repeated (0 - 1). Defaults to 0.4.
+   */
+  feedback?: number;
+
+  /**
+   * How much of the echoes is heard (0 - 1). Defaults to 0.5.
+   */
+  mix?: number;
+
+  /**
+   * The longest delay time that can be set in seconds. Defaults to 5.
+   */
+  maxTime?: number;
+};
+
+/**
+ * An echo effect.
+ */
+export class DelayEffect extends MixEffect {
+  private readonly delay: DelayNode;
+
+  private readonly feedbackGain: GainNode;
+
+  /**
+   * Create a delay effect.
+   * @param context - The audio context to create the nodes with.
+   * @param options - The delay settings.
+   */
+  constructor(
+    context: BaseAudioContext,
+    { time = 0.25, feedback = 0.4, mix = 0.5, maxTime = 5 }: DelayEffectOptions = {},
+  ) {
+    super(context, mix);
+    this.delay = context.createDelay(maxTime);
+    this.feedbackGain = context.createGain();
+
+    this.delay.connect(this.feedbackGain);
+    this.feedbackGain.connect(this.delay);
+    this.connectWet(this.delay, this.delay);
+
+    this.time = time;
+    this.feedback = feedback;
+  }
+
+  /**
+   * The time between echoes in seconds.
+   */
+  get time(): number {
+    return this.delay.delayTime.value;
+  }
+
+  set time(value: number) {
+    this.delay.delayTime.value = value;
+  }
+
+  /**
+   * How much of each echo is repeated (0 - 1).
+   */
+  get feedback(): number {
+    return this.feedbackGain.gain.value;
+  }
+
+  set feedback(value: number) {
+    // A feedback of 1 or more never fades out.
+    this.feedbackGain.gain.value = clamp(value, 0, 0.95);
+  }
+
+  override destroy(): void {
+    super.destroy();
+    this.delay.disconnect();
+    this.feedbackGain.disconnect();
+  }
+}
+
+/**
+ * Generate a stereo impulse response of fading noise.
+ * @param context - The audio context to create the buffer with.
+ * @param duration - The length in seconds.
+ * @param decay - How fast the noise fades out.
+ * @returns The impulse buffer.
+ */
+function createImpulse(context: BaseAudioContext, duration: number, decay: number): AudioBuffer {
+  const length = Math.max(1, Math.floor(context.sampleRate * duration));
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** decay;
+    }
+  }
+
+  return impulse;
+}
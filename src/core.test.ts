@@ -0,0 +1,336 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { Core, type CoreOptions } from './core.js';
+import { clearServices, getService } from './di/services.js';
+import type { Graphics } from './graphics/graphics.js';
+import { HeadlessCanvas } from './headless/headlessCanvas.js';
+import { createHeadlessOptions } from './headless/headlessOptions.js';
+import { createNullAudioContext } from './headless/nullAudioContext.js';
+import type { TextInput } from './input/textInput.js';
+import type { Callbacks } from './utils/callbacks.js';
+
+/**
+ * Create a focus event like the browser sends when the focus moves between elements.
+ */
+function createFocusEvent(type: 'focus' | 'blur', relatedTarget: EventTarget | null): Event {
+  return Object.assign(new Event(type), { relatedTarget });
+}
+
+describe('Core text input focus', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    clearServices();
+  });
+
+  it('should keep updating while a text input session has the focus', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+    const callbacks = getService('callbacks') as Callbacks;
+    const textInput = getService('textInput') as TextInput;
+
+    // The focus moves between the canvas and the hidden element like in the browser.
+    const element = Object.assign(new EventTarget(), {
+      style: {},
+      setAttribute: (): void => {},
+      removeAttribute: (): void => {},
+      setSelectionRange: (): void => {},
+      focus: (): void => {
+        core.canvas.dispatchEvent(createFocusEvent('blur', element));
+      },
+      blur: (): void => {},
+    });
+    core.canvas.focus = (): void => {
+      core.canvas.dispatchEvent(createFocusEvent('focus', element));
+    };
+    vi.stubGlobal('document', { createElement: () => element, body: { appendChild: (): void => {} } });
+
+    let updates = 0;
+    const focusChanges: string[] = [];
+    callbacks.addUpdateCallback(() => updates++);
+    callbacks.addFocusCallback(() => focusChanges.push('focus'));
+    callbacks.addBlurCallback(() => focusChanges.push('blur'));
+
+    core.start();
+    textInput.start();
+    core.tick(0.02);
+    textInput.stop();
+    core.tick(0.02);
+
+    expect(updates).toBe(2);
+    expect(focusChanges).toEqual([]);
+
+    core.canvas.dispatchEvent(createFocusEvent('blur', null));
+    core.tick(0.02);
+    expect(updates).toBe(2);
+    expect(focusChanges).toEqual(['blur']);
+  });
+
+  it('should lose the focus when the focus leaves a text input session for outside the game', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+    const callbacks = getService('callbacks') as Callbacks;
+    const textInput = getService('textInput') as TextInput;
+
+    // The element moves the focus like the browser and sends its own focus events.
+    const element = Object.assign(new EventTarget(), {
+      style: {},
+      setAttribute: (): void => {},
+      removeAttribute: (): void => {},
+      setSelectionRange: (): void => {},
+      focus: (): void => {
+        core.canvas.dispatchEvent(createFocusEvent('blur', element));
+        element.dispatchEvent(createFocusEvent('focus', core.canvas));
+      },
+      blur: (): void => {},
+    });
+    vi.stubGlobal('document', { createElement: () => element, body: { appendChild: (): void => {} } });
+
+    let updates = 0;
+    const focusChanges: string[] = [];
+    callbacks.addUpdateCallback(() => updates++);
+    callbacks.addFocusCallback(() => focusChanges.push('focus'));
+    callbacks.addBlurCallback(() => focusChanges.push('blur'));
+
+    core.start();
+    textInput.start();
+    core.tick(0.02);
+    expect(focusChanges).toEqual([]);
+
+    // Another tab or a page control gets the focus.
+    element.dispatchEvent(createFocusEvent('blur', null));
+    core.tick(0.02);
+    expect(updates).toBe(1);
+
+    element.dispatchEvent(createFocusEvent('focus', null));
+    core.tick(0.02);
+    expect(updates).toBe(2);
+    expect(focusChanges).toEqual(['blur', 'focus']);
+  });
+});
+
+describe('Core fixed time step', () => {
+  afterEach(() => {
+    clearServices();
+  });
+
+  /**
+   * Create a headless Core that records the fixed updates and render alphas.
+   */
+  function createCore(options: Partial<CoreOptions>): { core: Core; fixedUpdates: number[]; alphas: number[] } {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions(), ...options });
+    const callbacks = getService('callbacks') as Callbacks;
+    const fixedUpdates: number[] = [];
+    const alphas: number[] = [];
+    callbacks.addFixedUpdateCallback((deltaTime) => fixedUpdates.push(deltaTime));
+    callbacks.addRenderCallback((_graphics, alpha) => alphas.push(alpha));
+
+    return { core, fixedUpdates, alphas };
+  }
+
+  it('should run the fixed updates that fit in a frame', () => {
+    const { core, fixedUpdates, alphas } = createCore({ fixedUpdateRate: 60 });
+
+    core.tick(1 / 30);
+
+    expect(fixedUpdates).toEqual([1 / 60, 1 / 60]);
+    expect(alphas).toEqual([0]);
+  });
+
+  it('should carry the remaining time over as the render alpha', () => {
+    const { core, fixedUpdates, alphas } = createCore({ fixedUpdateRate: 32 });
+
+    core.tick(1 / 64);
+    expect(fixedUpdates).toHaveLength(0);
+    expect(alphas).toEqual([0.5]);
+
+    core.tick(1 / 64);
+    expect(fixedUpdates).toHaveLength(1);
+    expect(alphas).toEqual([0.5, 0]);
+  });
+
+  it('should clamp long frames', () => {
+    const { core, fixedUpdates, alphas } = createCore({ fixedUpdateRate: 32, maxFixedSteps: 10 });
+
+    // A frame is at most 1 / 15 of a second.
+    core.tick(1);
+
+    expect(fixedUpdates).toHaveLength(2);
+    expect(alphas[0]).toBeCloseTo((1 / 15 - 2 / 32) * 32);
+  });
+
+  it('should drop the time that does not fit in the maximum steps', () => {
+    const { core, fixedUpdates, alphas } = createCore({ fixedUpdateRate: 32, maxFixedSteps: 1 });
+
+    core.tick(1 / 16);
+    expect(fixedUpdates).toHaveLength(1);
+    expect(alphas).toEqual([0]);
+
+    core.tick(0);
+    expect(fixedUpdates).toHaveLength(1);
+  });
+
+  it('should render with alpha 1 without a fixed time step', () => {
+    const { core, fixedUpdates, alphas } = createCore({});
+
+    core.tick(0.02);
+
+    expect(fixedUpdates).toHaveLength(0);
+    expect(alphas).toEqual([1]);
+  });
+});
+
+describe('Core time scale and pause', () => {
+  let core: Core;
+  let updates: number[];
+  let unscaledUpdates: number[];
+  let fixedUpdates: number[];
+
+  /**
+   * Create a headless Core that records the scaled, unscaled and fixed updates.
+   */
+  function createCore(options: Partial<CoreOptions> = {}): void {
+    core = new Core({ width: 320, height: 180, headless: createHeadlessOptions(), ...options });
+    const callbacks = getService('callbacks') as Callbacks;
+    updates = [];
+    unscaledUpdates = [];
+    fixedUpdates = [];
+    callbacks.addUpdateCallback((deltaTime) => updates.push(deltaTime));
+    callbacks.addUpdateCallback((deltaTime) => unscaledUpdates.push(deltaTime), true);
+    callbacks.addFixedUpdateCallback((deltaTime) => fixedUpdates.push(deltaTime));
+  }
+
+  afterEach(() => {
+    clearServices();
+  });
+
+  it('should scale the delta time of the update callbacks only', () => {
+    createCore();
+    core.timeScale = 0.5;
+
+    core.tick(0.04);
+
+    expect(updates).toEqual([0.02]);
+    expect(unscaledUpdates).toEqual([0.04]);
+  });
+
+  it('should scale the time that drives the fixed updates', () => {
+    createCore({ fixedUpdateRate: 32 });
+    core.timeScale = 2;
+
+    core.tick(1 / 32);
+
+    expect(fixedUpdates).toEqual([1 / 32, 1 / 32]);
+  });
+
+  it('should only run unscaled updates and rendering while paused', () => {
+    createCore({ fixedUpdateRate: 60 });
+    let renders = 0;
+    (getService('callbacks') as Callbacks).addRenderCallback(() => renders++);
+    core.paused = true;
+
+    core.tick(0.05);
+
+    expect(updates).toEqual([]);
+    expect(fixedUpdates).toEqual([]);
+    expect(unscaledUpdates).toEqual([0.05]);
+    expect(renders).toBe(1);
+  });
+
+  it('should step one frame while paused', () => {
+    createCore();
+    core.step();
+    core.tick(0.02);
+    expect(updates).toEqual([0.02]);
+
+    core.paused = true;
+    core.step();
+    core.tick(0.02);
+    core.tick(0.02);
+
+    expect(updates).toEqual([0.02, 0.02]);
+    expect(unscaledUpdates).toHaveLength(3);
+  });
+
+  it('should step one fixed update while paused', () => {
+    createCore({ fixedUpdateRate: 60 });
+    core.paused = true;
+
+    core.step();
+    core.tick(0.05);
+    core.tick(0.05);
+
+    expect(fixedUpdates).toEqual([1 / 60]);
+    expect(updates).toEqual([1 / 60]);
+  });
+});
+
+describe('Core size', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    clearServices();
+  });
+
+  it('should resize the canvas and tell the resize callbacks', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+    const onResize = vi.fn();
+    (getService('callbacks') as Callbacks).addResizeCallback(onResize);
+
+    core.resize(640, 360);
+
+    expect(onResize).toHaveBeenCalledWith(640, 360, 640, 360);
+    expect(core.width).toBe(640);
+    expect(core.canvas.width).toBe(640);
+    expect(core.canvas.style.height).toBe('360px');
+  });
+
+  it('should keep the design size with a scale mode', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions(), scaleMode: 'letterbox' });
+    const onResize = vi.fn();
+    (getService('callbacks') as Callbacks).addResizeCallback(onResize);
+
+    core.resize(1280, 800);
+
+    expect(onResize).toHaveBeenCalledWith(320, 180, 1280, 800);
+    expect(core.width).toBe(1280);
+  });
+
+  it('should follow pixel ratio changes with hdpi', () => {
+    const canvas = new HeadlessCanvas(1, 1);
+    const media = new EventTarget();
+    const browserWindow = Object.assign(new EventTarget(), {
+      devicePixelRatio: 2,
+      matchMedia: () => media,
+      requestAnimationFrame: (): void => {},
+    });
+    vi.stubGlobal('window', browserWindow);
+    vi.stubGlobal('requestAnimationFrame', (): void => {});
+    vi.stubGlobal('document', Object.assign(new EventTarget(), { title: '', getElementById: () => canvas }));
+    vi.stubGlobal('AudioContext', createNullAudioContext);
+
+    const core = new Core({ width: 320, height: 180, hdpi: true });
+    const onResize = vi.fn();
+    (getService('callbacks') as Callbacks).addResizeCallback(onResize);
+    core.start();
+    expect(canvas.width).toBe(640);
+
+    browserWindow.devicePixelRatio = 3;
+    media.dispatchEvent(new Event('change'));
+
+    expect(core.pixelRatio).toBe(3);
+    expect(onResize).toHaveBeenCalledWith(320, 180, 960, 540);
+    expect(canvas.style.width).toBe('320px');
+
+    // Drawing stays in CSS pixels like input.
+    const graphics = getService('graphics') as Graphics;
+    expect(graphics.pixelRatio).toBe(3);
+    expect(graphics.width).toBe(320);
+    expect(graphics.height).toBe(180);
+  });
+
+  it('should never be fullscreen in headless mode', async () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+
+    expect(core.isFullscreen).toBe(false);
+    await core.enterFullscreen();
+    await core.exitFullscreen();
+    expect(core.isFullscreen).toBe(false);
+  });
+});
@@ -5,42 +5,228 @@ import { SoundLoader } from './assets/soundLoader.js';
 import { TextLoader } from './assets/textLoader.js';
 import { Audio } from './audio/audio.js';
 import { addService } from './di/services.js';
+import { getImageFragmentSource } from './graphics/defaultShaders.js';
 import { GLContext } from './graphics/glContext.js';
 import { Graphics } from './graphics/graphics.js';
+import { RenderTarget } from './graphics/renderTarget.js';
+import { calculateScale, type ScaleMode } from './graphics/scaling.js';
+import { Shader } from './graphics/shader.js';
+import type { PixelImage } from './headless/png.js';
+import type { SoftwareGL } from './headless/softwareGL.js';
+import { Actions } from './input/actions.js';
+import { Gamepads } from './input/gamepads.js';
+import { Gestures } from './input/gestures.js';
 import { Input } from './input/input.js';
+import { InputPlayer, InputRecorder, type InputRecording } from './input/inputRecording.js';
+import { TextInput } from './input/textInput.js';
+import { Mat4 } from './math/mat4.js';
 import { clamp } from './math/mathUtils.js';
 import { Random } from './math/random.js';
+import { Vec2 } from './math/vec2.js';
+import { Scenes } from './scenes/scenes.js';
+import { Timers } from './timers/timers.js';
+import { Tweens } from './tweens/tweens.js';
 import { Callbacks } from './utils/callbacks.js';
 
+/**
+ * Creates the browser stand ins for headless mode. They are passed in so browser builds don't include them. Use
+ * `createHeadlessOptions` from the headless module.
+ */
+export type HeadlessOptions = {
+  /**
+   * Create a canvas stand in with a WebGL context that does nothing.
+   */
+  createCanvas: (width: number, height: number) => HTMLCanvasElement;
+
+  /**
+   * Create an audio context that does nothing.
+   */
+  createAudioContext: () => AudioContext;
+
+  /**
+   * Create the CPU renderer used with `softwareRendering`.
+   */
+  createSoftwareGL: (canvas: HTMLCanvasElement) => SoftwareGL;
+};
+
 export type CoreOptions = {
   width: number;
   height: number;
   title?: string;
   targetFps?: number;
   runInBackground?: boolean;
+
+  /**
+   * Follow the device pixel ratio with the drawing buffer, so the game is sharp on high density screens. Drawing,
+   * input and the resize size stay in CSS pixels.
+   */
   hdpi?: boolean;
   fillWindow?: boolean;
+
+  /**
+   * Fixed simulation rate in updates per second. When set, the fixed update callbacks are called at this rate and
+   * the render callbacks receive an interpolation alpha.
+   */
+  fixedUpdateRate?: number;
+
+  /**
+   * The maximum amount of fixed updates per frame. Prevents the simulation from spiraling when a frame takes long.
+   */
+  maxFixedSteps?: number;
+
+  /**
+   * Render at a fixed design resolution and scale it to the window with this mode. When set, `width` and `height`
+   * are the design resolution, the canvas fills the window and input positions are in the design resolution.
+   */
+  scaleMode?: ScaleMode;
+
+  /**
+   * Run without a browser when set. Core uses the canvas and audio context stand ins from these options and never
+   * starts the animation frame loop. Advance the game with `tick`. Useful for tests and servers.
+   */
+  headless?: HeadlessOptions;
+
+  /**
+   * Draw frames on the CPU in headless mode so they can be read with `readPixels`. Used for reference image tests.
+   */
+  softwareRendering?: boolean;
 };
 
 const MAX_DT: number = 1.0 / 15;
 
+const DEFAULT_MAX_FIXED_STEPS = 5;
+
 export class Core {
   readonly canvas: HTMLCanvasElement;
 
-  readonly pixelRatio: number;
+  /**
+   * The drawing buffer pixels per CSS pixel. Follows the device pixel ratio when `hdpi` is enabled.
+   */
+  get pixelRatio(): number {
+    return this._pixelRatio;
+  }
+
+  /**
+   * The canvas width in CSS pixels.
+   */
+  get width(): number {
+    return this.canvasWidth;
+  }
+
+  /**
+   * The canvas height in CSS pixels.
+   */
+  get height(): number {
+    return this.canvasHeight;
+  }
+
+  /**
+   * Is the canvas in fullscreen mode. Always false in headless mode.
+   */
+  get isFullscreen(): boolean {
+    return typeof document !== 'undefined' && document.fullscreenElement === this.canvas;
+  }
+
+  /**
+   * Is a recording being replayed.
+   */
+  get isReplaying(): boolean {
+    return this.inputPlayer !== undefined;
+  }
 
   fillWindow: boolean;
 
   targetFps: number;
 
+  /**
+   * The fixed time step in seconds. 0 when the fixed time step is disabled.
+   */
+  fixedTimeStep: number;
+
+  /**
+   * The maximum amount of fixed updates per frame.
+   */
+  maxFixedSteps: number;
+
+  /**
+   * Multiplier for the delta time passed to the update and fixed update callbacks.
+   * Unscaled update callbacks always get the real delta time.
+   */
+  timeScale: number;
+
+  /**
+   * When paused only the unscaled update callbacks and the render callbacks are called.
+   */
+  paused: boolean;
+
+  /**
+   * How the design resolution is scaled to the canvas. Undefined when the game renders at the canvas size.
+   */
+  readonly scaleMode?: ScaleMode;
+
+  /**
+   * The design width when a scale mode is used.
+   */
+  readonly designWidth: number;
+
+  /**
+   * The design height when a scale mode is used.
+   */
+  readonly designHeight: number;
+
+  /**
+   * Is Core running without a browser.
+   */
+  readonly headless: boolean;
+
   private input: Input;
 
+  private actions: Actions;
+
+  private gamepads: Gamepads;
+
+  private gestures: Gestures;
+
+  private textInput: TextInput;
+
+  private random: Random;
+
+  private inputRecorder?: InputRecorder;
+
+  private inputPlayer?: InputPlayer;
+
+  private _pixelRatio: number;
+
+  private hdpi: boolean;
+
+  private canvasWidth = 0;
+
+  private canvasHeight = 0;
+
+  /**
+   * The canvas size before entering fullscreen so it can be restored.
+   */
+  private windowedWidth = 0;
+
+  private windowedHeight = 0;
+
+  /**
+   * Media query that changes when the device pixel ratio changes, for example when the window is moved to another
+   * screen or the page is zoomed.
+   */
+  private pixelRatioQuery?: MediaQueryList;
+
   private runInBackground: boolean;
 
   private lastFrameTime: number;
 
   private context: GLContext;
 
+  /**
+   * The CPU renderer when software rendering is enabled.
+   */
+  private softwareGL?: SoftwareGL;
+
   private graphics: Graphics;
 
   private started: boolean;
@@ -49,59 +235,159 @@ export class Core {
 
   private callbacks: Callbacks;
 
-  constructor({ width, height, title, targetFps, runInBackground, hdpi, fillWindow }: CoreOptions) {
+  /**
+   * Time that has not been consumed by fixed updates yet.
+   */
+  private accumulator: number;
+
+  /**
+   * Should the next frame be advanced while paused.
+   */
+  private stepRequested: boolean;
+
+  /**
+   * The paused state before the WebGL context was lost, restored when the context comes back.
+   */
+  private pausedBeforeContextLoss = false;
+
+  /**
+   * The game is rendered into this target when a scale mode is used.
+   */
+  private screenTarget?: RenderTarget;
+
+  /**
+   * Nearest neighbour shader to draw the screen target with in pixel perfect mode.
+   */
+  private screenShader?: Shader;
+
+  /**
+   * Transform to draw the screen target on the canvas.
+   */
+  private readonly screenTransform = new Mat4();
+
+  private readonly screenOrigin = new Vec2();
+
+  constructor({
+    width,
+    height,
+    title,
+    targetFps,
+    runInBackground,
+    hdpi,
+    fillWindow,
+    fixedUpdateRate,
+    maxFixedSteps,
+    scaleMode,
+    headless,
+    softwareRendering,
+  }: CoreOptions) {
     title ??= 'Square2 Game';
     this.runInBackground = runInBackground ?? false;
     this.targetFps = targetFps ?? -1;
-    hdpi ??= false;
-    this.fillWindow = fillWindow ?? false;
-    if (this.fillWindow) {
-      width = window.innerWidth;
-      height = window.innerHeight;
-    }
+    this.fixedTimeStep = fixedUpdateRate ? 1.0 / fixedUpdateRate : 0;
+    this.maxFixedSteps = maxFixedSteps ?? DEFAULT_MAX_FIXED_STEPS;
+    this.accumulator = 0;
+    this.timeScale = 1;
+    this.paused = false;
+    this.stepRequested = false;
+    this.hdpi = hdpi ?? false;
+    this.scaleMode = scaleMode;
+    this.designWidth = width;
+    this.designHeight = height;
+    this.headless = headless !== undefined;
+
+    if (headless) {
+      // There is no window to fill or pixel ratio to follow.
+      this.fillWindow = false;
+      this.hdpi = false;
+      this._pixelRatio = 1;
+      this.canvas = headless.createCanvas(width, height);
+    } else {
+      this.fillWindow = (fillWindow ?? false) || scaleMode !== undefined;
+      if (this.fillWindow) {
+        width = window.innerWidth;
+        height = window.innerHeight;
+      }
 
-    document.title = title;
-    const canvasId = 'square2';
+      document.title = title;
+      const canvasId = 'square2';
 
-    this.pixelRatio = hdpi ? window.devicePixelRatio : 1;
-    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+      this._pixelRatio = this.hdpi ? window.devicePixelRatio : 1;
+      this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
 
-    if (!this.canvas) {
-      throw new Error(`Canvas element with id "${canvasId}" not found`);
+      if (!this.canvas) {
+        throw new Error(`Canvas element with id "${canvasId}" not found`);
+      }
     }
 
-    this.canvas.width = width * this.pixelRatio;
-    this.canvas.height = height * this.pixelRatio;
-
-    this.canvas.style.width = `${width}px`;
-    this.canvas.style.height = `${height}px`;
+    this.setCanvasSize(width, height);
 
-    this.context = new GLContext(this.canvas);
-    addService('context', this.context);
+    if (headless && softwareRendering) {
+      this.softwareGL = headless.createSoftwareGL(this.canvas);
+      this.context = new GLContext(this.softwareGL.gl);
+    } else {
+      this.context = new GLContext(this.canvas);
+    }
+    addService('glContext', this.context);
+    this.context.events.on({ event: 'lost', callback: this.onContextLost });
+    this.context.events.on({ event: 'restored', callback: this.onContextRestored });
 
-    addService('audio', new Audio());
+    addService('audio', new Audio(headless?.createAudioContext()));
 
-    this.graphics = new Graphics(this.context, this.canvas, this.pixelRatio);
+    this.graphics = new Graphics(this.context, this.canvas);
+    this.updateGraphicsPixelRatio();
     addService('graphics', this.graphics);
 
-    addService('random', new Random());
+    if (this.scaleMode) {
+      this.screenTarget = new RenderTarget(this.designWidth, this.designHeight);
+      if (this.scaleMode === 'pixelPerfect') {
+        this.screenShader = new Shader('image', getImageFragmentSource(this.context.isGL1));
+        this.screenShader.textureParameters.minFilter = 'nearest';
+        this.screenShader.textureParameters.magFilter = 'nearest';
+      }
+    }
+
+    this.random = new Random();
+    addService('random', this.random);
 
     this.input = new Input(this.canvas);
     addService('input', this.input);
 
+    this.gamepads = new Gamepads(this.headless ? { getGamepads: () => [] } : undefined);
+    addService('gamepads', this.gamepads);
+
+    this.actions = new Actions(this.input);
+    addService('actions', this.actions);
+
+    this.gestures = new Gestures(this.input);
+    addService('gestures', this.gestures);
+
+    // The hidden input element is only created when a session starts, so this also works headless.
+    this.textInput = new TextInput(this.input, undefined, this.onTextElementFocusChange);
+    addService('textInput', this.textInput);
+
     this.callbacks = new Callbacks(this.input);
     addService('callbacks', this.callbacks);
 
+    this.updateScale();
+
+    addService('scenes', new Scenes(this.callbacks));
+    addService('tweens', new Tweens(this.callbacks));
+    addService('timers', new Timers(this.callbacks));
+
+    // The loaders inject the assets service, so it needs to exist before they are created.
     const assets = new Assets();
+    addService('assets', assets);
     assets.registerLoader(new BitmapFontLoader());
     assets.registerLoader(new ImageLoader());
     assets.registerLoader(new SoundLoader());
     assets.registerLoader(new TextLoader());
-    addService('assets', assets);
 
     this.started = false;
     this.lastFrameTime = 0;
-    this.inFocus = false;
+
+    // A headless game has no focus events, so it is always in focus.
+    this.inFocus = this.headless;
   }
 
   start(): void {
@@ -110,12 +396,21 @@ export class Core {
     }
     this.started = true;
 
+    this.canvas.addEventListener('focus', this.onCanvasFocus);
+    this.canvas.addEventListener('blur', this.onCanvasBlur);
+
+    if (this.headless) {
+      return;
+    }
+
     this.canvas.focus();
     this.inFocus = true;
 
-    this.canvas.addEventListener('focus', () => this.focus());
-    this.canvas.addEventListener('blur', () => this.blur());
-    this.canvas.addEventListener('resize', () => this.resize(window.innerWidth, window.innerHeight));
+    window.addEventListener('resize', this.onWindowResize);
+    document.addEventListener('fullscreenchange', this.onFullscreenChange);
+    if (this.hdpi) {
+      this.watchPixelRatio();
+    }
 
     requestAnimationFrame(() => {
       this.lastFrameTime = window.performance.now();
@@ -130,11 +425,154 @@ export class Core {
 
   blur(): void {
     this.inFocus = false;
+
+    // Key up events are not received without focus, so keys would stay down.
+    this.resetInput();
     this.callbacks.blur();
   }
 
+  /**
+   * Resize the canvas. With a scale mode the game keeps the design resolution and gets scaled to the new size.
+   * @param width - The new canvas width in CSS pixels.
+   * @param height - The new canvas height in CSS pixels.
+   */
   resize(width: number, height: number): void {
-    this.callbacks.resize(width, height);
+    this.setCanvasSize(width, height);
+    this.updateScale();
+    this.updateGraphicsPixelRatio();
+
+    if (this.scaleMode) {
+      this.callbacks.resize(this.designWidth, this.designHeight, this.canvas.width, this.canvas.height);
+    } else {
+      this.callbacks.resize(width, height, this.canvas.width, this.canvas.height);
+    }
+  }
+
+  /**
+   * Show the canvas fullscreen. Browsers only allow this from a user input event like a click or key press.
+   * Does nothing in headless mode.
+   * @returns A promise that resolves when fullscreen is active.
+   */
+  async enterFullscreen(): Promise<void> {
+    if (this.headless || this.isFullscreen) {
+      return;
+    }
+
+    this.windowedWidth = this.canvasWidth;
+    this.windowedHeight = this.canvasHeight;
+    await this.canvas.requestFullscreen();
+  }
+
+  /**
+   * Leave fullscreen mode.
+   * @returns A promise that resolves when fullscreen is closed.
+   */
+  async exitFullscreen(): Promise<void> {
+    if (!this.isFullscreen) {
+      return;
+    }
+
+    await document.exitFullscreen();
+  }
+
+  /**
+   * Advance the game by one frame. Runs the same update and render as the animation frame loop.
+   * Use this in headless mode to run the game manually.
+   * @param deltaTime - The time to advance in seconds. Clamped to the same maximum as the loop.
+   */
+  tick(deltaTime: number): void {
+    this.update(deltaTime);
+  }
+
+  /**
+   * Read the last rendered frame. Only available in headless mode with software rendering.
+   * @returns A copy of the canvas pixels with the first row at the top.
+   */
+  readPixels(): PixelImage {
+    if (!this.softwareGL) {
+      throw new Error('Reading pixels requires headless mode with software rendering');
+    }
+
+    return this.softwareGL.getPixels();
+  }
+
+  /**
+   * Start recording all input and the frame delta times. Resets the random seed and the fixed time step
+   * accumulator so a replay starts with the same random numbers and fixed updates. Start at a point the game can get
+   * back to, like the start of a scene, so a replay from there matches. Use a fixed update rate to get the same
+   * simulation on replay.
+   */
+  startRecording(): void {
+    if (this.inputRecorder) {
+      throw new Error('Input is already being recorded');
+    }
+
+    this.random.resetSeed();
+    this.accumulator = 0;
+    this.inputRecorder = new InputRecorder(this.input, this.random.seed);
+  }
+
+  /**
+   * Stop recording input.
+   * @returns The recording. Save it with `serializeRecording`.
+   */
+  stopRecording(): InputRecording {
+    if (!this.inputRecorder) {
+      throw new Error('Input is not being recorded');
+    }
+
+    const recording = this.inputRecorder.stop();
+    this.inputRecorder = undefined;
+
+    return recording;
+  }
+
+  /**
+   * Replay a recording. Browser input is ignored and every frame uses the recorded input and delta time until the
+   * recording ends. Input that is down when the replay starts is released, because the recording does not have it.
+   * @param recording - The recording to play.
+   */
+  replay(recording: InputRecording): void {
+    if (this.inputPlayer) {
+      throw new Error('A recording is already being replayed');
+    }
+
+    if (this.inputRecorder) {
+      throw new Error('Cannot replay while input is being recorded');
+    }
+
+    this.random.seed = recording.seed;
+    this.accumulator = 0;
+    this.input.deviceInputEnabled = false;
+    this.resetInput();
+    this.inputPlayer = new InputPlayer(this.input, recording);
+  }
+
+  /**
+   * Stop a replay and listen to browser input again.
+   */
+  stopReplay(): void {
+    this.inputPlayer = undefined;
+    this.input.deviceInputEnabled = true;
+  }
+
+  /**
+   * Advance exactly one frame on the next update while paused. With a fixed time step enabled this runs one fixed
+   * update. Does nothing when not paused.
+   */
+  step(): void {
+    if (this.paused) {
+      this.stepRequested = true;
+    }
+  }
+
+  /**
+   * Release all keys, buttons and touches in the input polling state, the actions and the gestures.
+   */
+  private resetInput(): void {
+    this.input.resetState();
+    this.actions.reset();
+    this.gestures.reset();
   }
 
   private loop(): void {
@@ -162,14 +600,210 @@ export class Core {
       return;
     }
 
-    const clampedDt = clamp(deltaTime, 0, MAX_DT);
+    let clampedDt = clamp(deltaTime, 0, MAX_DT);
+    if (this.inputPlayer) {
+      const recordedDt = this.inputPlayer.playFrame();
+      if (recordedDt === undefined) {
+        this.stopReplay();
+      } else {
+        clampedDt = recordedDt;
+      }
+    }
+
     this.input.update();
+    this.gamepads.update(this.inputPlayer?.getGamepads());
+    this.actions.update();
+    this.gestures.update(clampedDt);
+
+    let alpha = this.fixedTimeStep > 0 ? this.accumulator / this.fixedTimeStep : 1;
+    if (!this.paused) {
+      this.stepRequested = false;
+      const scaledDt = clampedDt * this.timeScale;
+      if (this.fixedTimeStep > 0) {
+        alpha = this.fixedUpdate(scaledDt);
+      }
+      this.callbacks.update(scaledDt);
+    } else if (this.stepRequested) {
+      this.stepRequested = false;
+      if (this.fixedTimeStep > 0) {
+        this.callbacks.fixedUpdate(this.fixedTimeStep);
+        this.callbacks.update(this.fixedTimeStep);
+      } else {
+        this.callbacks.update(clampedDt * this.timeScale);
+      }
+    }
 
-    this.callbacks.update(clampedDt);
-    this.render();
+    this.callbacks.unscaledUpdate(clampedDt);
+
+    // Nothing can be drawn without a context.
+    if (!this.context.isLost) {
+      this.render(alpha);
+    }
+
+    this.inputRecorder?.endFrame(clampedDt);
   }
 
-  private render(): void {
-    this.callbacks.render(this.graphics);
+  /**
+   * Run the fixed updates for this frame.
+   * @param deltaTime - The time passed since the last frame in seconds.
+   * @returns The interpolation alpha between the previous and the current fixed update.
+   */
+  private fixedUpdate(deltaTime: number): number {
+    this.accumulator += deltaTime;
+
+    let steps = 0;
+    while (this.accumulator >= this.fixedTimeStep && steps < this.maxFixedSteps) {
+      this.callbacks.fixedUpdate(this.fixedTimeStep);
+      this.accumulator -= this.fixedTimeStep;
+      steps++;
+    }
+
+    // Drop the time we could not catch up on so the next frames don't try to catch up all at once.
+    if (this.accumulator >= this.fixedTimeStep) {
+      this.accumulator %= this.fixedTimeStep;
+    }
+
+    return this.accumulator / this.fixedTimeStep;
+  }
+
+  /**
+   * Set the canvas CSS size and the drawing buffer size.
+   * @param width - The width in CSS pixels.
+   * @param height - The height in CSS pixels.
+   */
+  private setCanvasSize(width: number, height: number): void {
+    this.canvasWidth = width;
+    this.canvasHeight = height;
+
+    this.canvas.width = Math.round(width * this._pixelRatio);
+    this.canvas.height = Math.round(height * this._pixelRatio);
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+  }
+
+  /**
+   * Listen for the next device pixel ratio change. A resolution media query only matches one ratio, so a new query
+   * is needed after every change.
+   */
+  private watchPixelRatio(): void {
+    this.pixelRatioQuery?.removeEventListener('change', this.onPixelRatioChange);
+    this.pixelRatioQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    this.pixelRatioQuery.addEventListener('change', this.onPixelRatioChange);
+  }
+
+  /**
+   * Calculate where the design resolution is drawn on the canvas and update the input mapping to match.
+   */
+  private updateScale(): void {
+    if (!this.scaleMode) {
+      return;
+    }
+
+    // Scale in drawing buffer pixels so pixel perfect scaling lines up with the real pixels.
+    const { x, y, scaleX, scaleY } = calculateScale({
+      mode: this.scaleMode,
+      designWidth: this.designWidth,
+      designHeight: this.designHeight,
+      screenWidth: this.canvas.width,
+      screenHeight: this.canvas.height,
+    });
+
+    Mat4.from2dRotationTranslationScale({ rotation: 0, x, y, scaleX, scaleY, out: this.screenTransform });
+    this.input.setLogicalMapping(
+      x / this.pixelRatio,
+      y / this.pixelRatio,
+      scaleX / this.pixelRatio,
+      scaleY / this.pixelRatio,
+    );
+  }
+
+  /**
+   * Draw on the canvas in CSS pixels, so drawing matches input and the resize size. A scale mode draws in the design
+   * resolution and scales it to the drawing buffer itself.
+   */
+  private updateGraphicsPixelRatio(): void {
+    this.graphics.pixelRatio = this.scaleMode ? 1 : this._pixelRatio;
+  }
+
+  private render(alpha: number): void {
+    if (!this.screenTarget) {
+      this.callbacks.render(this.graphics, alpha);
+      return;
+    }
+
+    this.graphics.pushTarget(this.screenTarget);
+    this.callbacks.render(this.graphics, alpha);
+    this.graphics.commit();
+    this.graphics.popTarget();
+
+    // Clearing the canvas draws the bars around the scaled game.
+    this.graphics.start(true);
+    if (this.screenShader) {
+      this.graphics.setShader(this.screenShader);
+    }
+    this.graphics.pushTransform(this.screenTransform);
+    this.graphics.color.set(1, 1, 1, 1);
+    this.graphics.drawRenderTarget(this.screenOrigin, this.screenTarget);
+    this.graphics.commit();
+    this.graphics.popTransform();
+    this.graphics.setShader();
   }
+
+  private onCanvasFocus = (event: FocusEvent): void => {
+    if (!this.textInput.isTextElement(event.relatedTarget)) {
+      this.focus();
+    }
+  };
+
+  private onCanvasBlur = (event: FocusEvent): void => {
+    // Typing in a text input session is still playing the game.
+    if (!this.textInput.isTextElement(event.relatedTarget)) {
+      this.blur();
+    }
+  };
+
+  /**
+   * The hidden text element has the focus during a text input session. Moving the focus between it and the canvas
+   * is handled by the canvas listeners, anything else is the game gaining or losing the focus.
+   */
+  private onTextElementFocusChange = (event: FocusEvent): void => {
+    if (event.relatedTarget === this.canvas) {
+      return;
+    }
+
+    if (event.type === 'focus') {
+      this.focus();
+    } else {
+      this.blur();
+    }
+  };
+
+  private onWindowResize = (): void => {
+    if (this.fillWindow || this.isFullscreen) {
+      this.resize(window.innerWidth, window.innerHeight);
+    }
+  };
+
+  private onFullscreenChange = (): void => {
+    if (this.isFullscreen || this.fillWindow) {
+      this.resize(window.innerWidth, window.innerHeight);
+    } else if (this.windowedWidth > 0) {
+      this.resize(this.windowedWidth, this.windowedHeight);
+    }
+  };
+
+  private onPixelRatioChange = (): void => {
+    this._pixelRatio = window.devicePixelRatio;
+    this.resize(this.canvasWidth, this.canvasHeight);
+    this.watchPixelRatio();
+  };
+
+  private onContextLost = (): void => {
+    this.pausedBeforeContextLoss = this.paused;
+    this.paused = true;
+  };
+
+  private onContextRestored = (): void => {
+    this.paused = this.pausedBeforeContextLoss;
+  };
 }
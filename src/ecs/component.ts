@@ -0,0 +1,25 @@
+/**
+ * A component type. Create one instance per kind of component and use it to add, get and query components.
+ * Each world gives every component type it sees a bit in the entity masks, so a world supports up to 32 types.
+ */
+export class ComponentType<T> {
+  /**
+   * The name of the component type. Used in error messages.
+   */
+  readonly name: string;
+
+  /**
+   * Creates the default value when a component is added without a value.
+   */
+  readonly create?: () => T;
+
+  /**
+   * Create a new component type.
+   * @param name - The name of the component type.
+   * @param create - Optional function that creates the default component value.
+   */
+  constructor(name: string, create?: () => T) {
+    this.name = name;
+    this.create = create;
+  }
+}
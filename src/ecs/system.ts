@@ -0,0 +1,80 @@
+import type { Graphics } from '../graphics/graphics.js';
+import type { ComponentType } from './component.js';
+import type { World } from './world.js';
+
+/**
+ * Base class for ECS systems. A system gets all entities that have every component in `components`.
+ * Override the hooks that are needed.
+ */
+export class System {
+  /**
+   * The component types an entity needs to be part of this system. An empty list matches every entity.
+   */
+  readonly components: ComponentType<unknown>[];
+
+  /**
+   * Systems with a lower order run first. Systems with the same order run in the order they were added.
+   */
+  readonly order: number;
+
+  /**
+   * The entities that match the component query. This is managed by the world.
+   */
+  readonly entities: Set<number> = new Set();
+
+  /**
+   * The world this system is added to. This is managed by the world.
+   */
+  world?: World;
+
+  /**
+   * Create a new system.
+   * @param components - The component types an entity needs to be part of this system.
+   * @param order - The run order of the system.
+   */
+  constructor(components: ComponentType<unknown>[], order: number = 0) {
+    this.components = components;
+    this.order = order;
+  }
+
+  /**
+   * Called when the system is added to a world.
+   */
+  added(): void {}
+
+  /**
+   * Called when the system is removed from a world.
+   */
+  removed(): void {}
+
+  /**
+   * Called when an entity starts matching the component query.
+   * @param _entity - The entity id.
+   */
+  entityAdded(_entity: number): void {}
+
+  /**
+   * Called when an entity stops matching the component query. Its components can still be read here.
+   * @param _entity - The entity id.
+   */
+  entityRemoved(_entity: number): void {}
+
+  /**
+   * Called every update.
+   * @param _deltaTime - The time passed since the last update in seconds.
+   */
+  update(_deltaTime: number): void {}
+
+  /**
+   * Called every fixed update.
+   * @param _deltaTime - The fixed time step in seconds.
+   */
+  fixedUpdate(_deltaTime: number): void {}
+
+  /**
+   * Called every frame.
+   * @param _graphics - The graphics to render with.
+   * @param _alpha - The interpolation alpha between fixed updates.
+   */
+  render(_graphics: Graphics, _alpha: number): void {}
+}
@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { Graphics } from '../graphics/graphics.js';
+import type { Input } from '../input/input.js';
+import { Callbacks } from '../utils/callbacks.js';
+import { ComponentType } from './component.js';
+import { System } from './system.js';
+import { World } from './world.js';
+
+type Position = { x: number; y: number };
+type Velocity = { x: number; y: number };
+
+const Position = new ComponentType<Position>('Position', () => ({ x: 0, y: 0 }));
+const Velocity = new ComponentType<Velocity>('Velocity');
+
+class MovementSystem extends System {
+  log: string[] = [];
+
+  constructor(order = 0) {
+    super([Position, Velocity], order);
+  }
+
+  override entityAdded(entity: number): void {
+    this.log.push(`added:${entity}`);
+  }
+
+  override entityRemoved(entity: number): void {
+    // The components should still be readable here.
+    const position = this.world?.getComponent(entity, Position);
+    this.log.push(`removed:${entity}:${position?.x}`);
+  }
+
+  override update(deltaTime: number): void {
+    for (const entity of this.entities) {
+      const position = this.world?.getComponent(entity, Position);
+      const velocity = this.world?.getComponent(entity, Velocity);
+      if (!position || !velocity) {
+        continue;
+      }
+      position.x += velocity.x * deltaTime;
+      position.y += velocity.y * deltaTime;
+    }
+  }
+}
+
+describe('World', () => {
+  let callbacks: Callbacks;
+  let world: World;
+
+  beforeEach(() => {
+    callbacks = new Callbacks({} as Input);
+    world = new World(callbacks);
+  });
+
+  it('should create and destroy entities', () => {
+    const a = world.createEntity();
+    const b = world.createEntity();
+
+    expect(a).not.toBe(b);
+    expect(world.entityCount).toBe(2);
+
+    world.destroyEntity(a);
+    expect(world.hasEntity(a)).toBe(false);
+    expect(world.hasEntity(b)).toBe(true);
+    expect(world.entityCount).toBe(1);
+  });
+
+  it('should add, get and remove components', () => {
+    const entity = world.createEntity();
+    world.addComponent(entity, Position, { x: 1, y: 2 });
+
+    expect(world.hasComponent(entity, Position)).toBe(true);
+    expect(world.getComponent(entity, Position)).toEqual({ x: 1, y: 2 });
+
+    world.removeComponent(entity, Position);
+    expect(world.hasComponent(entity, Position)).toBe(false);
+    expect(world.getComponent(entity, Position)).toBeUndefined();
+  });
+
+  it('should use the default component value', () => {
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+
+    expect(world.getComponent(entity, Position)).toEqual({ x: 0, y: 0 });
+    expect(() => world.addComponent(entity, Velocity)).toThrow('Component Velocity has no default value');
+  });
+
+  it('should query entities with all components', () => {
+    const a = world.createEntity();
+    const b = world.createEntity();
+    world.addComponent(a, Position);
+    world.addComponent(b, Position);
+    world.addComponent(b, Velocity, { x: 1, y: 1 });
+
+    expect(world.query([Position])).toEqual([a, b]);
+    expect(world.query([Position, Velocity])).toEqual([b]);
+  });
+
+  it('should emit component events', () => {
+    const events: string[] = [];
+    world.events.on({ event: 'componentAdded', callback: (entity, type) => events.push(`add:${entity}:${type.name}`) });
+    world.events.on({
+      event: 'componentRemoved',
+      callback: (entity, type) => events.push(`remove:${entity}:${type.name}`),
+    });
+
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+    world.addComponent(entity, Velocity, { x: 0, y: 0 });
+    world.removeComponent(entity, Position);
+    world.destroyEntity(entity);
+
+    expect(events).toEqual([
+      `add:${entity}:Position`,
+      `add:${entity}:Velocity`,
+      `remove:${entity}:Position`,
+      `remove:${entity}:Velocity`,
+    ]);
+  });
+
+  it('should add matching entities to systems', () => {
+    const system = new MovementSystem();
+    const existing = world.createEntity();
+    world.addComponent(existing, Position);
+    world.addComponent(existing, Velocity, { x: 0, y: 0 });
+
+    world.addSystem(system);
+    expect([...system.entities]).toEqual([existing]);
+
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+    expect(system.entities.has(entity)).toBe(false);
+
+    world.addComponent(entity, Velocity, { x: 0, y: 0 });
+    expect(system.entities.has(entity)).toBe(true);
+
+    world.addComponent(entity, Position, { x: 5, y: 0 });
+    world.removeComponent(entity, Velocity);
+    expect(system.entities.has(entity)).toBe(false);
+    expect(system.log).toEqual([`added:${existing}`, `added:${entity}`, `removed:${entity}:5`]);
+  });
+
+  it('should update systems from the callbacks', () => {
+    world.addSystem(new MovementSystem());
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+    world.addComponent(entity, Velocity, { x: 2, y: 4 });
+
+    callbacks.update(0.5);
+
+    expect(world.getComponent(entity, Position)).toEqual({ x: 1, y: 2 });
+  });
+
+  it('should run systems in order', () => {
+    const order: string[] = [];
+    class NamedSystem extends System {
+      name: string;
+
+      constructor(name: string, systemOrder: number) {
+        super([], systemOrder);
+        this.name = name;
+      }
+
+      override update(): void {
+        order.push(this.name);
+      }
+
+      override render(): void {
+        order.push(`render:${this.name}`);
+      }
+    }
+
+    world.addSystem(new NamedSystem('c', 2));
+    world.addSystem(new NamedSystem('a', 0));
+    world.addSystem(new NamedSystem('b', 0));
+
+    callbacks.update(0.016);
+    callbacks.render({} as Graphics);
+
+    expect(order).toEqual(['a', 'b', 'c', 'render:a', 'render:b', 'render:c']);
+  });
+
+  it('should defer structural changes while a system is running', () => {
+    class SpawnSystem extends System {
+      spawned: number[] = [];
+
+      seen = 0;
+
+      constructor() {
+        super([Position]);
+      }
+
+      override update(): void {
+        for (const entity of this.entities) {
+          this.seen++;
+          world.destroyEntity(entity);
+
+          const spawned = world.createEntity();
+          world.addComponent(spawned, Position);
+          this.spawned.push(spawned);
+
+          // Nothing changes until the system is done.
+          expect(world.hasEntity(entity)).toBe(true);
+          expect(world.hasEntity(spawned)).toBe(false);
+        }
+      }
+    }
+
+    const system = new SpawnSystem();
+    world.addSystem(system);
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+
+    callbacks.update(0.016);
+
+    expect(system.seen).toBe(1);
+    expect(world.hasEntity(entity)).toBe(false);
+    expect([...system.entities]).toEqual(system.spawned);
+  });
+
+  it('should remove systems', () => {
+    const system = new MovementSystem();
+    world.addSystem(system);
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+    world.addComponent(entity, Velocity, { x: 1, y: 0 });
+
+    world.removeSystem(system);
+    callbacks.update(1);
+
+    expect(system.world).toBeUndefined();
+    expect(system.entities.size).toBe(0);
+    expect(world.getComponent(entity, Position)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should throw when there are too many component types', () => {
+    const entity = world.createEntity();
+    for (let i = 0; i < 32; i++) {
+      world.addComponent(entity, new ComponentType(`Component${i}`), i);
+    }
+
+    expect(() => world.addComponent(entity, new ComponentType('Component32'), 32)).toThrow(
+      'A world supports up to 32 component types',
+    );
+  });
+});
@@ -0,0 +1,413 @@
+import { Emitter } from '../emitter/emitter.js';
+import type { Graphics } from '../graphics/graphics.js';
+import { Bitset } from '../utils/bitset.js';
+import type { Callbacks } from '../utils/callbacks.js';
+import type { ComponentType } from './component.js';
+import type { System } from './system.js';
+
+/**
+ * The maximum amount of component types in a world. Each type uses one bit in the entity masks.
+ */
+const MAX_COMPONENT_TYPES = 32;
+
+/**
+ * Events emitted by a world.
+ */
+export type WorldEvents = {
+  entityCreated: [entity: number];
+  entityDestroyed: [entity: number];
+  componentAdded: [entity: number, type: ComponentType<unknown>];
+  componentRemoved: [entity: number, type: ComponentType<unknown>];
+};
+
+/**
+ * An entity component system world. Entities are ids, components are stored per type and systems run on the
+ * entities that match their component query.
+ *
+ * Structural changes (creating and destroying entities, adding and removing components) made while a system is
+ * running are deferred until that system is done, so systems can safely change entities while iterating.
+ */
+export class World {
+  /**
+   * Entity and component events.
+   */
+  readonly events = new Emitter<WorldEvents>();
+
+  /**
+   * The amount of entities in the world.
+   */
+  get entityCount(): number {
+    return this.masks.size;
+  }
+
+  /**
+   * The component mask of every entity.
+   */
+  private masks = new Map<number, Bitset>();
+
+  /**
+   * The component values per component type, keyed by entity.
+   */
+  private stores = new Map<ComponentType<unknown>, Map<number, unknown>>();
+
+  /**
+   * The mask bit of every component type that has been used in this world.
+   */
+  private bits = new Map<ComponentType<unknown>, number>();
+
+  /**
+   * The systems sorted by order.
+   */
+  private systems: System[] = [];
+
+  /**
+   * The query bits of every system.
+   */
+  private systemBits = new Map<System, number[]>();
+
+  /**
+   * Structural changes waiting for the running system to finish.
+   */
+  private deferred: (() => void)[] = [];
+
+  /**
+   * True while a system is running.
+   */
+  private running = false;
+
+  private nextEntity = 1;
+
+  private callbacks: Callbacks;
+
+  /**
+   * Create a new world.
+   * @param callbacks - The callbacks to run the systems from.
+   */
+  constructor(callbacks: Callbacks) {
+    this.callbacks = callbacks;
+
+    this.callbacks.addUpdateCallback(this.update);
+    this.callbacks.addFixedUpdateCallback(this.fixedUpdate);
+    this.callbacks.addRenderCallback(this.render);
+  }
+
+  /**
+   * Create a new entity. While a system is running the entity is added after the system is done.
+   * @returns The entity id.
+   */
+  createEntity(): number {
+    const entity = this.nextEntity++;
+    this.change(() => {
+      this.masks.set(entity, new Bitset());
+      this.updateSystems(entity);
+      this.events.emit('entityCreated', entity);
+    });
+
+    return entity;
+  }
+
+  /**
+   * Destroy an entity and remove all its components.
+   * @param entity - The entity id.
+   */
+  destroyEntity(entity: number): void {
+    this.change(() => {
+      if (!this.masks.delete(entity)) {
+        return;
+      }
+
+      // Systems can still read the components when the entity gets removed from them.
+      this.updateSystems(entity);
+
+      for (const [type, store] of this.stores) {
+        if (store.delete(entity)) {
+          this.events.emit('componentRemoved', entity, type);
+        }
+      }
+
+      this.events.emit('entityDestroyed', entity);
+    });
+  }
+
+  /**
+   * Check if an entity exists.
+   * @param entity - The entity id.
+   * @returns True if the entity exists.
+   */
+  hasEntity(entity: number): boolean {
+    return this.masks.has(entity);
+  }
+
+  /**
+   * Add a component to an entity. An existing component of the same type gets replaced.
+   * Changes to entities that have been destroyed are ignored.
+   * @param entity - The entity id.
+   * @param type - The component type.
+   * @param value - The component value. Uses the default value of the type when not set.
+   */
+  addComponent<T>(entity: number, type: ComponentType<T>, value?: T): void {
+    const component = value ?? type.create?.();
+    if (component === undefined) {
+      throw new Error(`Component ${type.name} has no default value`);
+    }
+
+    this.change(() => {
+      const mask = this.masks.get(entity);
+      if (!mask) {
+        return;
+      }
+
+      const bit = this.getBit(type);
+      this.getStore(type).set(entity, component);
+      if (!mask.has(bit)) {
+        mask.add(bit);
+        this.updateSystems(entity);
+        this.events.emit('componentAdded', entity, type);
+      }
+    });
+  }
+
+  /**
+   * Remove a component from an entity.
+   * @param entity - The entity id.
+   * @param type - The component type.
+   */
+  removeComponent<T>(entity: number, type: ComponentType<T>): void {
+    this.change(() => {
+      const mask = this.masks.get(entity);
+      const bit = this.bits.get(type);
+      if (!mask || bit === undefined || !mask.has(bit)) {
+        return;
+      }
+
+      // Systems can still read the component when the entity gets removed from them.
+      mask.remove(bit);
+      this.updateSystems(entity);
+      this.getStore(type).delete(entity);
+      this.events.emit('componentRemoved', entity, type);
+    });
+  }
+
+  /**
+   * Get a component from an entity.
+   * @param entity - The entity id.
+   * @param type - The component type.
+   * @returns The component value or undefined if the entity doesn't have the component.
+   */
+  getComponent<T>(entity: number, type: ComponentType<T>): T | undefined {
+    return this.stores.get(type)?.get(entity) as T | undefined;
+  }
+
+  /**
+   * Check if an entity has a component.
+   * @param entity - The entity id.
+   * @param type - The component type.
+   * @returns True if the entity has the component.
+   */
+  hasComponent<T>(entity: number, type: ComponentType<T>): boolean {
+    return this.stores.get(type)?.has(entity) ?? false;
+  }
+
+  /**
+   * Get all entities that have all the component types.
+   * @param types - The component types.
+   * @returns The matching entity ids.
+   */
+  query(types: ComponentType<unknown>[]): number[] {
+    const bits = types.map((type) => this.getBit(type));
+    const result: number[] = [];
+    for (const [entity, mask] of this.masks) {
+      if (mask.hasAll(bits)) {
+        result.push(entity);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Add a system. The system gets all existing entities that match its query.
+   * @param system - The system to add.
+   */
+  addSystem(system: System): void {
+    if (system.world) {
+      throw new Error('The system is already added to a world');
+    }
+
+    system.world = this;
+    this.systemBits.set(
+      system,
+      system.components.map((type) => this.getBit(type)),
+    );
+
+    // Keep the insertion order for systems with the same order.
+    let index = this.systems.length;
+    while (index > 0 && this.systems[index - 1].order > system.order) {
+      index--;
+    }
+    this.systems.splice(index, 0, system);
+
+    system.added();
+    for (const entity of this.masks.keys()) {
+      this.updateSystem(system, entity);
+    }
+  }
+
+  /**
+   * Remove a system.
+   * @param system - The system to remove.
+   */
+  removeSystem(system: System): void {
+    const index = this.systems.indexOf(system);
+    if (index === -1) {
+      return;
+    }
+
+    this.systems.splice(index, 1);
+    this.systemBits.delete(system);
+    system.entities.clear();
+    system.removed();
+    system.world = undefined;
+  }
+
+  /**
+   * Destroy all entities.
+   */
+  clear(): void {
+    for (const entity of [...this.masks.keys()]) {
+      this.destroyEntity(entity);
+    }
+  }
+
+  /**
+   * Destroy all entities, remove all systems and unhook the world from the callbacks.
+   */
+  destroy(): void {
+    this.clear();
+    for (const system of [...this.systems]) {
+      this.removeSystem(system);
+    }
+    this.events.clear();
+
+    this.callbacks.removeUpdateCallback(this.update);
+    this.callbacks.removeFixedUpdateCallback(this.fixedUpdate);
+    this.callbacks.removeRenderCallback(this.render);
+  }
+
+  /**
+   * Apply a structural change now or after the running system is done.
+   * @param change - The change to apply.
+   */
+  private change(change: () => void): void {
+    if (this.running) {
+      this.deferred.push(change);
+    } else {
+      change();
+    }
+  }
+
+  /**
+   * Get the mask bit for a component type. Types get a bit the first time they are used.
+   * @param type - The component type.
+   * @returns The bit.
+   */
+  private getBit(type: ComponentType<unknown>): number {
+    let bit = this.bits.get(type);
+    if (bit === undefined) {
+      if (this.bits.size >= MAX_COMPONENT_TYPES) {
+        throw new Error(`A world supports up to ${MAX_COMPONENT_TYPES} component types`);
+      }
+      bit = 1 << this.bits.size;
+      this.bits.set(type, bit);
+    }
+
+    return bit;
+  }
+
+  /**
+   * Get the store for a component type.
+   * @param type - The component type.
+   * @returns The store.
+   */
+  private getStore(type: ComponentType<unknown>): Map<number, unknown> {
+    let store = this.stores.get(type);
+    if (!store) {
+      store = new Map();
+      this.stores.set(type, store);
+    }
+
+    return store;
+  }
+
+  /**
+   * Add or remove an entity from all systems after its mask changed.
+   * @param entity - The entity id.
+   */
+  private updateSystems(entity: number): void {
+    for (const system of this.systems) {
+      this.updateSystem(system, entity);
+    }
+  }
+
+  /**
+   * Add or remove an entity from a system based on the entity mask.
+   * @param system - The system.
+   * @param entity - The entity id.
+   */
+  private updateSystem(system: System, entity: number): void {
+    const mask = this.masks.get(entity);
+    const bits = this.systemBits.get(system);
+    const matches = mask !== undefined && bits !== undefined && mask.hasAll(bits);
+
+    if (matches && !system.entities.has(entity)) {
+      system.entities.add(entity);
+      system.entityAdded(entity);
+    } else if (!matches && system.entities.has(entity)) {
+      system.entityRemoved(entity);
+      system.entities.delete(entity);
+    }
+  }
+
+  /**
+   * Run a function for every system in order and apply the deferred changes after each system.
+   * @param run - The function to run.
+   */
+  private runSystems(run: (system: System) => void): void {
+    for (const system of [...this.systems]) {
+      if (system.world !== this) {
+        continue;
+      }
+
+      this.running = true;
+      try {
+        run(system);
+      } finally {
+        this.running = false;
+      }
+      this.flush();
+    }
+  }
+
+  /**
+   * Apply all deferred structural changes.
+   */
+  private flush(): void {
+    const deferred = this.deferred;
+    this.deferred = [];
+    for (const change of deferred) {
+      change();
+    }
+  }
+
+  private update = (deltaTime: number): void => {
+    this.runSystems((system) => system.update(deltaTime));
+  };
+
+  private fixedUpdate = (deltaTime: number): void => {
+    this.runSystems((system) => system.fixedUpdate(deltaTime));
+  };
+
+  private render = (graphics: Graphics, alpha: number): void => {
+    this.runSystems((system) => system.render(graphics, alpha));
+  };
+}
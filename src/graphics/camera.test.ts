@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { addService, clearServices } from '../di/services.js';
+import { Random } from '../math/random.js';
+import { Rectangle } from '../math/rectangle.js';
+import { Vec2 } from '../math/vec2.js';
+import { Camera } from './camera.js';
+import type { Graphics } from './graphics.js';
+import type { RenderTarget } from './renderTarget.js';
+
+/**
+ * Create a graphics object that logs the calls the camera makes.
+ */
+function createGraphics(log: string[]): Graphics {
+  return {
+    color: { set: (): void => {} },
+    transform: { identity: (): void => {} },
+    start: (clear: boolean, _color: unknown, viewport?: Rectangle): void => {
+      log.push(`start:${clear}:${viewport ? `${viewport.x},${viewport.y}` : 'full'}`);
+    },
+    pushTarget: (): void => {
+      log.push('pushTarget');
+    },
+    popTarget: (): void => {
+      log.push('popTarget');
+    },
+    pushTransform: (): void => {},
+    applyTransform: (): void => {},
+    popTransform: (): void => {},
+    commit: (): void => {},
+    drawRenderTarget: (): void => {
+      log.push('drawRenderTarget');
+    },
+  } as unknown as Graphics;
+}
+
+describe('Camera', () => {
+  beforeAll(() => {
+    addService('random', new Random(1));
+  });
+
+  afterAll(() => {
+    clearServices();
+  });
+
+  it('should show the camera position at the center of the view', () => {
+    const camera = new Camera(800, 600);
+    camera.lookAt(1000, 500);
+
+    const screen = camera.worldToScreen(1000, 500);
+    expect(screen.x).toBeCloseTo(400);
+    expect(screen.y).toBeCloseTo(300);
+
+    const world = camera.screenToWorld(0, 0);
+    expect(world.x).toBeCloseTo(600);
+    expect(world.y).toBeCloseTo(200);
+  });
+
+  it('should convert between screen and world with zoom and rotation', () => {
+    const camera = new Camera(800, 600);
+    camera.lookAt(100, 100);
+    camera.zoom = 2;
+    camera.rotation = Math.PI / 2;
+
+    // One world unit right of the camera is two pixels up on the screen.
+    const screen = camera.worldToScreen(101, 100);
+    expect(screen.x).toBeCloseTo(400);
+    expect(screen.y).toBeCloseTo(298);
+
+    const world = camera.screenToWorld(screen.x, screen.y);
+    expect(world.x).toBeCloseTo(101);
+    expect(world.y).toBeCloseTo(100);
+  });
+
+  it('should zoom around a screen position', () => {
+    const camera = new Camera(800, 600);
+    const before = camera.screenToWorld(100, 50);
+
+    camera.zoomAt(3, 100, 50);
+
+    const after = camera.screenToWorld(100, 50);
+    expect(camera.zoom).toBe(3);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  it('should follow a target', () => {
+    const camera = new Camera(800, 600);
+    camera.lookAt(0, 0);
+    camera.target = new Vec2(100, 50);
+
+    camera.update(0.016);
+    expect(camera.position.x).toBeCloseTo(100);
+    expect(camera.position.y).toBeCloseTo(50);
+
+    camera.followSpeed = 5;
+    camera.target.set(200, 50);
+    camera.update(0.1);
+    expect(camera.position.x).toBeGreaterThan(100);
+    expect(camera.position.x).toBeLessThan(200);
+  });
+
+  it('should not move while the target is inside the deadzone', () => {
+    const camera = new Camera(800, 600);
+    camera.lookAt(0, 0);
+    camera.deadzoneWidth = 100;
+    camera.deadzoneHeight = 100;
+    camera.target = new Vec2(40, -40);
+
+    camera.update(0.016);
+    expect(camera.position.x).toBe(0);
+    expect(camera.position.y).toBe(0);
+
+    camera.target.set(80, 0);
+    camera.update(0.016);
+    expect(camera.position.x).toBeCloseTo(30);
+    expect(camera.position.y).toBe(0);
+  });
+
+  it('should keep the view inside the bounds', () => {
+    const camera = new Camera(800, 600);
+    camera.bounds = new Rectangle(0, 0, 2000, 400);
+
+    camera.lookAt(-500, 100);
+    expect(camera.position.x).toBeCloseTo(400);
+
+    // The bounds are smaller than the view height, so the view is centered.
+    expect(camera.position.y).toBeCloseTo(200);
+
+    camera.zoom = 2;
+    camera.lookAt(1900, 0);
+    expect(camera.position.x).toBeCloseTo(1800);
+    expect(camera.position.y).toBeCloseTo(150);
+  });
+
+  it('should shake and settle', () => {
+    const camera = new Camera(800, 600);
+    camera.lookAt(0, 0);
+
+    camera.shake(10, 0.5);
+    camera.update(0.1);
+    expect(camera.shaking).toBe(true);
+    expect(camera.worldToScreen(0, 0).equals(new Vec2(400, 300))).toBe(false);
+
+    camera.update(0.5);
+    expect(camera.shaking).toBe(false);
+    const screen = camera.worldToScreen(0, 0);
+    expect(screen.x).toBeCloseTo(400);
+    expect(screen.y).toBeCloseTo(300);
+  });
+
+  it('should render into a viewport', () => {
+    const log: string[] = [];
+    const camera = new Camera(400, 600);
+    camera.viewport = new Rectangle(400, 0, 400, 600);
+
+    camera.render(createGraphics(log), () => log.push('draw'));
+
+    expect(log).toEqual(['start:true:400,0', 'draw', 'start:false:full']);
+  });
+
+  it('should render through a render target', () => {
+    const log: string[] = [];
+    const camera = new Camera(400, 600);
+    camera.viewport = new Rectangle(0, 0, 400, 600);
+    camera.renderTarget = {} as RenderTarget;
+    camera.clear = false;
+
+    camera.render(createGraphics(log), () => log.push('draw'));
+
+    expect(log).toEqual([
+      'pushTarget',
+      'start:false:full',
+      'draw',
+      'popTarget',
+      'start:false:0,0',
+      'drawRenderTarget',
+      'start:false:full',
+    ]);
+  });
+});
@@ -0,0 +1,370 @@
+import { inject } from '../di/inject.js';
+import { Mat4 } from '../math/mat4.js';
+import { clamp } from '../math/mathUtils.js';
+import type { Random } from '../math/random.js';
+import type { Rectangle } from '../math/rectangle.js';
+import { Vec2 } from '../math/vec2.js';
+import type { Color } from './color.js';
+import type { Graphics } from './graphics.js';
+import type { RenderTarget } from './renderTarget.js';
+
+/**
+ * A 2D camera. The camera position is the world position shown at the center of the view.
+ * Screen positions are in the same pixel space as the view size.
+ */
+export class Camera {
+  /**
+   * The world position at the center of the view.
+   */
+  readonly position = new Vec2();
+
+  /**
+   * The zoom factor. 2 shows everything twice as big.
+   */
+  zoom = 1;
+
+  /**
+   * The rotation in radians.
+   */
+  rotation = 0;
+
+  /**
+   * The view width in pixels.
+   */
+  viewWidth: number;
+
+  /**
+   * The view height in pixels.
+   */
+  viewHeight: number;
+
+  /**
+   * The world position to follow. Set to undefined to stop following.
+   */
+  target?: Vec2;
+
+  /**
+   * How fast the camera moves to the target. Higher is faster. 0 moves to the target right away.
+   */
+  followSpeed = 0;
+
+  /**
+   * The width in world units of the area around the camera position where the target can move without moving
+   * the camera.
+   */
+  deadzoneWidth = 0;
+
+  /**
+   * The height in world units of the deadzone.
+   */
+  deadzoneHeight = 0;
+
+  /**
+   * Optional world area the view should stay inside.
+   */
+  bounds?: Rectangle;
+
+  /**
+   * Optional area of the canvas to render the camera in, in pixels from the top left. Use this for split screen.
+   * Renders to the full canvas when not set. The view size should match the viewport size.
+   */
+  viewport?: Rectangle;
+
+  /**
+   * Should the viewport be cleared before rendering the camera.
+   */
+  clear = true;
+
+  /**
+   * Optional color to clear the viewport with. Uses the graphics clear color when not set.
+   */
+  clearColor?: Color;
+
+  /**
+   * Optional render target to render the camera into first. The target gets drawn into the viewport after, so it
+   * can be used for post processing. The target size should match the view size.
+   */
+  renderTarget?: RenderTarget;
+
+  /**
+   * The world to screen transform.
+   */
+  get viewMatrix(): Mat4 {
+    const centerX = this.position.x + this.shakeOffset.x;
+    const centerY = this.position.y + this.shakeOffset.y;
+
+    const matrix = Mat4.from2dRotationTranslationScale({
+      rotation: -this.rotation,
+      x: this.viewWidth * 0.5,
+      y: this.viewHeight * 0.5,
+      scaleX: this.zoom,
+      scaleY: this.zoom,
+      out: this._viewMatrix,
+    });
+
+    // Move the camera position to the origin before rotating and zooming.
+    matrix.value[12] -= matrix.value[0] * centerX + matrix.value[4] * centerY;
+    matrix.value[13] -= matrix.value[1] * centerX + matrix.value[5] * centerY;
+
+    return matrix;
+  }
+
+  /**
+   * Is the camera shaking.
+   */
+  get shaking(): boolean {
+    return this.shakeTime > 0;
+  }
+
+  private readonly _viewMatrix = new Mat4();
+
+  private readonly inverseMatrix = new Mat4();
+
+  private readonly shakeOffset = new Vec2();
+
+  private readonly targetPosition = new Vec2();
+
+  private shakeIntensity = 0;
+
+  private shakeDuration = 0;
+
+  private shakeTime = 0;
+
+  @inject()
+  private random!: Random;
+
+  /**
+   * Create a new camera.
+   * @param viewWidth - The view width in pixels.
+   * @param viewHeight - The view height in pixels.
+   */
+  constructor(viewWidth: number, viewHeight: number) {
+    this.viewWidth = viewWidth;
+    this.viewHeight = viewHeight;
+    this.position.set(viewWidth * 0.5, viewHeight * 0.5);
+  }
+
+  /**
+   * Update the follow, bounds and shake.
+   * @param deltaTime - The time passed since the last update in seconds.
+   */
+  update(deltaTime: number): void {
+    if (this.target) {
+      this.follow(this.target, deltaTime);
+    }
+    this.clampToBounds();
+    this.updateShake(deltaTime);
+  }
+
+  /**
+   * Move the camera so the position is at the center of the view.
+   * @param x - The world x position.
+   * @param y - The world y position.
+   */
+  lookAt(x: number, y: number): void {
+    this.position.set(x, y);
+    this.clampToBounds();
+  }
+
+  /**
+   * Change the zoom and keep the world position under a screen position in place.
+   * @param zoom - The new zoom factor.
+   * @param screenX - The screen x position to zoom around.
+   * @param screenY - The screen y position to zoom around.
+   */
+  zoomAt(zoom: number, screenX: number, screenY: number): void {
+    const before = this.screenToWorld(screenX, screenY, Vec2.get());
+    this.zoom = zoom;
+    const after = this.screenToWorld(screenX, screenY, Vec2.get());
+
+    this.position.x += before.x - after.x;
+    this.position.y += before.y - after.y;
+    this.clampToBounds();
+
+    before.put();
+    after.put();
+  }
+
+  /**
+   * Shake the camera. A new shake replaces the current shake.
+   * @param intensity - The maximum offset in world units.
+   * @param duration - The duration in seconds. The shake gets weaker over time.
+   */
+  shake(intensity: number, duration: number): void {
+    this.shakeIntensity = intensity;
+    this.shakeDuration = duration;
+    this.shakeTime = duration;
+  }
+
+  /**
+   * Stop the current shake.
+   */
+  stopShake(): void {
+    this.shakeTime = 0;
+    this.shakeOffset.set(0, 0);
+  }
+
+  /**
+   * Convert a screen position to a world position.
+   * @param x - The screen x position.
+   * @param y - The screen y position.
+   * @param out - Optional vector to store the result.
+   * @returns The world position.
+   */
+  screenToWorld(x: number, y: number, out?: Vec2): Vec2 {
+    const result = out ?? new Vec2();
+    const inverse = this.viewMatrix.invert(this.inverseMatrix);
+    if (!inverse) {
+      result.set(x, y);
+      return result;
+    }
+
+    return this.transformPoint(inverse, x, y, result);
+  }
+
+  /**
+   * Convert a world position to a screen position.
+   * @param x - The world x position.
+   * @param y - The world y position.
+   * @param out - Optional vector to store the result.
+   * @returns The screen position.
+   */
+  worldToScreen(x: number, y: number, out?: Vec2): Vec2 {
+    return this.transformPoint(this.viewMatrix, x, y, out ?? new Vec2());
+  }
+
+  /**
+   * Push the view transform on the graphics transform stack. Call `end` when done drawing.
+   * @param graphics - The graphics to draw with.
+   */
+  begin(graphics: Graphics): void {
+    graphics.pushTransform();
+    graphics.applyTransform(this.viewMatrix);
+  }
+
+  /**
+   * Pop the view transform from the graphics transform stack.
+   * @param graphics - The graphics to draw with.
+   */
+  end(graphics: Graphics): void {
+    graphics.popTransform();
+  }
+
+  /**
+   * Render the world through this camera into its viewport. The graphics get started for the full canvas again
+   * after, so screen space drawing can continue after the cameras are rendered.
+   * @param graphics - The graphics to draw with.
+   * @param draw - Draws the world. The camera transform is applied when this is called.
+   */
+  render(graphics: Graphics, draw: (graphics: Graphics) => void): void {
+    if (this.renderTarget) {
+      graphics.pushTarget(this.renderTarget);
+      graphics.start(this.clear, this.clearColor);
+      this.begin(graphics);
+      draw(graphics);
+      this.end(graphics);
+      graphics.commit();
+      graphics.popTarget();
+
+      // The target already has the clear color, so the viewport doesn't need to be cleared.
+      graphics.start(false, undefined, this.viewport);
+      graphics.pushTransform();
+      graphics.transform.identity();
+      graphics.color.set(1, 1, 1, 1);
+      graphics.drawRenderTarget(this.targetPosition, this.renderTarget);
+      graphics.commit();
+      graphics.popTransform();
+    } else {
+      graphics.start(this.clear, this.clearColor, this.viewport);
+      this.begin(graphics);
+      draw(graphics);
+      this.end(graphics);
+      graphics.commit();
+    }
+
+    if (this.viewport) {
+      graphics.start(false);
+    }
+  }
+
+  /**
+   * Move towards a position, keeping the position inside the deadzone.
+   * @param target - The position to follow.
+   * @param deltaTime - The time passed since the last update in seconds.
+   */
+  private follow(target: Vec2, deltaTime: number): void {
+    const halfWidth = this.deadzoneWidth * 0.5;
+    const halfHeight = this.deadzoneHeight * 0.5;
+    const goalX = clamp(this.position.x, target.x - halfWidth, target.x + halfWidth);
+    const goalY = clamp(this.position.y, target.y - halfHeight, target.y + halfHeight);
+
+    if (this.followSpeed <= 0) {
+      this.position.set(goalX, goalY);
+      return;
+    }
+
+    // Exponential smoothing so the movement does not depend on the frame rate.
+    const amount = 1 - Math.exp(-this.followSpeed * deltaTime);
+    this.position.x += (goalX - this.position.x) * amount;
+    this.position.y += (goalY - this.position.y) * amount;
+  }
+
+  /**
+   * Keep the view inside the bounds. If the bounds are smaller than the view, the view is centered on the bounds.
+   */
+  private clampToBounds(): void {
+    if (!this.bounds) {
+      return;
+    }
+
+    // The size of the rotated view in world units.
+    const cos = Math.abs(Math.cos(this.rotation));
+    const sin = Math.abs(Math.sin(this.rotation));
+    const halfWidth = (this.viewWidth * cos + this.viewHeight * sin) / (2 * this.zoom);
+    const halfHeight = (this.viewWidth * sin + this.viewHeight * cos) / (2 * this.zoom);
+
+    const bounds = this.bounds;
+    if (bounds.width <= halfWidth * 2) {
+      this.position.x = bounds.x + bounds.width * 0.5;
+    } else {
+      this.position.x = clamp(this.position.x, bounds.x + halfWidth, bounds.x + bounds.width - halfWidth);
+    }
+
+    if (bounds.height <= halfHeight * 2) {
+      this.position.y = bounds.y + bounds.height * 0.5;
+    } else {
+      this.position.y = clamp(this.position.y, bounds.y + halfHeight, bounds.y + bounds.height - halfHeight);
+    }
+  }
+
+  /**
+   * Update the shake offset.
+   * @param deltaTime - The time passed since the last update in seconds.
+   */
+  private updateShake(deltaTime: number): void {
+    if (this.shakeTime <= 0) {
+      return;
+    }
+
+    this.shakeTime = Math.max(this.shakeTime - deltaTime, 0);
+    const strength = this.shakeDuration > 0 ? this.shakeIntensity * (this.shakeTime / this.shakeDuration) : 0;
+    this.shakeOffset.set(this.random.float(-1, 1) * strength, this.random.float(-1, 1) * strength);
+  }
+
+  /**
+   * Transform a 2D point with a matrix.
+   * @param matrix - The matrix.
+   * @param x - The x position.
+   * @param y - The y position.
+   * @param out - The vector to store the result.
+   * @returns The transformed point.
+   */
+  private transformPoint(matrix: Mat4, x: number, y: number, out: Vec2): Vec2 {
+    out.set(
+      matrix.value[0] * x + matrix.value[4] * y + matrix.value[12],
+      matrix.value[1] * x + matrix.value[5] * y + matrix.value[13],
+    );
+
+    return out;
+  }
+}
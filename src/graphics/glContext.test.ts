@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Core } from '../core.js';
+import { addService, clearServices, getService } from '../di/services.js';
+import { HeadlessCanvas } from '../headless/headlessCanvas.js';
+import { createHeadlessOptions } from '../headless/headlessOptions.js';
+import type { Callbacks } from '../utils/callbacks.js';
+import { GLContext } from './glContext.js';
+import { Image } from './image.js';
+import { RenderTarget } from './renderTarget.js';
+import { Shader } from './shader.js';
+
+/**
+ * Dispatch a context event like the browser does.
+ */
+function dispatch(canvas: HeadlessCanvas, type: string): Event {
+  const event = new Event(type, { cancelable: true });
+  canvas.dispatchEvent(event);
+
+  return event;
+}
+
+describe('GLContext', () => {
+  let canvas: HeadlessCanvas;
+  let context: GLContext;
+
+  beforeEach(() => {
+    canvas = new HeadlessCanvas(16, 16);
+    context = new GLContext(canvas.asElement());
+    addService('glContext', context);
+  });
+
+  afterEach(() => {
+    clearServices();
+  });
+
+  it('should emit lost and allow the context to be restored', () => {
+    const lost = vi.fn();
+    context.events.on({ event: 'lost', callback: lost });
+
+    const event = dispatch(canvas, 'webglcontextlost');
+
+    expect(lost).toHaveBeenCalledOnce();
+    expect(event.defaultPrevented).toBe(true);
+    expect(context.isLost).toBe(true);
+  });
+
+  it('should recreate resources before emitting restored', () => {
+    const image = new Image(1, 1, new Uint8ClampedArray(4));
+    const target = new RenderTarget(4, 4);
+    const oldTexture = image.texture;
+    const oldBuffer = target.buffer;
+
+    let restoredTexture: WebGLTexture | undefined;
+    context.events.on({ event: 'restored', callback: () => (restoredTexture = image.texture) });
+
+    dispatch(canvas, 'webglcontextlost');
+    dispatch(canvas, 'webglcontextrestored');
+
+    expect(context.isLost).toBe(false);
+    expect(context.restoreCount).toBe(1);
+    expect(image.texture).not.toBe(oldTexture);
+    expect(restoredTexture).toBe(image.texture);
+    expect(target.buffer).not.toBe(oldBuffer);
+  });
+
+  it('should look up the default uniforms again for restored shaders', () => {
+    const shader = new Shader('image', 'source');
+    const oldProjection = shader.uniforms.u_projectionMatrix;
+
+    dispatch(canvas, 'webglcontextlost');
+    dispatch(canvas, 'webglcontextrestored');
+
+    expect(shader.uniforms.u_projectionMatrix).not.toBe(oldProjection);
+    expect(shader.uniforms.u_texture).toBeDefined();
+  });
+
+  it('should cache uniform locations until the shader is restored', () => {
+    const shader = new Shader('image', 'source');
+    const location = shader.getUniformLocation('u_texture');
+
+    expect(shader.getUniformLocation('u_texture')).toBe(location);
+
+    dispatch(canvas, 'webglcontextlost');
+    dispatch(canvas, 'webglcontextrestored');
+
+    expect(shader.getUniformLocation('u_texture')).not.toBe(location);
+  });
+
+  it('should not restore destroyed resources', () => {
+    const image = new Image(1, 1, new Uint8ClampedArray(4));
+    image.destroy();
+    const texture = image.texture;
+
+    dispatch(canvas, 'webglcontextlost');
+    dispatch(canvas, 'webglcontextrestored');
+
+    expect(image.texture).toBe(texture);
+  });
+});
+
+describe('Core context loss', () => {
+  afterEach(() => {
+    clearServices();
+  });
+
+  it('should pause and stop rendering while the context is lost', () => {
+    const core = new Core({ width: 16, height: 16, headless: createHeadlessOptions() });
+    const canvas = core.canvas as unknown as HeadlessCanvas;
+    const callbacks = getService('callbacks') as Callbacks;
+    const update = vi.fn();
+    const render = vi.fn();
+    callbacks.addUpdateCallback(update);
+    callbacks.addRenderCallback(render);
+
+    dispatch(canvas, 'webglcontextlost');
+    core.tick(1 / 60);
+
+    expect(core.paused).toBe(true);
+    expect(update).not.toHaveBeenCalled();
+    expect(render).not.toHaveBeenCalled();
+
+    dispatch(canvas, 'webglcontextrestored');
+    core.tick(1 / 60);
+
+    expect(core.paused).toBe(false);
+    expect(update).toHaveBeenCalledOnce();
+    expect(render).toHaveBeenCalledOnce();
+  });
+
+  it('should stay paused after a restore when it was paused before', () => {
+    const core = new Core({ width: 16, height: 16, headless: createHeadlessOptions() });
+    const canvas = core.canvas as unknown as HeadlessCanvas;
+    core.paused = true;
+
+    dispatch(canvas, 'webglcontextlost');
+    dispatch(canvas, 'webglcontextrestored');
+
+    expect(core.paused).toBe(true);
+  });
+});
@@ -1,5 +1,31 @@
+import { Emitter } from '../emitter/emitter.js';
 import type { BlendMode, BlendOperation, MipmapFilter, TextureFilter, TextureWrap } from './types.js';
 
+/**
+ * The events emitted by the context.
+ */
+export type GLContextEvents = {
+  /**
+   * The browser dropped the context. All WebGL objects are invalid until the context is restored.
+   */
+  lost: [];
+
+  /**
+   * The context is back and the registered resources have been recreated. Recreate other WebGL objects here.
+   */
+  restored: [];
+};
+
+/**
+ * An object that owns WebGL objects and can recreate them from data it keeps on the CPU.
+ */
+export type GLResource = {
+  /**
+   * Recreate the WebGL objects after the context was restored.
+   */
+  restore(): void;
+};
+
 /**
  * Tagged template literal for GLSL code for syntax highlighting.
  * @param source - The source literal.
@@ -23,45 +49,85 @@ export class GLContext {
    */
   gl: WebGL2RenderingContext;
 
+  /**
+   * Emits when the context is lost and when it is restored.
+   */
+  readonly events = new Emitter<GLContextEvents>();
+
+  /**
+   * Is the context lost. Nothing can be drawn until it is restored.
+   */
+  get isLost(): boolean {
+    return this.lost;
+  }
+
+  /**
+   * The amount of times the context has been restored. WebGL objects created before the last restore are invalid.
+   */
+  get restoreCount(): number {
+    return this.restores;
+  }
+
+  private lost = false;
+
+  private restores = 0;
+
+  /**
+   * The resources to recreate when the context is restored.
+   */
+  private readonly resources = new Set<GLResource>();
+
   /**
    * Create a new WebGL context.
-   * @param canvasId - The id of the canvas element to get the context from.
+   * @param source - The canvas element to get the context from or an existing context to wrap.
    */
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(source: HTMLCanvasElement | WebGL2RenderingContext) {
     let isGL1 = false;
 
-    const attributes: WebGLContextAttributes = {
-      alpha: false,
-      antialias: true,
-    };
+    if ('getContext' in source) {
+      const attributes: WebGLContextAttributes = {
+        alpha: false,
+        antialias: true,
+      };
 
-    let context = canvas.getContext('webgl2', attributes);
+      let context = source.getContext('webgl2', attributes);
 
-    if (!context) {
-      context = canvas.getContext('webgl', attributes) as WebGL2RenderingContext;
       if (!context) {
-        throw new Error('Unable to initialize WebGL context.');
+        context = source.getContext('webgl', attributes) as WebGL2RenderingContext;
+        if (!context) {
+          throw new Error('Unable to initialize WebGL context.');
+        }
+        isGL1 = true;
       }
-      isGL1 = true;
-    }
-
-    this.gl = context;
-
-    this.gl.pixelStorei(this.gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, 1);
-    this.gl.getExtension('OES_texture_float_linear');
-    this.gl.getExtension('OES_texture_half_float_linear');
 
-    if (isGL1) {
-      this.gl.getExtension('OES_texture_float');
-      this.gl.getExtension('EXT_shader_texture_lod');
-      this.gl.getExtension('OES_standard_derivatives');
+      this.gl = context;
     } else {
-      this.gl.getExtension('EXT_color_buffer_float');
+      // WebGL1 contexts don't have vertex array objects.
+      isGL1 = typeof source.createVertexArray !== 'function';
+      this.gl = source;
     }
 
-    this.gl.enable(this.gl.BLEND);
-    this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA);
     this.isGL1 = isGL1;
+    this.setup();
+
+    this.gl.canvas.addEventListener('webglcontextlost', this.onContextLost);
+    this.gl.canvas.addEventListener('webglcontextrestored', this.onContextRestored);
+  }
+
+  /**
+   * Register a resource to recreate when the context is restored.
+   * @param resource - The resource to add.
+   */
+  addResource(resource: GLResource): void {
+    this.resources.add(resource);
+  }
+
+  /**
+   * Stop recreating a resource. Call this when the resource is destroyed.
+   * @param resource - The resource to remove.
+   */
+  removeResource(resource: GLResource): void {
+    this.resources.delete(resource);
   }
 
   /**
@@ -189,4 +255,43 @@ export class GLContext {
         }
     }
   }
+
+  /**
+   * Set the pixel storage, extensions and blending the renderers expect. A restored context starts with defaults.
+   */
+  private setup(): void {
+    this.gl.pixelStorei(this.gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, 1);
+    this.gl.getExtension('OES_texture_float_linear');
+    this.gl.getExtension('OES_texture_half_float_linear');
+
+    if (this.isGL1) {
+      this.gl.getExtension('OES_texture_float');
+      this.gl.getExtension('EXT_shader_texture_lod');
+      this.gl.getExtension('OES_standard_derivatives');
+    } else {
+      this.gl.getExtension('EXT_color_buffer_float');
+    }
+
+    this.gl.enable(this.gl.BLEND);
+    this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  private onContextLost = (event: Event): void => {
+    // The browser only restores the context when the default is prevented.
+    event.preventDefault();
+    this.lost = true;
+    this.events.emit('lost');
+  };
+
+  private onContextRestored = (): void => {
+    this.lost = false;
+    this.restores++;
+    this.setup();
+
+    // Copy the resources because restoring can create new ones.
+    for (const resource of [...this.resources]) {
+      resource.restore();
+    }
+    this.events.emit('restored');
+  };
 }
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { addService, clearServices } from '../di/services.js';
+import { GLRecorder } from '../headless/glRecorder.js';
+import { HeadlessCanvas } from '../headless/headlessCanvas.js';
+import { getImageVertices, getShapeVertices } from '../headless/vertexSnapshots.js';
+import { Rectangle } from '../math/rectangle.js';
+import { Vec2 } from '../math/vec2.js';
+import { GLContext } from './glContext.js';
+import { Graphics } from './graphics.js';
+import { Image } from './image.js';
+
+describe('Graphics', () => {
+  let recorder: GLRecorder;
+  let graphics: Graphics;
+
+  beforeEach(() => {
+    recorder = new GLRecorder(100, 50);
+    const context = new GLContext(recorder.gl);
+    addService('glContext', context);
+    graphics = new Graphics(context, new HeadlessCanvas(100, 50).asElement());
+    recorder.reset();
+  });
+
+  afterEach(() => {
+    clearServices();
+  });
+
+  it('should draw a filled rect as two triangles', () => {
+    graphics.start();
+    graphics.color.set(1, 0, 0, 1);
+    graphics.drawFilledRect(new Rectangle(10, 20, 30, 40));
+    graphics.commit();
+
+    expect(recorder.draws).toHaveLength(1);
+    const draw = recorder.draws[0];
+    expect(draw.mode).toBe('TRIANGLES');
+    expect(draw.count).toBe(6);
+    expect(getShapeVertices(draw)).toEqual([
+      { x: 10, y: 20, z: 0, color: [1, 0, 0, 1] },
+      { x: 40, y: 20, z: 0, color: [1, 0, 0, 1] },
+      { x: 10, y: 60, z: 0, color: [1, 0, 0, 1] },
+      { x: 10, y: 60, z: 0, color: [1, 0, 0, 1] },
+      { x: 40, y: 20, z: 0, color: [1, 0, 0, 1] },
+      { x: 40, y: 60, z: 0, color: [1, 0, 0, 1] },
+    ]);
+  });
+
+  it('should batch shapes into a single draw call', () => {
+    graphics.start();
+    graphics.drawFilledRect(new Rectangle(0, 0, 10, 10));
+    graphics.drawFilledRect(new Rectangle(20, 0, 10, 10));
+    graphics.drawFilledTriangle(new Vec2(0, 0), new Vec2(5, 5), new Vec2(0, 5));
+    graphics.commit();
+
+    expect(recorder.draws).toHaveLength(1);
+    expect(recorder.draws[0].count).toBe(15);
+    expect(recorder.draws[0].vertices).toHaveLength(15);
+  });
+
+  it('should start a new batch when switching between shapes and images', () => {
+    const image = new Image(2, 2, new Uint8ClampedArray(16));
+
+    graphics.start();
+    graphics.drawFilledRect(new Rectangle(0, 0, 10, 10));
+    graphics.drawImage(image, new Vec2(0, 0), 'none');
+    graphics.drawFilledRect(new Rectangle(0, 0, 10, 10));
+    graphics.commit();
+
+    expect(recorder.draws.map((draw) => draw.stride)).toEqual([7, 9, 7]);
+  });
+
+  it('should record the image quad with texture coordinates', () => {
+    const image = new Image(4, 2, new Uint8ClampedArray(32));
+
+    graphics.start();
+    graphics.drawImage(image, new Vec2(5, 5), 'none');
+    graphics.commit();
+
+    expect(recorder.draws).toHaveLength(1);
+    const draw = recorder.draws[0];
+    expect(draw.count).toBe(6);
+    expect(draw.texture).toBe(recorder.getId(image.texture));
+    expect(draw.uniforms.u_texture).toBe(0);
+    expect(getImageVertices(draw).map(({ x, y, u, v }) => ({ x, y, u, v }))).toEqual([
+      { x: 5, y: 5, u: 0, v: 0 },
+      { x: 9, y: 5, u: 1, v: 0 },
+      { x: 9, y: 7, u: 1, v: 1 },
+      { x: 5, y: 7, u: 0, v: 1 },
+    ]);
+  });
+
+  it('should record the projection and blend state', () => {
+    graphics.start();
+    graphics.drawFilledRect(new Rectangle(0, 0, 10, 10));
+    graphics.commit();
+
+    const draw = recorder.draws[0];
+    expect(draw.viewport).toEqual([0, 0, 100, 50]);
+    expect(draw.scissor).toBeUndefined();
+    expect(draw.blend.enabled).toBe(true);
+    expect(draw.uniforms.u_projectionMatrix).toHaveLength(16);
+    expect(recorder.uploads.some((upload) => upload.target === 'ARRAY_BUFFER')).toBe(true);
+  });
+
+  it('should record the scissor rectangle for a viewport', () => {
+    graphics.start(true, undefined, new Rectangle(10, 10, 20, 20));
+    graphics.drawFilledRect(new Rectangle(0, 0, 10, 10));
+    graphics.commit();
+
+    expect(recorder.draws[0].viewport).toEqual([10, 20, 20, 20]);
+    expect(recorder.draws[0].scissor).toEqual([10, 20, 20, 20]);
+  });
+});
@@ -19,10 +19,40 @@ export class Graphics {
 
   transformStack: Mat4[] = [];
 
+  /**
+   * The canvas drawing buffer pixels per drawing unit. Core sets this to the pixel ratio with `hdpi`, so drawing on
+   * the canvas uses CSS pixels like input does. Render targets always use their own pixels.
+   */
+  pixelRatio = 1;
+
   get transform(): Mat4 {
     return this.transformStack[this.transformStack.length - 1];
   }
 
+  /**
+   * The width in pixels of the current render target or the canvas if no target is set. The canvas width is in
+   * drawing units, see `pixelRatio`.
+   */
+  get width(): number {
+    if (this.targetStack.length > 0) {
+      return this.targetStack[this.targetStack.length - 1].width;
+    }
+
+    return Math.round(this.canvas.width / this.pixelRatio);
+  }
+
+  /**
+   * The height in pixels of the current render target or the canvas if no target is set. The canvas height is in
+   * drawing units, see `pixelRatio`.
+   */
+  get height(): number {
+    if (this.targetStack.length > 0) {
+      return this.targetStack[this.targetStack.length - 1].height;
+    }
+
+    return Math.round(this.canvas.height / this.pixelRatio);
+  }
+
   private shapeRenderer: ShapeRenderer;
 
   private imageRenderer: ImageRenderer;
@@ -37,8 +67,6 @@ export class Graphics {
 
   private canvas: HTMLCanvasElement;
 
-  private pixelRatio: number;
-
   private orthoProjection: OrthoParams = {
     left: 0,
     right: 0,
@@ -48,10 +76,9 @@ export class Graphics {
     far: 1,
   };
 
-  constructor(context: GLContext, canvas: HTMLCanvasElement, pixelRatio: number) {
+  constructor(context: GLContext, canvas: HTMLCanvasElement) {
     this.context = context;
     this.canvas = canvas;
-    this.pixelRatio = pixelRatio;
 
     this.projection = new Mat4();
     this.transformStack.push(new Mat4());
@@ -111,26 +138,50 @@ export class Graphics {
     this.transformStack.pop()?.put();
   }
 
-  start(clear: boolean = true, newClearColor?: Color): void {
+  /**
+   * Start a new frame on the current render target or the canvas.
+   * @param clear - Should the screen or viewport be cleared.
+   * @param newClearColor - Optional color to clear with. Uses the default clear color if not set.
+   * @param viewport - Optional area to draw in, in pixels from the top left. Drawing is clipped to the area and
+   * position 0, 0 is the top left of the area. Uses the full target or canvas if not set.
+   */
+  start(clear: boolean = true, newClearColor?: Color, viewport?: Rectangle): void {
     const gl = this.context.gl;
     let width = 0;
     let height = 0;
+    let ratio = 1;
 
     if (this.targetStack.length > 0) {
       const target = this.targetStack[this.targetStack.length - 1];
       width = target.width;
       height = target.height;
     } else {
-      width = this.canvas.width * this.pixelRatio;
-      height = this.canvas.height * this.pixelRatio;
+      // The canvas size is the drawing buffer size. Drawing and viewports are in drawing units.
+      width = this.canvas.width;
+      height = this.canvas.height;
+      ratio = this.pixelRatio;
     }
 
-    this.orthoProjection.right = width;
-    this.orthoProjection.bottom = height;
+    if (viewport) {
+      this.orthoProjection.right = viewport.width;
+      this.orthoProjection.bottom = viewport.height;
+
+      // WebGL viewports start at the bottom left.
+      const x = Math.round(viewport.x * ratio);
+      const y = height - Math.round((viewport.y + viewport.height) * ratio);
+      const viewportWidth = Math.round(viewport.width * ratio);
+      const viewportHeight = Math.round(viewport.height * ratio);
+      gl.viewport(x, y, viewportWidth, viewportHeight);
+      gl.scissor(x, y, viewportWidth, viewportHeight);
+      gl.enable(gl.SCISSOR_TEST);
+    } else {
+      this.orthoProjection.right = width / ratio;
+      this.orthoProjection.bottom = height / ratio;
+      gl.viewport(0, 0, width, height);
+      gl.disable(gl.SCISSOR_TEST);
+    }
     this.projection.ortho(this.orthoProjection);
 
-    gl.viewport(0, 0, width, height);
-
     this.shapeRenderer.setProjection(this.projection);
     this.imageRenderer.setProjection(this.projection);
 
@@ -224,7 +275,7 @@ export class Graphics {
     this.imageRenderer.commit();
     this.shapeRenderer.color = this.color;
     this.shapeRenderer.transform = this.transform;
-    this.drawFilledCircle(center, radius, segments);
+    this.shapeRenderer.drawFilledCircle(center, radius, segments);
   }
 
   /**
@@ -238,7 +289,7 @@ export class Graphics {
     this.imageRenderer.commit();
     this.shapeRenderer.color = this.color;
     this.shapeRenderer.transform = this.transform;
-    this.drawCircle(center, radius, segments, lineWidth);
+    this.shapeRenderer.drawCircle(center, radius, segments, lineWidth);
   }
 
   /**
@@ -250,7 +301,7 @@ export class Graphics {
     this.imageRenderer.commit();
     this.shapeRenderer.color = this.color;
     this.shapeRenderer.transform = this.transform;
-    this.drawFilledPolygon(center, vertices);
+    this.shapeRenderer.drawFilledPolygon(center, vertices);
   }
 
   /**
@@ -263,7 +314,7 @@ export class Graphics {
     this.imageRenderer.commit();
     this.shapeRenderer.color = this.color;
     this.shapeRenderer.transform = this.transform;
-    this.drawPolygon(center, vertices, lineWidth);
+    this.shapeRenderer.drawPolygon(center, vertices, lineWidth);
   }
 
   /**
@@ -315,6 +366,8 @@ export class Graphics {
    */
   drawRenderTarget(position: Vec2, target: RenderTarget): void {
     this.shapeRenderer.commit();
+    this.imageRenderer.color = this.color;
+    this.imageRenderer.transform = this.transform;
     this.imageRenderer.drawRenderTarget(position, target);
   }
 
@@ -326,6 +379,8 @@ export class Graphics {
    */
   drawBitmapText(position: Vec2, font: BitmapFont, text: string): void {
     this.shapeRenderer.commit();
+    this.imageRenderer.color = this.color;
+    this.imageRenderer.transform = this.transform;
     this.imageRenderer.drawBitmapText(position, font, text);
   }
 
@@ -22,9 +22,9 @@ export class Image {
   readonly data: Uint8ClampedArray;
 
   /**
-   * The WebGL texture.
+   * The WebGL texture. Replaced when the context is restored.
    */
-  readonly texture: WebGLTexture;
+  texture: WebGLTexture;
 
   /**
    * The WebGL rendering context.
@@ -44,6 +44,7 @@ export class Image {
     this.data = data;
     this.texture = this.createTexture();
     this.updateTexture();
+    this.context.addResource(this);
   }
 
   /**
@@ -93,9 +94,18 @@ export class Image {
    * Destroy the image and texture.
    */
   destroy(): void {
+    this.context.removeResource(this);
     this.context.gl.deleteTexture(this.texture);
   }
 
+  /**
+   * Recreate the texture from the image data after the context was restored.
+   */
+  restore(): void {
+    this.texture = this.createTexture();
+    this.updateTexture();
+  }
+
   /**
    * Create a new texture for this image.
    * @returns The new texture.
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+
+import { Vec3 } from '../../math/vec3.js';
+import type { Graphics } from '../graphics.js';
+import { Node } from './node.js';
+import { NodeRenderer } from './nodeRenderer.js';
+import { ShapeNode } from './shapeNode.js';
+
+/**
+ * Transform a point with the world matrix of a node.
+ */
+function toWorld(node: Node, x: number, y: number): Vec3 {
+  const point = new Vec3();
+  point.transformMat4(node.worldMatrix, x, y, 0);
+
+  return point;
+}
+
+describe('Node', () => {
+  it('should position a node relative to its parent', () => {
+    const parent = new Node();
+    parent.setPosition(100, 50);
+    const child = parent.addChild(new Node());
+    child.setPosition(10, 20);
+
+    const point = toWorld(child, 0, 0);
+    expect(point.x).toBeCloseTo(110);
+    expect(point.y).toBeCloseTo(70);
+  });
+
+  it('should rotate and scale children with the parent', () => {
+    const parent = new Node();
+    parent.rotation = Math.PI / 2;
+    parent.setScale(2);
+    const child = parent.addChild(new Node());
+    child.setPosition(10, 0);
+
+    const point = toWorld(child, 0, 0);
+    expect(point.x).toBeCloseTo(0);
+    expect(point.y).toBeCloseTo(20);
+  });
+
+  it('should place the anchor at the node position', () => {
+    const node = new ShapeNode({ type: 'rect', width: 40, height: 20 });
+    node.setPosition(100, 100);
+    node.setAnchor(0.5);
+
+    const topLeft = toWorld(node, 0, 0);
+    expect(topLeft.x).toBeCloseTo(80);
+    expect(topLeft.y).toBeCloseTo(90);
+
+    node.rotation = Math.PI;
+    const rotated = toWorld(node, 0, 0);
+    expect(rotated.x).toBeCloseTo(120);
+    expect(rotated.y).toBeCloseTo(110);
+  });
+
+  it('should update the world matrix of children when a parent changes', () => {
+    const root = new Node();
+    const parent = root.addChild(new Node());
+    const child = parent.addChild(new Node());
+
+    expect(toWorld(child, 0, 0).x).toBeCloseTo(0);
+
+    root.x = 5;
+    parent.x = 10;
+    expect(toWorld(child, 0, 0).x).toBeCloseTo(15);
+
+    // The matrix is cached until something changes.
+    const matrix = child.worldMatrix;
+    expect(child.worldMatrix).toBe(matrix);
+
+    root.x = 20;
+    expect(toWorld(child, 0, 0).x).toBeCloseTo(30);
+  });
+
+  it('should update the world matrix when a node moves to another parent', () => {
+    const a = new Node();
+    a.x = 10;
+    const b = new Node();
+    b.x = 50;
+    const child = a.addChild(new Node());
+
+    expect(toWorld(child, 0, 0).x).toBeCloseTo(10);
+
+    b.addChild(child);
+    expect(a.children).toEqual([]);
+    expect(child.parent).toBe(b);
+    expect(toWorld(child, 0, 0).x).toBeCloseTo(50);
+
+    child.removeFromParent();
+    expect(toWorld(child, 0, 0).x).toBeCloseTo(0);
+  });
+
+  it('should not allow cycles', () => {
+    const parent = new Node();
+    const child = parent.addChild(new Node());
+
+    expect(() => parent.addChild(parent)).toThrow('A node cannot be its own child');
+    expect(() => child.addChild(parent)).toThrow('A node cannot be added to one of its children');
+  });
+
+  it('should sort children by z index', () => {
+    const parent = new Node();
+    const a = parent.addChild(new Node());
+    const b = parent.addChild(new Node());
+    const c = parent.addChild(new Node());
+
+    expect(parent.sortedChildren).toEqual([a, b, c]);
+
+    a.zIndex = 1;
+    expect(parent.sortedChildren).toEqual([b, c, a]);
+
+    c.zIndex = -1;
+    expect(parent.sortedChildren).toEqual([c, b, a]);
+    expect(parent.children).toEqual([a, b, c]);
+  });
+});
+
+describe('NodeRenderer', () => {
+  class LogNode extends Node {
+    name: string;
+
+    log: string[];
+
+    constructor(name: string, log: string[]) {
+      super();
+      this.name = name;
+      this.log = log;
+    }
+
+    override draw(_graphics: Graphics, alpha: number): void {
+      this.log.push(`${this.name}:${alpha}`);
+    }
+  }
+
+  const graphics = {
+    color: { copyFrom: (): void => {} },
+    pushTransform: (): void => {},
+    applyTransform: (): void => {},
+    popTransform: (): void => {},
+  } as unknown as Graphics;
+
+  it('should render parents before children and skip invisible nodes', () => {
+    const log: string[] = [];
+    const root = new LogNode('root', log);
+    const a = root.addChild(new LogNode('a', log));
+    a.addChild(new LogNode('a1', log));
+    const b = root.addChild(new LogNode('b', log));
+    b.zIndex = -1;
+    const hidden = root.addChild(new LogNode('hidden', log));
+    hidden.visible = false;
+    hidden.addChild(new LogNode('hiddenChild', log));
+
+    new NodeRenderer().render(graphics, root);
+
+    expect(log).toEqual(['root:1', 'b:1', 'a:1', 'a1:1']);
+  });
+
+  it('should multiply the alpha with the parent alpha', () => {
+    const log: string[] = [];
+    const root = new LogNode('root', log);
+    root.alpha = 0.5;
+    const child = root.addChild(new LogNode('child', log));
+    child.alpha = 0.5;
+    const hidden = child.addChild(new LogNode('hidden', log));
+    hidden.alpha = 0;
+
+    new NodeRenderer().render(graphics, root);
+
+    expect(log).toEqual(['root:0.5', 'child:0.25']);
+  });
+});
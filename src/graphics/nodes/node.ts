@@ -0,0 +1,381 @@
+import { Mat4 } from '../../math/mat4.js';
+import type { Graphics } from '../graphics.js';
+
+/**
+ * A node in the scene graph. Nodes have a transform relative to their parent and can have children.
+ * The base node draws nothing and can be used to group other nodes.
+ */
+export class Node {
+  /**
+   * Invisible nodes and their children are not rendered.
+   */
+  visible = true;
+
+  /**
+   * The node alpha (0 - 1). Gets multiplied with the alpha of the parents.
+   */
+  alpha = 1;
+
+  /**
+   * The parent node.
+   */
+  get parent(): Node | undefined {
+    return this._parent;
+  }
+
+  /**
+   * The child nodes in the order they were added.
+   */
+  get children(): readonly Node[] {
+    return this._children;
+  }
+
+  /**
+   * The x position relative to the parent.
+   */
+  get x(): number {
+    return this._x;
+  }
+
+  set x(value: number) {
+    if (value !== this._x) {
+      this._x = value;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * The y position relative to the parent.
+   */
+  get y(): number {
+    return this._y;
+  }
+
+  set y(value: number) {
+    if (value !== this._y) {
+      this._y = value;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * The rotation in radians.
+   */
+  get rotation(): number {
+    return this._rotation;
+  }
+
+  set rotation(value: number) {
+    if (value !== this._rotation) {
+      this._rotation = value;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * The x axis scale.
+   */
+  get scaleX(): number {
+    return this._scaleX;
+  }
+
+  set scaleX(value: number) {
+    if (value !== this._scaleX) {
+      this._scaleX = value;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * The y axis scale.
+   */
+  get scaleY(): number {
+    return this._scaleY;
+  }
+
+  set scaleY(value: number) {
+    if (value !== this._scaleY) {
+      this._scaleY = value;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * The x anchor (0 - 1) relative to the node width. The node rotates and scales around the anchor and the anchor is
+   * placed at the node position.
+   */
+  get anchorX(): number {
+    return this._anchorX;
+  }
+
+  set anchorX(value: number) {
+    if (value !== this._anchorX) {
+      this._anchorX = value;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * The y anchor (0 - 1) relative to the node height.
+   */
+  get anchorY(): number {
+    return this._anchorY;
+  }
+
+  set anchorY(value: number) {
+    if (value !== this._anchorY) {
+      this._anchorY = value;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * The render order between siblings. Nodes with a higher z index are rendered on top. Siblings with the same z index
+   * are rendered in the order they were added.
+   */
+  get zIndex(): number {
+    return this._zIndex;
+  }
+
+  set zIndex(value: number) {
+    if (value !== this._zIndex) {
+      this._zIndex = value;
+      if (this._parent) {
+        this._parent.sortDirty = true;
+      }
+    }
+  }
+
+  /**
+   * The content width in pixels before scaling. Used for the anchor.
+   */
+  get width(): number {
+    return 0;
+  }
+
+  /**
+   * The content height in pixels before scaling. Used for the anchor.
+   */
+  get height(): number {
+    return 0;
+  }
+
+  /**
+   * The transform relative to the parent.
+   */
+  get localMatrix(): Mat4 {
+    if (this.localDirty) {
+      this.updateLocalMatrix();
+    }
+
+    return this._localMatrix;
+  }
+
+  /**
+   * The transform relative to the root of the tree.
+   */
+  get worldMatrix(): Mat4 {
+    if (this.worldDirty) {
+      if (this._parent) {
+        Mat4.multiply(this._parent.worldMatrix, this.localMatrix, this._worldMatrix);
+      } else {
+        this._worldMatrix.copyFrom(this.localMatrix);
+      }
+      this.worldDirty = false;
+    }
+
+    return this._worldMatrix;
+  }
+
+  /**
+   * The children sorted by z index.
+   */
+  get sortedChildren(): readonly Node[] {
+    if (this.sortDirty) {
+      this._sortedChildren = [...this._children].sort((a, b) => a._zIndex - b._zIndex);
+      this.sortDirty = false;
+    }
+
+    return this._sortedChildren;
+  }
+
+  private _parent?: Node;
+
+  private _children: Node[] = [];
+
+  private _sortedChildren: Node[] = [];
+
+  private sortDirty = false;
+
+  private _x = 0;
+
+  private _y = 0;
+
+  private _rotation = 0;
+
+  private _scaleX = 1;
+
+  private _scaleY = 1;
+
+  private _anchorX = 0;
+
+  private _anchorY = 0;
+
+  private _zIndex = 0;
+
+  private readonly _localMatrix = new Mat4();
+
+  private readonly _worldMatrix = new Mat4();
+
+  /**
+   * Does the local matrix need to be recalculated.
+   */
+  private localDirty = false;
+
+  /**
+   * Does the world matrix need to be recalculated. When a node is dirty all its children are dirty as well.
+   */
+  private worldDirty = false;
+
+  /**
+   * Add a child node. The child gets removed from its current parent first.
+   * @param child - The node to add.
+   * @returns The added node.
+   */
+  addChild<T extends Node>(child: T): T {
+    if ((child as Node) === this) {
+      throw new Error('A node cannot be its own child');
+    }
+
+    let ancestor = this._parent;
+    while (ancestor) {
+      if (ancestor === child) {
+        throw new Error('A node cannot be added to one of its children');
+      }
+      ancestor = ancestor._parent;
+    }
+
+    child.removeFromParent();
+    child._parent = this;
+    this._children.push(child);
+    this.sortDirty = true;
+    child.markWorldDirty();
+
+    return child;
+  }
+
+  /**
+   * Remove a child node.
+   * @param child - The node to remove.
+   */
+  removeChild(child: Node): void {
+    const index = this._children.indexOf(child);
+    if (index === -1) {
+      return;
+    }
+
+    this._children.splice(index, 1);
+    this.sortDirty = true;
+    child._parent = undefined;
+    child.markWorldDirty();
+  }
+
+  /**
+   * Remove all child nodes.
+   */
+  removeAllChildren(): void {
+    while (this._children.length > 0) {
+      this.removeChild(this._children[this._children.length - 1]);
+    }
+  }
+
+  /**
+   * Remove this node from its parent.
+   */
+  removeFromParent(): void {
+    this._parent?.removeChild(this);
+  }
+
+  /**
+   * Set the position relative to the parent.
+   * @param x - The x position.
+   * @param y - The y position.
+   */
+  setPosition(x: number, y: number): void {
+    this.x = x;
+    this.y = y;
+  }
+
+  /**
+   * Set the scale on both axes.
+   * @param x - The x axis scale.
+   * @param y - The y axis scale. Defaults to the x scale.
+   */
+  setScale(x: number, y: number = x): void {
+    this.scaleX = x;
+    this.scaleY = y;
+  }
+
+  /**
+   * Set the anchor on both axes.
+   * @param x - The x anchor (0 - 1).
+   * @param y - The y anchor (0 - 1). Defaults to the x anchor.
+   */
+  setAnchor(x: number, y: number = x): void {
+    this.anchorX = x;
+    this.anchorY = y;
+  }
+
+  /**
+   * Draw the node content. The graphics transform is set to the node world transform, so the content is drawn
+   * with the top left at 0, 0.
+   * @param _graphics - The graphics to draw with.
+   * @param _alpha - The node alpha multiplied with the parent alphas.
+   */
+  draw(_graphics: Graphics, _alpha: number): void {}
+
+  /**
+   * Mark the local matrix as changed. Call this from sub classes when the content size changes.
+   */
+  protected markDirty(): void {
+    this.localDirty = true;
+    this.markWorldDirty();
+  }
+
+  /**
+   * Mark the world matrix of this node and all its children as changed.
+   */
+  private markWorldDirty(): void {
+    // Children of a dirty node are always dirty already.
+    if (this.worldDirty) {
+      return;
+    }
+
+    this.worldDirty = true;
+    for (const child of this._children) {
+      child.markWorldDirty();
+    }
+  }
+
+  /**
+   * Calculate the local matrix from the position, rotation, scale and anchor.
+   */
+  private updateLocalMatrix(): void {
+    const matrix = Mat4.from2dRotationTranslationScale({
+      rotation: this._rotation,
+      x: this._x,
+      y: this._y,
+      scaleX: this._scaleX,
+      scaleY: this._scaleY,
+      out: this._localMatrix,
+    });
+
+    // Move the content so the anchor is at the origin before rotating and scaling.
+    const anchorX = -this._anchorX * this.width;
+    const anchorY = -this._anchorY * this.height;
+    matrix.value[12] += matrix.value[0] * anchorX + matrix.value[4] * anchorY;
+    matrix.value[13] += matrix.value[1] * anchorX + matrix.value[5] * anchorY;
+
+    this.localDirty = false;
+  }
+}
@@ -0,0 +1,51 @@
+import { Color } from '../color.js';
+import type { Graphics } from '../graphics.js';
+import type { Node } from './node.js';
+
+/**
+ * Renders a scene graph. Nodes are drawn depth first, parents before their children and siblings by z index.
+ */
+export class NodeRenderer {
+  /**
+   * The graphics color before rendering. Nodes change the color, so it gets restored after the tree is rendered.
+   */
+  private readonly previousColor = new Color();
+
+  /**
+   * Render a node and all its visible children. The current graphics transform is used as the base transform for
+   * the tree, so cameras and other transforms can be pushed before rendering.
+   * @param graphics - The graphics to draw with. The graphics should be started.
+   * @param root - The root node of the tree.
+   */
+  render(graphics: Graphics, root: Node): void {
+    this.previousColor.copyFrom(graphics.color);
+    this.renderNode(graphics, root, 1);
+    graphics.color.copyFrom(this.previousColor);
+  }
+
+  /**
+   * Render a node and its children.
+   * @param graphics - The graphics to draw with.
+   * @param node - The node to render.
+   * @param parentAlpha - The alpha of the parent node multiplied with its parents.
+   */
+  private renderNode(graphics: Graphics, node: Node, parentAlpha: number): void {
+    if (!node.visible) {
+      return;
+    }
+
+    const alpha = parentAlpha * node.alpha;
+    if (alpha <= 0) {
+      return;
+    }
+
+    graphics.pushTransform();
+    graphics.applyTransform(node.worldMatrix);
+    node.draw(graphics, alpha);
+    graphics.popTransform();
+
+    for (const child of node.sortedChildren) {
+      this.renderNode(graphics, child, alpha);
+    }
+  }
+}
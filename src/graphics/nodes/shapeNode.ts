@@ -0,0 +1,152 @@
+import { Rectangle } from '../../math/rectangle.js';
+import { Vec2 } from '../../math/vec2.js';
+import { Color } from '../color.js';
+import type { Graphics } from '../graphics.js';
+import { Node } from './node.js';
+
+/**
+ * The shapes a shape node can draw.
+ */
+export type NodeShape =
+  | { type: 'rect'; width: number; height: number }
+  | { type: 'circle'; radius: number; segments?: number }
+  | { type: 'polygon'; vertices: Vec2[] };
+
+/**
+ * A node that draws a rectangle, circle or polygon.
+ */
+export class ShapeNode extends Node {
+  /**
+   * The shape color.
+   */
+  readonly color = new Color(1, 1, 1, 1);
+
+  /**
+   * Draw the shape filled or as an outline.
+   */
+  filled = true;
+
+  /**
+   * The outline width when the shape is not filled.
+   */
+  lineWidth = 1;
+
+  /**
+   * The shape to draw. Assign a new shape object to change it.
+   */
+  get shape(): NodeShape {
+    return this._shape;
+  }
+
+  set shape(value: NodeShape) {
+    this._shape = value;
+    this.updateBounds();
+  }
+
+  override get width(): number {
+    return this.bounds.width;
+  }
+
+  override get height(): number {
+    return this.bounds.height;
+  }
+
+  private _shape: NodeShape;
+
+  /**
+   * The bounding box of the shape. The top left of the box is drawn at 0, 0.
+   */
+  private readonly bounds = new Rectangle();
+
+  private readonly center = new Vec2();
+
+  /**
+   * Create a new shape node.
+   * @param shape - The shape to draw.
+   */
+  constructor(shape: NodeShape) {
+    super();
+    this._shape = shape;
+    this.updateBounds();
+  }
+
+  override draw(graphics: Graphics, alpha: number): void {
+    // The shape shader expects premultiplied colors.
+    const colorAlpha = this.color.alpha * alpha;
+    graphics.color.set(
+      this.color.red * colorAlpha,
+      this.color.green * colorAlpha,
+      this.color.blue * colorAlpha,
+      colorAlpha,
+    );
+
+    const shape = this._shape;
+    switch (shape.type) {
+      case 'rect':
+        if (this.filled) {
+          graphics.drawFilledRect(this.bounds);
+        } else {
+          graphics.drawRect(this.bounds, this.lineWidth);
+        }
+        break;
+
+      case 'circle':
+        if (this.filled) {
+          graphics.drawFilledCircle(this.center, shape.radius, shape.segments);
+        } else {
+          graphics.drawCircle(this.center, shape.radius, shape.segments, this.lineWidth);
+        }
+        break;
+
+      case 'polygon':
+        if (this.filled) {
+          graphics.drawFilledPolygon(this.center, shape.vertices);
+        } else {
+          graphics.drawPolygon(this.center, shape.vertices, this.lineWidth);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Calculate the bounding box and the draw offset for the shape.
+   */
+  private updateBounds(): void {
+    const shape = this._shape;
+    switch (shape.type) {
+      case 'rect':
+        this.bounds.set(0, 0, shape.width, shape.height);
+        this.center.set(0, 0);
+        break;
+
+      case 'circle':
+        this.bounds.set(0, 0, shape.radius * 2, shape.radius * 2);
+        this.center.set(shape.radius, shape.radius);
+        break;
+
+      case 'polygon': {
+        let minX = Number.POSITIVE_INFINITY;
+        let minY = Number.POSITIVE_INFINITY;
+        let maxX = Number.NEGATIVE_INFINITY;
+        let maxY = Number.NEGATIVE_INFINITY;
+        for (const vertex of shape.vertices) {
+          minX = Math.min(minX, vertex.x);
+          minY = Math.min(minY, vertex.y);
+          maxX = Math.max(maxX, vertex.x);
+          maxY = Math.max(maxY, vertex.y);
+        }
+
+        if (shape.vertices.length === 0) {
+          this.bounds.set(0, 0, 0, 0);
+          this.center.set(0, 0);
+        } else {
+          this.bounds.set(0, 0, maxX - minX, maxY - minY);
+          this.center.set(-minX, -minY);
+        }
+        break;
+      }
+    }
+
+    this.markDirty();
+  }
+}
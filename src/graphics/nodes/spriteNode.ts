@@ -0,0 +1,76 @@
+import type { Rectangle } from '../../math/rectangle.js';
+import { Vec2 } from '../../math/vec2.js';
+import { Color } from '../color.js';
+import type { Graphics } from '../graphics.js';
+import type { Image } from '../image.js';
+import type { Flip } from '../types.js';
+import { Node } from './node.js';
+
+/**
+ * A node that draws an image or a region of an image.
+ */
+export class SpriteNode extends Node {
+  /**
+   * The tint color.
+   */
+  readonly color = new Color(1, 1, 1, 1);
+
+  /**
+   * Flip the image.
+   */
+  flip: Flip = 'none';
+
+  /**
+   * The image to draw.
+   */
+  get image(): Image {
+    return this._image;
+  }
+
+  set image(value: Image) {
+    this._image = value;
+    this.markDirty();
+  }
+
+  /**
+   * The region of the image to draw. Draws the full image when not set.
+   */
+  get frame(): Rectangle | undefined {
+    return this._frame;
+  }
+
+  set frame(value: Rectangle | undefined) {
+    this._frame = value;
+    this.markDirty();
+  }
+
+  override get width(): number {
+    return this._frame ? this._frame.width : this._image.width;
+  }
+
+  override get height(): number {
+    return this._frame ? this._frame.height : this._image.height;
+  }
+
+  private _image: Image;
+
+  private _frame?: Rectangle;
+
+  private readonly origin = new Vec2();
+
+  /**
+   * Create a new sprite node.
+   * @param image - The image to draw.
+   * @param frame - Optional region of the image to draw.
+   */
+  constructor(image: Image, frame?: Rectangle) {
+    super();
+    this._image = image;
+    this._frame = frame;
+  }
+
+  override draw(graphics: Graphics, alpha: number): void {
+    graphics.color.set(this.color.red, this.color.green, this.color.blue, this.color.alpha * alpha);
+    graphics.drawImage(this._image, this.origin, this.flip, this._frame);
+  }
+}
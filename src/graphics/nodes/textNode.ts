@@ -0,0 +1,85 @@
+import { Vec2 } from '../../math/vec2.js';
+import type { BitmapFont } from '../bitmapFont.js';
+import { Color } from '../color.js';
+import type { Graphics } from '../graphics.js';
+import { Node } from './node.js';
+
+/**
+ * A node that draws a line of text with a bitmap font.
+ */
+export class TextNode extends Node {
+  /**
+   * The text color.
+   */
+  readonly color = new Color(1, 1, 1, 1);
+
+  /**
+   * The font to draw with.
+   */
+  get font(): BitmapFont {
+    return this._font;
+  }
+
+  set font(value: BitmapFont) {
+    this._font = value;
+    this.updateSize();
+  }
+
+  /**
+   * The text to draw.
+   */
+  get text(): string {
+    return this._text;
+  }
+
+  set text(value: string) {
+    if (value !== this._text) {
+      this._text = value;
+      this.updateSize();
+    }
+  }
+
+  override get width(): number {
+    return this.textWidth;
+  }
+
+  override get height(): number {
+    return this._font.height;
+  }
+
+  private _font: BitmapFont;
+
+  private _text: string;
+
+  /**
+   * The cached text width so it is not measured every time the matrix is updated.
+   */
+  private textWidth = 0;
+
+  private readonly origin = new Vec2();
+
+  /**
+   * Create a new text node.
+   * @param font - The font to draw with.
+   * @param text - The text to draw.
+   */
+  constructor(font: BitmapFont, text: string = '') {
+    super();
+    this._font = font;
+    this._text = text;
+    this.textWidth = font.width(text);
+  }
+
+  override draw(graphics: Graphics, alpha: number): void {
+    graphics.color.set(this.color.red, this.color.green, this.color.blue, this.color.alpha * alpha);
+    graphics.drawBitmapText(this.origin, this._font, this._text);
+  }
+
+  /**
+   * Measure the text again and update the anchor.
+   */
+  private updateSize(): void {
+    this.textWidth = this._font.width(this._text);
+    this.markDirty();
+  }
+}
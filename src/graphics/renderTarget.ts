@@ -38,7 +38,8 @@ export class RenderTarget {
   private context!: GLContext;
 
   /**
-   * Create a new render target.
+   * Create a new render target. The contents are lost when the context is lost, so render targets should be drawn
+   * again after the context is restored.
    * @param width - The width of the render target in pixels.
    * @param height - The height of the render target in pixels.
    */
@@ -48,6 +49,37 @@ export class RenderTarget {
     this.projection = new Mat4();
     this.projection.ortho({ left: 0, right: width, bottom: height, top: 0, near: 0, far: 1000 });
 
+    this.buffer = null;
+    this.texture = null;
+    this.create();
+    this.context.addResource(this);
+  }
+
+  /**
+   * Destroy the render target.
+   */
+  destroy(): void {
+    this.context.removeResource(this);
+
+    const gl = this.context.gl;
+    gl.deleteTexture(this.texture);
+    this.texture = null;
+
+    gl.deleteFramebuffer(this.buffer);
+    this.buffer = null;
+  }
+
+  /**
+   * Recreate the framebuffer and texture after the context was restored.
+   */
+  restore(): void {
+    this.create();
+  }
+
+  /**
+   * Create the framebuffer with the texture attached.
+   */
+  private create(): void {
     const gl = this.context.gl;
 
     this.buffer = gl.createFramebuffer();
@@ -55,7 +87,7 @@ export class RenderTarget {
 
     const tex2d = gl.TEXTURE_2D;
     gl.bindTexture(tex2d, this.texture);
-    gl.texImage2D(tex2d, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    gl.texImage2D(tex2d, 0, gl.RGBA, this.width, this.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, this.context.getGLTextureFilter('linear'));
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, this.context.getGLTextureFilter('linear'));
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, this.context.getGLTextureWrap('clamp to edge'));
@@ -65,16 +97,4 @@ export class RenderTarget {
     gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, tex2d, this.texture, 0);
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
   }
-
-  /**
-   * Destroy the render target.
-   */
-  destroy(): void {
-    const gl = this.context.gl;
-    gl.deleteTexture(this.texture);
-    this.texture = null;
-
-    gl.deleteFramebuffer(this.buffer);
-    this.buffer = null;
-  }
 }
@@ -70,6 +70,7 @@ export class BaseRenderer {
     this.projection = new Mat4();
     this.color = new Color(1, 1, 1, 1);
     this.transform = new Mat4();
+    this.context.addResource(this);
   }
 
   /**
@@ -80,6 +81,14 @@ export class BaseRenderer {
     this.projection = projection;
   }
 
+  /**
+   * Recreate the buffers after the context was restored. The buffer data is uploaded on every commit.
+   */
+  restore(): void {
+    this.vertexBuffer = this.context.gl.createBuffer();
+    this.indexBuffer = this.context.gl.createBuffer();
+  }
+
   /**
    * Set the current shader.
    * @param shader - The shader to use. If not provided, the default shader will be used.
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculateScale, type ScaleMode } from './scaling.js';
+
+function scale(mode: ScaleMode, screenWidth: number, screenHeight: number): ReturnType<typeof calculateScale> {
+  return calculateScale({ mode, designWidth: 320, designHeight: 180, screenWidth, screenHeight });
+}
+
+describe('calculateScale', () => {
+  it('should letterbox a wider screen', () => {
+    expect(scale('letterbox', 1000, 360)).toEqual({ x: 180, y: 0, scaleX: 2, scaleY: 2 });
+  });
+
+  it('should letterbox a taller screen', () => {
+    expect(scale('letterbox', 640, 600)).toEqual({ x: 0, y: 120, scaleX: 2, scaleY: 2 });
+  });
+
+  it('should crop to fill the screen', () => {
+    expect(scale('crop', 1000, 360)).toEqual({ x: 0, y: -101.25, scaleX: 3.125, scaleY: 3.125 });
+  });
+
+  it('should stretch to fill the screen', () => {
+    expect(scale('stretch', 640, 540)).toEqual({ x: 0, y: 0, scaleX: 2, scaleY: 3 });
+  });
+
+  it('should only scale by whole numbers in pixel perfect mode', () => {
+    expect(scale('pixelPerfect', 1001, 571)).toEqual({ x: 20, y: 15, scaleX: 3, scaleY: 3 });
+  });
+
+  it('should not scale below 1 in pixel perfect mode', () => {
+    expect(scale('pixelPerfect', 200, 100)).toEqual({ x: -60, y: -40, scaleX: 1, scaleY: 1 });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * How the design resolution is scaled to the screen.
+ * - `letterbox`: Scale as big as possible while keeping the aspect ratio. Adds bars on the sides that don't fit.
+ * - `crop`: Fill the screen while keeping the aspect ratio. Cuts off the sides that don't fit.
+ * - `stretch`: Fill the screen. Does not keep the aspect ratio.
+ * - `pixelPerfect`: Like letterbox but only scales by whole numbers, so pixels stay square and sharp.
+ */
+export type ScaleMode = 'letterbox' | 'crop' | 'stretch' | 'pixelPerfect';
+
+export type CalculateScaleParams = {
+  mode: ScaleMode;
+  designWidth: number;
+  designHeight: number;
+  screenWidth: number;
+  screenHeight: number;
+};
+
+/**
+ * Where the design resolution is drawn on the screen.
+ */
+export type ScaleResult = {
+  /**
+   * The x position of the scaled design area on the screen. Negative when cropped.
+   */
+  x: number;
+
+  /**
+   * The y position of the scaled design area on the screen. Negative when cropped.
+   */
+  y: number;
+
+  /**
+   * The horizontal scale factor.
+   */
+  scaleX: number;
+
+  /**
+   * The vertical scale factor.
+   */
+  scaleY: number;
+};
+
+/**
+ * Calculate how to fit a design resolution on a screen.
+ * @param params - The scale parameters.
+ * @returns The position and scale of the design area on the screen.
+ */
+export function calculateScale({
+  mode,
+  designWidth,
+  designHeight,
+  screenWidth,
+  screenHeight,
+}: CalculateScaleParams): ScaleResult {
+  const ratioX = screenWidth / designWidth;
+  const ratioY = screenHeight / designHeight;
+
+  let scaleX: number;
+  let scaleY: number;
+  switch (mode) {
+    case 'crop':
+      scaleX = scaleY = Math.max(ratioX, ratioY);
+      break;
+
+    case 'stretch':
+      scaleX = ratioX;
+      scaleY = ratioY;
+      break;
+
+    case 'pixelPerfect':
+      // Never go below 1 so the game is still visible on a small screen.
+      scaleX = scaleY = Math.max(1, Math.floor(Math.min(ratioX, ratioY)));
+      break;
+
+    default:
+      scaleX = scaleY = Math.min(ratioX, ratioY);
+      break;
+  }
+
+  let x = (screenWidth - designWidth * scaleX) * 0.5;
+  let y = (screenHeight - designHeight * scaleY) * 0.5;
+
+  // Keep the pixel grid aligned with the screen pixels.
+  if (mode === 'pixelPerfect') {
+    x = Math.floor(x);
+    y = Math.floor(y);
+  }
+
+  return { x, y, scaleX, scaleY };
+}
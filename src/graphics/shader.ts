@@ -44,9 +44,14 @@ export class Shader {
    */
   textureParameters: TextureParameters;
 
-  private static shapeVertShader: WebGLShader;
+  private static shapeVertShader?: WebGLShader;
 
-  private static imageVertShader: WebGLShader;
+  private static imageVertShader?: WebGLShader;
+
+  /**
+   * The context restore count the cached vertex shaders were created with.
+   */
+  private static vertShaderRestoreCount = 0;
 
   /**
    * The WebGL rendering context.
@@ -59,6 +64,16 @@ export class Shader {
    */
   private program: WebGLProgram;
 
+  /**
+   * The uniform locations looked up with `getUniformLocation`.
+   */
+  private readonly uniformLocations = new Map<string, WebGLUniformLocation | null>();
+
+  /**
+   * The fragment shader source. Kept to recreate the program when the context is restored.
+   */
+  private readonly source: string;
+
   /**
    * The anisotropic filter extension if it is available.
    */
@@ -71,29 +86,12 @@ export class Shader {
    */
   constructor(type: ShaderType, source: string) {
     this.type = type;
+    this.source = source;
     this.uniforms = {};
-    const gl = this.context.gl;
-
-    this.anisotropicFilter = this.context.gl.getExtension('EXT_texture_filter_anisotropic');
-
-    const vertexShader = type === 'shape' ? this.getShapeVertShader() : this.getImageVertShader();
-    const fragmentShader = this.createShader(gl.FRAGMENT_SHADER, source);
-
-    this.program = this.createProgram(gl, vertexShader, fragmentShader);
 
-    const projection = this.getUniformLocation('u_projectionMatrix');
-    if (!projection) {
-      throw new Error('projectionMatrix not available in the vertex shader');
-    }
-    this.uniforms.u_projectionMatrix = projection;
-
-    if (type === 'image') {
-      const texture = this.getUniformLocation('u_texture');
-      if (!texture) {
-        throw new Error('tex not available in the fragment shader');
-      }
-      this.uniforms.u_texture = texture;
-    }
+    this.anisotropicFilter = null;
+    this.program = this.create();
+    this.context.addResource(this);
 
     this.blendParameters = {
       source: 'blend one',
@@ -121,12 +119,22 @@ export class Shader {
   }
 
   /**
-   * Get the location of a uniform in the shader program.
+   * Get the location of a uniform in the shader program. Locations are cached until the context is restored.
    * @param id - The uniform identifier.
    * @returns The uniform location or null if it does not exist.
    */
   getUniformLocation(id: string): WebGLUniformLocation | null {
-    return this.program ? this.context.gl.getUniformLocation(this.program, id) : null;
+    if (!this.program) {
+      return null;
+    }
+
+    let location = this.uniformLocations.get(id);
+    if (location === undefined) {
+      location = this.context.gl.getUniformLocation(this.program, id);
+      this.uniformLocations.set(id, location);
+    }
+
+    return location;
   }
 
   /**
@@ -182,9 +190,55 @@ export class Shader {
    * Destroy the shader.
    */
   destroy(): void {
+    this.context.removeResource(this);
     this.context.gl.deleteProgram(this.program);
   }
 
+  /**
+   * Recreate the program after the context was restored. Uniform locations from `getUniformLocation` are invalid
+   * after this and need to be looked up again, so the cached locations are cleared.
+   */
+  restore(): void {
+    this.uniformLocations.clear();
+    this.program = this.create();
+  }
+
+  /**
+   * Compile and link the program and look up the default uniforms.
+   * @returns The shader program.
+   */
+  private create(): WebGLProgram {
+    const gl = this.context.gl;
+    this.anisotropicFilter = gl.getExtension('EXT_texture_filter_anisotropic');
+
+    // Vertex shaders cached before the context was restored belong to the lost context.
+    if (Shader.vertShaderRestoreCount !== this.context.restoreCount) {
+      Shader.shapeVertShader = undefined;
+      Shader.imageVertShader = undefined;
+      Shader.vertShaderRestoreCount = this.context.restoreCount;
+    }
+
+    const vertexShader = this.type === 'shape' ? this.getShapeVertShader() : this.getImageVertShader();
+    const fragmentShader = this.createShader(gl.FRAGMENT_SHADER, this.source);
+    const program = this.createProgram(gl, vertexShader, fragmentShader);
+
+    const projection = gl.getUniformLocation(program, 'u_projectionMatrix');
+    if (!projection) {
+      throw new Error('projectionMatrix not available in the vertex shader');
+    }
+    this.uniforms.u_projectionMatrix = projection;
+
+    if (this.type === 'image') {
+      const texture = gl.getUniformLocation(program, 'u_texture');
+      if (!texture) {
+        throw new Error('tex not available in the fragment shader');
+      }
+      this.uniforms.u_texture = texture;
+    }
+
+    return program;
+  }
+
   private getShapeVertShader(): WebGLShader {
     if (!Shader.shapeVertShader) {
       Shader.shapeVertShader = this.createShader(
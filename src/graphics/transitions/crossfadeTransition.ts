@@ -0,0 +1,19 @@
+import type { Graphics } from '../graphics.js';
+import type { RenderTarget } from '../renderTarget.js';
+import { Transition } from './transition.js';
+
+/**
+ * Blend the incoming state over the outgoing state.
+ */
+export class CrossfadeTransition extends Transition {
+  render(graphics: Graphics, from: RenderTarget, to: RenderTarget, progress: number): void {
+    graphics.color.set(1, 1, 1, 1);
+    graphics.drawRenderTarget(this.origin, from);
+
+    graphics.color.set(1, 1, 1, progress);
+    graphics.drawRenderTarget(this.origin, to);
+    graphics.commit();
+
+    graphics.color.set(1, 1, 1, 1);
+  }
+}
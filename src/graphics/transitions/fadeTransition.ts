@@ -0,0 +1,46 @@
+import { Rectangle } from '../../math/rectangle.js';
+import { Color } from '../color.js';
+import type { Graphics } from '../graphics.js';
+import type { RenderTarget } from '../renderTarget.js';
+import { Transition } from './transition.js';
+
+/**
+ * Fade the outgoing state to a color during the first half and fade from the color to the incoming state
+ * during the second half.
+ */
+export class FadeTransition extends Transition {
+  /**
+   * The color to fade through.
+   */
+  readonly color: Color;
+
+  private readonly rect = new Rectangle();
+
+  /**
+   * Create a new fade transition.
+   * @param duration - The duration of the transition in seconds.
+   * @param color - The color to fade through. Defaults to black.
+   */
+  constructor(duration: number, color: Color = new Color(0, 0, 0, 1)) {
+    super(duration);
+    this.color = color;
+  }
+
+  render(graphics: Graphics, from: RenderTarget, to: RenderTarget, progress: number): void {
+    const fadingOut = progress < 0.5;
+    const target = fadingOut ? from : to;
+    const amount = fadingOut ? progress * 2 : (1 - progress) * 2;
+
+    graphics.color.set(1, 1, 1, 1);
+    graphics.drawRenderTarget(this.origin, target);
+
+    // The shape shader expects premultiplied colors.
+    const alpha = this.color.alpha * amount;
+    graphics.color.set(this.color.red * alpha, this.color.green * alpha, this.color.blue * alpha, alpha);
+    this.rect.set(0, 0, target.width, target.height);
+    graphics.drawFilledRect(this.rect);
+    graphics.commit();
+
+    graphics.color.set(1, 1, 1, 1);
+  }
+}
@@ -0,0 +1,75 @@
+import { inject } from '../../di/inject.js';
+import type { Vec2 } from '../../math/vec2.js';
+import type { GLContext } from '../glContext.js';
+import type { Graphics } from '../graphics.js';
+import type { RenderTarget } from '../renderTarget.js';
+import { Shader } from '../shader.js';
+import { Transition } from './transition.js';
+import { getIrisFragmentSource } from './transitionShaders.js';
+
+/**
+ * Reveal the incoming state inside a growing circle.
+ */
+export class IrisTransition extends Transition {
+  /**
+   * The center of the circle in pixels. Defaults to the center of the screen.
+   */
+  center?: Vec2;
+
+  private shader?: Shader;
+
+  @inject('glContext')
+  private context!: GLContext;
+
+  /**
+   * Create a new iris transition.
+   * @param duration - The duration of the transition in seconds.
+   * @param center - The center of the circle in pixels. Defaults to the center of the screen.
+   */
+  constructor(duration: number, center?: Vec2) {
+    super(duration);
+    this.center = center;
+  }
+
+  render(graphics: Graphics, from: RenderTarget, to: RenderTarget, progress: number): void {
+    graphics.color.set(1, 1, 1, 1);
+    graphics.drawRenderTarget(this.origin, from);
+    graphics.commit();
+
+    const width = to.width;
+    const height = to.height;
+    const centerX = this.center ? this.center.x : width * 0.5;
+    const centerY = this.center ? this.center.y : height * 0.5;
+
+    // The circle needs to reach the corner furthest away from the center to cover the whole screen.
+    const reachX = Math.max(centerX, width - centerX);
+    const reachY = Math.max(centerY, height - centerY);
+    const radius = Math.sqrt(reachX * reachX + reachY * reachY) * progress;
+
+    const shader = this.getShader();
+    graphics.setShader(shader);
+    shader.use();
+    graphics.setFloat2(shader.getUniformLocation('u_size'), width, height);
+
+    // The render target uvs start at the bottom left.
+    graphics.setFloat2(shader.getUniformLocation('u_center'), centerX / width, 1 - centerY / height);
+    graphics.setFloat(shader.getUniformLocation('u_radius'), radius);
+
+    graphics.drawRenderTarget(this.origin, to);
+    graphics.commit();
+    graphics.setShader();
+  }
+
+  override destroy(): void {
+    this.shader?.destroy();
+    this.shader = undefined;
+  }
+
+  private getShader(): Shader {
+    if (!this.shader) {
+      this.shader = new Shader('image', getIrisFragmentSource(this.context.isGL1));
+    }
+
+    return this.shader;
+  }
+}
@@ -0,0 +1,65 @@
+import { inject } from '../../di/inject.js';
+import type { GLContext } from '../glContext.js';
+import type { Graphics } from '../graphics.js';
+import type { RenderTarget } from '../renderTarget.js';
+import { Shader } from '../shader.js';
+import { Transition } from './transition.js';
+import { getPixelateFragmentSource } from './transitionShaders.js';
+
+/**
+ * Pixelate the outgoing state during the first half and sharpen the incoming state during the second half.
+ */
+export class PixelateTransition extends Transition {
+  /**
+   * The size of a pixel in screen pixels halfway through the transition.
+   */
+  maxPixelSize: number;
+
+  private shader?: Shader;
+
+  @inject('glContext')
+  private context!: GLContext;
+
+  /**
+   * Create a new pixelate transition.
+   * @param duration - The duration of the transition in seconds.
+   * @param maxPixelSize - The size of a pixel in screen pixels halfway through the transition.
+   */
+  constructor(duration: number, maxPixelSize: number = 32) {
+    super(duration);
+    this.maxPixelSize = maxPixelSize;
+  }
+
+  render(graphics: Graphics, from: RenderTarget, to: RenderTarget, progress: number): void {
+    const pixelatingOut = progress < 0.5;
+    const target = pixelatingOut ? from : to;
+    const amount = pixelatingOut ? progress * 2 : (1 - progress) * 2;
+    const pixelSize = Math.max(1, Math.round(this.maxPixelSize * amount));
+
+    const shader = this.getShader();
+    graphics.setShader(shader);
+    shader.use();
+    graphics.setFloat2(shader.getUniformLocation('u_size'), target.width, target.height);
+    graphics.setFloat(shader.getUniformLocation('u_pixelSize'), pixelSize);
+
+    graphics.color.set(1, 1, 1, 1);
+    graphics.drawRenderTarget(this.origin, target);
+    graphics.commit();
+    graphics.setShader();
+  }
+
+  override destroy(): void {
+    this.shader?.destroy();
+    this.shader = undefined;
+  }
+
+  private getShader(): Shader {
+    if (!this.shader) {
+      this.shader = new Shader('image', getPixelateFragmentSource(this.context.isGL1));
+      this.shader.textureParameters.minFilter = 'nearest';
+      this.shader.textureParameters.magFilter = 'nearest';
+    }
+
+    return this.shader;
+  }
+}
@@ -0,0 +1,40 @@
+import { Vec2 } from '../../math/vec2.js';
+import type { Graphics } from '../graphics.js';
+import type { RenderTarget } from '../renderTarget.js';
+
+/**
+ * Base class for transitions between two rendered states.
+ */
+export abstract class Transition {
+  /**
+   * The duration of the transition in seconds.
+   */
+  readonly duration: number;
+
+  /**
+   * The top left position to draw the snapshots at.
+   */
+  protected readonly origin = new Vec2();
+
+  /**
+   * Create a new transition.
+   * @param duration - The duration of the transition in seconds.
+   */
+  constructor(duration: number) {
+    this.duration = duration;
+  }
+
+  /**
+   * Blend the outgoing and incoming snapshots. The graphics are started before this is called.
+   * @param graphics - The graphics to draw with.
+   * @param from - The snapshot of the outgoing state.
+   * @param to - The snapshot of the incoming state.
+   * @param progress - The transition progress (0 - 1).
+   */
+  abstract render(graphics: Graphics, from: RenderTarget, to: RenderTarget, progress: number): void;
+
+  /**
+   * Destroy resources created by the transition.
+   */
+  destroy(): void {}
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { Transition } from './transition.js';
+import { TransitionPlayer } from './transitionPlayer.js';
+
+class TestTransition extends Transition {
+  render(): void {}
+}
+
+describe('TransitionPlayer', () => {
+  const render = (): void => {};
+
+  it('should destroy the transition when it is done', async () => {
+    const player = new TransitionPlayer();
+    const transition = new TestTransition(1);
+    const destroy = vi.spyOn(transition, 'destroy');
+
+    const done = player.play({ transition, renderFrom: render, renderTo: render });
+    player.update(0.5);
+    expect(destroy).not.toHaveBeenCalled();
+
+    player.update(0.5);
+    await done;
+    expect(destroy).toHaveBeenCalledOnce();
+    expect(player.active).toBe(false);
+  });
+
+  it('should destroy a transition that is replaced by a new one', async () => {
+    const player = new TransitionPlayer();
+    const first = new TestTransition(1);
+    const second = new TestTransition(1);
+    const destroyFirst = vi.spyOn(first, 'destroy');
+    const destroySecond = vi.spyOn(second, 'destroy');
+
+    const firstDone = player.play({ transition: first, renderFrom: render, renderTo: render });
+    player.play({ transition: second, renderFrom: render, renderTo: render });
+    await firstDone;
+
+    expect(destroyFirst).toHaveBeenCalledOnce();
+    expect(destroySecond).not.toHaveBeenCalled();
+    expect(player.active).toBe(true);
+  });
+});
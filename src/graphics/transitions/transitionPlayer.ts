@@ -0,0 +1,186 @@
+import { Color } from '../color.js';
+import type { Graphics } from '../graphics.js';
+import { RenderTarget } from '../renderTarget.js';
+import type { Transition } from './transition.js';
+
+/**
+ * Function that renders one of the two states of a transition.
+ */
+export type TransitionRenderFunction = (graphics: Graphics, alpha: number) => void;
+
+export type PlayTransitionParams = {
+  /**
+   * The transition to play.
+   */
+  transition: Transition;
+
+  /**
+   * Renders the outgoing state.
+   */
+  renderFrom: TransitionRenderFunction;
+
+  /**
+   * Renders the incoming state.
+   */
+  renderTo: TransitionRenderFunction;
+};
+
+/**
+ * Plays transitions by rendering the outgoing and incoming states into render targets every frame and blending
+ * them with the transition. Call `update` and `render` from update and render callbacks.
+ */
+export class TransitionPlayer {
+  /**
+   * Is a transition playing.
+   */
+  get active(): boolean {
+    return this.current !== undefined;
+  }
+
+  /**
+   * The progress of the current transition (0 - 1).
+   */
+  get progress(): number {
+    if (!this.current || this.current.transition.duration <= 0) {
+      return 1;
+    }
+
+    return Math.min(this.time / this.current.transition.duration, 1);
+  }
+
+  /**
+   * The transition that is playing.
+   */
+  private current?: PlayTransitionParams;
+
+  /**
+   * Resolves the promise returned by play.
+   */
+  private resolve?: () => void;
+
+  /**
+   * The time since the transition started in seconds.
+   */
+  private time = 0;
+
+  /**
+   * The snapshot of the outgoing state.
+   */
+  private fromTarget?: RenderTarget;
+
+  /**
+   * The snapshot of the incoming state.
+   */
+  private toTarget?: RenderTarget;
+
+  private readonly clearColor = new Color(0, 0, 0, 0);
+
+  /**
+   * Play a transition. A transition that is already playing gets finished first.
+   * @param params - The transition parameters.
+   * @returns A promise that resolves when the transition is done.
+   */
+  play(params: PlayTransitionParams): Promise<void> {
+    if (this.current) {
+      this.finish();
+    }
+
+    this.current = params;
+    this.time = 0;
+
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+    });
+  }
+
+  /**
+   * Advance the transition.
+   * @param deltaTime - The time passed since the last update in seconds.
+   */
+  update(deltaTime: number): void {
+    if (!this.current) {
+      return;
+    }
+
+    this.time += deltaTime;
+    if (this.time >= this.current.transition.duration) {
+      this.finish();
+    }
+  }
+
+  /**
+   * Render the transition to the current target.
+   * @param graphics - The graphics to render with.
+   * @param alpha - The interpolation alpha passed to the render functions.
+   */
+  render(graphics: Graphics, alpha: number): void {
+    if (!this.current) {
+      return;
+    }
+
+    const width = graphics.width;
+    const height = graphics.height;
+    this.fromTarget = this.updateTarget(width, height, this.fromTarget);
+    this.toTarget = this.updateTarget(width, height, this.toTarget);
+
+    this.snapshot(graphics, this.fromTarget, this.current.renderFrom, alpha);
+    this.snapshot(graphics, this.toTarget, this.current.renderTo, alpha);
+
+    graphics.start();
+    this.current.transition.render(graphics, this.fromTarget, this.toTarget, this.progress);
+    graphics.commit();
+  }
+
+  /**
+   * Finish the current transition and free the render targets and the transition resources.
+   */
+  finish(): void {
+    const resolve = this.resolve;
+    this.current?.transition.destroy();
+    this.current = undefined;
+    this.resolve = undefined;
+    this.time = 0;
+    this.destroyTargets();
+
+    resolve?.();
+  }
+
+  /**
+   * Render a state into a render target.
+   * @param graphics - The graphics to render with.
+   * @param target - The target to render into.
+   * @param render - The render function of the state.
+   * @param alpha - The interpolation alpha.
+   */
+  private snapshot(graphics: Graphics, target: RenderTarget, render: TransitionRenderFunction, alpha: number): void {
+    graphics.pushTarget(target);
+    graphics.start(true, this.clearColor);
+    render(graphics, alpha);
+    graphics.commit();
+    graphics.popTarget();
+  }
+
+  /**
+   * Make sure a render target has the correct size.
+   * @param width - The width in pixels.
+   * @param height - The height in pixels.
+   * @param target - The current target.
+   * @returns The target with the correct size.
+   */
+  private updateTarget(width: number, height: number, target?: RenderTarget): RenderTarget {
+    if (target && target.width === width && target.height === height) {
+      return target;
+    }
+
+    target?.destroy();
+
+    return new RenderTarget(width, height);
+  }
+
+  private destroyTargets(): void {
+    this.fromTarget?.destroy();
+    this.fromTarget = undefined;
+    this.toTarget?.destroy();
+    this.toTarget = undefined;
+  }
+}
@@ -0,0 +1,174 @@
+import { glsl } from '../glContext.js';
+
+const WIPE_FRAG: string = glsl`
+  #version 300 es
+
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform float u_progress;
+  uniform vec2 u_direction;
+
+  in vec2 v_fragmentUV;
+  in vec4 v_fragmentColor;
+
+  out vec4 o_fragmentColor;
+
+  void main() {
+    float position = dot(v_fragmentUV - 0.5, u_direction) + 0.5;
+    if (position > u_progress) {
+      discard;
+    }
+
+    vec4 textureColor = texture(u_texture, v_fragmentUV) * v_fragmentColor;
+    textureColor.rgb *= v_fragmentColor.a;
+    o_fragmentColor = textureColor;
+  }
+`;
+
+const WIPE_FRAG_GL1: string = glsl`
+  #version 100
+
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform float u_progress;
+  uniform vec2 u_direction;
+
+  varying vec2 v_fragmentUV;
+  varying vec4 v_fragmentColor;
+
+  void main() {
+    float position = dot(v_fragmentUV - 0.5, u_direction) + 0.5;
+    if (position > u_progress) {
+      discard;
+    }
+
+    vec4 textureColor = texture2D(u_texture, v_fragmentUV) * v_fragmentColor;
+    textureColor.rgb *= v_fragmentColor.a;
+    gl_FragColor = textureColor;
+  }
+`;
+
+const IRIS_FRAG: string = glsl`
+  #version 300 es
+
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform vec2 u_size;
+  uniform vec2 u_center;
+  uniform float u_radius;
+
+  in vec2 v_fragmentUV;
+  in vec4 v_fragmentColor;
+
+  out vec4 o_fragmentColor;
+
+  void main() {
+    if (length((v_fragmentUV - u_center) * u_size) > u_radius) {
+      discard;
+    }
+
+    vec4 textureColor = texture(u_texture, v_fragmentUV) * v_fragmentColor;
+    textureColor.rgb *= v_fragmentColor.a;
+    o_fragmentColor = textureColor;
+  }
+`;
+
+const IRIS_FRAG_GL1: string = glsl`
+  #version 100
+
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform vec2 u_size;
+  uniform vec2 u_center;
+  uniform float u_radius;
+
+  varying vec2 v_fragmentUV;
+  varying vec4 v_fragmentColor;
+
+  void main() {
+    if (length((v_fragmentUV - u_center) * u_size) > u_radius) {
+      discard;
+    }
+
+    vec4 textureColor = texture2D(u_texture, v_fragmentUV) * v_fragmentColor;
+    textureColor.rgb *= v_fragmentColor.a;
+    gl_FragColor = textureColor;
+  }
+`;
+
+const PIXELATE_FRAG: string = glsl`
+  #version 300 es
+
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform vec2 u_size;
+  uniform float u_pixelSize;
+
+  in vec2 v_fragmentUV;
+  in vec4 v_fragmentColor;
+
+  out vec4 o_fragmentColor;
+
+  void main() {
+    vec2 cell = u_pixelSize / u_size;
+    vec2 uv = (floor(v_fragmentUV / cell) + 0.5) * cell;
+
+    vec4 textureColor = texture(u_texture, uv) * v_fragmentColor;
+    textureColor.rgb *= v_fragmentColor.a;
+    o_fragmentColor = textureColor;
+  }
+`;
+
+const PIXELATE_FRAG_GL1: string = glsl`
+  #version 100
+
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform vec2 u_size;
+  uniform float u_pixelSize;
+
+  varying vec2 v_fragmentUV;
+  varying vec4 v_fragmentColor;
+
+  void main() {
+    vec2 cell = u_pixelSize / u_size;
+    vec2 uv = (floor(v_fragmentUV / cell) + 0.5) * cell;
+
+    vec4 textureColor = texture2D(u_texture, uv) * v_fragmentColor;
+    textureColor.rgb *= v_fragmentColor.a;
+    gl_FragColor = textureColor;
+  }
+`;
+
+/**
+ * Get the source code for the wipe transition fragment shader.
+ * @param gl1 - If true, returns the GL1 version of the fragment shader.
+ * @returns The shader source.
+ */
+export function getWipeFragmentSource(gl1: boolean): string {
+  return gl1 ? WIPE_FRAG_GL1 : WIPE_FRAG;
+}
+
+/**
+ * Get the source code for the iris transition fragment shader.
+ * @param gl1 - If true, returns the GL1 version of the fragment shader.
+ * @returns The shader source.
+ */
+export function getIrisFragmentSource(gl1: boolean): string {
+  return gl1 ? IRIS_FRAG_GL1 : IRIS_FRAG;
+}
+
+/**
+ * Get the source code for the pixelate transition fragment shader.
+ * @param gl1 - If true, returns the GL1 version of the fragment shader.
+ * @returns The shader source.
+ */
+export function getPixelateFragmentSource(gl1: boolean): string {
+  return gl1 ? PIXELATE_FRAG_GL1 : PIXELATE_FRAG;
+}
@@ -0,0 +1,86 @@
+import { inject } from '../../di/inject.js';
+import type { GLContext } from '../glContext.js';
+import type { Graphics } from '../graphics.js';
+import type { RenderTarget } from '../renderTarget.js';
+import { Shader } from '../shader.js';
+import { Transition } from './transition.js';
+import { getWipeFragmentSource } from './transitionShaders.js';
+
+/**
+ * The direction the wipe edge moves in.
+ */
+export type WipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Reveal the incoming state with a straight edge moving across the screen.
+ */
+export class WipeTransition extends Transition {
+  /**
+   * The direction the wipe edge moves in.
+   */
+  direction: WipeDirection;
+
+  private shader?: Shader;
+
+  @inject('glContext')
+  private context!: GLContext;
+
+  /**
+   * Create a new wipe transition.
+   * @param duration - The duration of the transition in seconds.
+   * @param direction - The direction the wipe edge moves in.
+   */
+  constructor(duration: number, direction: WipeDirection = 'right') {
+    super(duration);
+    this.direction = direction;
+  }
+
+  render(graphics: Graphics, from: RenderTarget, to: RenderTarget, progress: number): void {
+    graphics.color.set(1, 1, 1, 1);
+    graphics.drawRenderTarget(this.origin, from);
+    graphics.commit();
+
+    const shader = this.getShader();
+    graphics.setShader(shader);
+    shader.use();
+
+    const directionLocation = shader.getUniformLocation('u_direction');
+    graphics.setFloat(shader.getUniformLocation('u_progress'), progress);
+
+    // The render target uvs start at the bottom left.
+    switch (this.direction) {
+      case 'right':
+        graphics.setFloat2(directionLocation, 1, 0);
+        break;
+
+      case 'left':
+        graphics.setFloat2(directionLocation, -1, 0);
+        break;
+
+      case 'down':
+        graphics.setFloat2(directionLocation, 0, -1);
+        break;
+
+      case 'up':
+        graphics.setFloat2(directionLocation, 0, 1);
+        break;
+    }
+
+    graphics.drawRenderTarget(this.origin, to);
+    graphics.commit();
+    graphics.setShader();
+  }
+
+  override destroy(): void {
+    this.shader?.destroy();
+    this.shader = undefined;
+  }
+
+  private getShader(): Shader {
+    if (!this.shader) {
+      this.shader = new Shader('image', getWipeFragmentSource(this.context.isGL1));
+    }
+
+    return this.shader;
+  }
+}
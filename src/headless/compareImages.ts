@@ -0,0 +1,61 @@
+import type { PixelImage } from './png.js';
+
+/**
+ * The result of an image comparison.
+ */
+export type ImageComparison = {
+  /**
+   * The amount of pixels with a channel difference above the tolerance.
+   */
+  mismatched: number;
+
+  /**
+   * The largest channel difference found (0 - 255).
+   */
+  maxDifference: number;
+
+  /**
+   * An image with the mismatched pixels in red over a faded gray copy of the expected image.
+   */
+  diff: PixelImage;
+};
+
+/**
+ * Compare two images pixel by pixel.
+ * @param actual - The rendered image.
+ * @param expected - The reference image.
+ * @param tolerance - The largest channel difference (0 - 255) that still counts as a match.
+ * @returns The comparison result.
+ */
+export function compareImages(actual: PixelImage, expected: PixelImage, tolerance: number = 0): ImageComparison {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(
+      `Image sizes don't match: ${actual.width}x${actual.height} and ${expected.width}x${expected.height}`,
+    );
+  }
+
+  const diff = new Uint8ClampedArray(expected.data.length);
+  let mismatched = 0;
+  let maxDifference = 0;
+
+  for (let i = 0; i < expected.data.length; i += 4) {
+    let difference = 0;
+    for (let c = 0; c < 4; c++) {
+      difference = Math.max(difference, Math.abs(actual.data[i + c] - expected.data[i + c]));
+    }
+    maxDifference = Math.max(maxDifference, difference);
+
+    if (difference > tolerance) {
+      mismatched++;
+      diff[i] = 255;
+      diff[i + 1] = 0;
+      diff[i + 2] = 0;
+    } else {
+      const gray = (expected.data[i] + expected.data[i + 1] + expected.data[i + 2]) / 3;
+      diff[i] = diff[i + 1] = diff[i + 2] = 128 + gray / 4;
+    }
+    diff[i + 3] = 255;
+  }
+
+  return { mismatched, maxDifference, diff: { width: expected.width, height: expected.height, data: diff } };
+}
@@ -0,0 +1,413 @@
+import { HeadlessCanvas } from './headlessCanvas.js';
+import { createNullGL, getNullGLConstant, getNullGLConstantName } from './nullGL.js';
+
+/**
+ * A WebGL function call.
+ */
+export type RecordedCall = {
+  name: string;
+  args: unknown[];
+};
+
+/**
+ * A buffer upload with `bufferData` or `bufferSubData`.
+ */
+export type RecordedUpload = {
+  /**
+   * The buffer target, for example `ARRAY_BUFFER`.
+   */
+  target: string;
+
+  /**
+   * The id of the buffer.
+   */
+  buffer: number;
+
+  /**
+   * The offset in bytes for sub data uploads.
+   */
+  offset: number;
+
+  /**
+   * The amount of values uploaded.
+   */
+  length: number;
+};
+
+/**
+ * The blend state at the time of a draw call.
+ */
+export type BlendState = {
+  enabled: boolean;
+  source: string;
+  destination: string;
+  alphaSource: string;
+  alphaDestination: string;
+  operation: string;
+  alphaOperation: string;
+};
+
+/**
+ * A draw call with the state it was made with.
+ */
+export type RecordedDraw = {
+  /**
+   * The primitive mode, for example `TRIANGLES`.
+   */
+  mode: string;
+
+  /**
+   * The amount of indices or vertices drawn.
+   */
+  count: number;
+
+  /**
+   * The id of the shader program.
+   */
+  program: number;
+
+  /**
+   * The uniform values of the program by uniform name.
+   */
+  uniforms: Record<string, unknown>;
+
+  blend: BlendState;
+
+  /**
+   * The id of the texture bound to unit 0 or undefined if there is none.
+   */
+  texture?: number;
+
+  /**
+   * The viewport as x, y, width, height.
+   */
+  viewport: number[];
+
+  /**
+   * The scissor rectangle as x, y, width, height or undefined if the scissor test is disabled.
+   */
+  scissor?: number[];
+
+  /**
+   * The values per vertex in the vertex buffer.
+   */
+  stride: number;
+
+  /**
+   * The vertex data used by the draw call, one array per vertex.
+   */
+  vertices: number[][];
+};
+
+/**
+ * A fake WebGL2 context that records what gets drawn. Wrap the context with `new GLContext(recorder.gl)`.
+ * Tracks buffers, uniforms, blend state, textures and the viewport, and stores the used vertex data for every
+ * draw call so renderer output can be checked in tests.
+ */
+export class GLRecorder {
+  /**
+   * The fake context.
+   */
+  readonly gl: WebGL2RenderingContext;
+
+  /**
+   * All function calls since the last reset.
+   */
+  readonly calls: RecordedCall[] = [];
+
+  /**
+   * All buffer uploads since the last reset.
+   */
+  readonly uploads: RecordedUpload[] = [];
+
+  /**
+   * All draw calls since the last reset.
+   */
+  readonly draws: RecordedDraw[] = [];
+
+  /**
+   * Ids for the created WebGL objects.
+   */
+  private readonly ids = new WeakMap<object, number>();
+
+  private nextId = 1;
+
+  private readonly bufferData = new WeakMap<object, ArrayLike<number>>();
+
+  private readonly boundBuffers = new Map<number, object | null>();
+
+  private readonly uniformNames = new WeakMap<object, string>();
+
+  private readonly uniformValues = new WeakMap<object, Record<string, unknown>>();
+
+  private readonly textureUnits = new Map<number, object | null>();
+
+  private activeTextureUnit = 0;
+
+  private program: object | null = null;
+
+  private stride = 0;
+
+  private readonly capabilities = new Set<number>();
+
+  private readonly blend = {
+    source: 'ONE',
+    destination: 'ZERO',
+    alphaSource: 'ONE',
+    alphaDestination: 'ZERO',
+    operation: 'FUNC_ADD',
+    alphaOperation: 'FUNC_ADD',
+  };
+
+  private viewport: number[];
+
+  private scissor: number[];
+
+  /**
+   * Create a new recorder.
+   * @param width - The drawing buffer width.
+   * @param height - The drawing buffer height.
+   */
+  constructor(width: number = 800, height: number = 600) {
+    this.viewport = [0, 0, width, height];
+    this.scissor = [0, 0, width, height];
+    this.gl = createNullGL(new HeadlessCanvas(width, height).asElement(), this.record);
+  }
+
+  /**
+   * Clear the recorded calls, uploads and draws. The tracked state is kept.
+   */
+  reset(): void {
+    this.calls.length = 0;
+    this.uploads.length = 0;
+    this.draws.length = 0;
+  }
+
+  /**
+   * Get the id of a created WebGL object.
+   * @param object - The object.
+   * @returns The id or undefined if the object was not created by this recorder.
+   */
+  getId(object: unknown): number | undefined {
+    return object ? this.ids.get(object as object) : undefined;
+  }
+
+  /**
+   * Get a readable name for a WebGL constant.
+   * @param value - The constant value.
+   * @returns The constant name or the value as a string if it is not a constant.
+   */
+  getConstantName(value: unknown): string {
+    return getNullGLConstantName(value as number) ?? String(value);
+  }
+
+  /**
+   * Update the tracked state for a call.
+   * @param name - The function name.
+   * @param args - The function arguments.
+   * @param result - The value returned to the caller.
+   */
+  private record = (name: string, args: unknown[], result: unknown): void => {
+    this.calls.push({ name, args });
+
+    if (name.startsWith('create') && result) {
+      this.ids.set(result as object, this.nextId++);
+      return;
+    }
+
+    switch (name) {
+      case 'bindBuffer':
+        this.boundBuffers.set(args[0] as number, args[1] as object | null);
+        break;
+
+      case 'bufferData':
+        this.upload(args[0] as number, args[1] as ArrayLike<number>, -1);
+        break;
+
+      case 'bufferSubData':
+        this.upload(args[0] as number, args[2] as ArrayLike<number>, args[1] as number);
+        break;
+
+      case 'vertexAttribPointer':
+        this.stride = (args[4] as number) / Float32Array.BYTES_PER_ELEMENT;
+        break;
+
+      case 'useProgram':
+        this.program = args[0] as object | null;
+        break;
+
+      case 'getUniformLocation':
+        this.uniformNames.set(result as object, args[1] as string);
+        break;
+
+      case 'enable':
+        this.capabilities.add(args[0] as number);
+        break;
+
+      case 'disable':
+        this.capabilities.delete(args[0] as number);
+        break;
+
+      case 'blendFunc':
+        this.blend.source = this.blend.alphaSource = this.getConstantName(args[0]);
+        this.blend.destination = this.blend.alphaDestination = this.getConstantName(args[1]);
+        break;
+
+      case 'blendFuncSeparate':
+        this.blend.source = this.getConstantName(args[0]);
+        this.blend.destination = this.getConstantName(args[1]);
+        this.blend.alphaSource = this.getConstantName(args[2]);
+        this.blend.alphaDestination = this.getConstantName(args[3]);
+        break;
+
+      case 'blendEquation':
+        this.blend.operation = this.blend.alphaOperation = this.getConstantName(args[0]);
+        break;
+
+      case 'blendEquationSeparate':
+        this.blend.operation = this.getConstantName(args[0]);
+        this.blend.alphaOperation = this.getConstantName(args[1]);
+        break;
+
+      case 'activeTexture':
+        this.activeTextureUnit = (args[0] as number) - getNullGLConstant('TEXTURE0');
+        break;
+
+      case 'bindTexture':
+        this.textureUnits.set(this.activeTextureUnit, args[1] as object | null);
+        break;
+
+      case 'viewport':
+        this.viewport = args.slice(0, 4) as number[];
+        break;
+
+      case 'scissor':
+        this.scissor = args.slice(0, 4) as number[];
+        break;
+
+      case 'drawElements':
+        this.recordDrawElements(args[0] as number, args[1] as number, args[3] as number);
+        break;
+
+      case 'drawArrays':
+        this.recordDraw(args[0] as number, args[2] as number, args[1] as number, args[2] as number);
+        break;
+
+      default:
+        if (name.startsWith('uniform')) {
+          this.setUniform(name, args);
+        }
+        break;
+    }
+  };
+
+  /**
+   * Store the data of a buffer upload.
+   * @param target - The buffer target.
+   * @param data - The uploaded data.
+   * @param offset - The offset in bytes or -1 for a full upload.
+   */
+  private upload(target: number, data: ArrayLike<number>, offset: number): void {
+    const buffer = this.boundBuffers.get(target);
+    if (!buffer || !data) {
+      return;
+    }
+
+    if (offset === -1) {
+      this.bufferData.set(buffer, Array.from(data));
+    } else {
+      const current = (this.bufferData.get(buffer) ?? []) as number[];
+      const start = offset / Float32Array.BYTES_PER_ELEMENT;
+      for (let i = 0; i < data.length; i++) {
+        current[start + i] = data[i];
+      }
+      this.bufferData.set(buffer, current);
+    }
+
+    this.uploads.push({
+      target: this.getConstantName(target),
+      buffer: this.getId(buffer) ?? 0,
+      offset: Math.max(offset, 0),
+      length: data.length,
+    });
+  }
+
+  /**
+   * Store a uniform value for the current program.
+   * @param name - The uniform function name.
+   * @param args - The function arguments. The first argument is the location.
+   */
+  private setUniform(name: string, args: unknown[]): void {
+    const location = args[0] as object | null;
+    if (!location || !this.program) {
+      return;
+    }
+
+    let values = this.uniformValues.get(this.program);
+    if (!values) {
+      values = {};
+      this.uniformValues.set(this.program, values);
+    }
+
+    // Matrix functions have a transpose argument before the value.
+    const valueArgs = name.startsWith('uniformMatrix') ? args.slice(2) : args.slice(1);
+    const value = valueArgs.length === 1 ? valueArgs[0] : valueArgs;
+    const uniformName = this.uniformNames.get(location) ?? 'unknown';
+    values[uniformName] =
+      typeof value === 'object' && value !== null && 'length' in value ? Array.from(value as ArrayLike<number>) : value;
+  }
+
+  /**
+   * Record an indexed draw call. The used vertices are found with the element buffer.
+   * @param mode - The primitive mode.
+   * @param count - The amount of indices.
+   * @param offset - The offset in bytes in the element buffer.
+   */
+  private recordDrawElements(mode: number, count: number, offset: number): void {
+    const elementBuffer = this.boundBuffers.get(getNullGLConstant('ELEMENT_ARRAY_BUFFER'));
+    const indices = elementBuffer ? this.bufferData.get(elementBuffer) : undefined;
+    const start = offset / Int32Array.BYTES_PER_ELEMENT;
+
+    let vertexCount = 0;
+    if (indices) {
+      for (let i = start; i < start + count && i < indices.length; i++) {
+        vertexCount = Math.max(vertexCount, indices[i] + 1);
+      }
+    }
+
+    this.recordDraw(mode, count, 0, vertexCount);
+  }
+
+  /**
+   * Record a draw call with the current state.
+   * @param mode - The primitive mode.
+   * @param count - The amount of indices or vertices drawn.
+   * @param firstVertex - The first used vertex.
+   * @param vertexCount - The amount of used vertices.
+   */
+  private recordDraw(mode: number, count: number, firstVertex: number, vertexCount: number): void {
+    const vertexBuffer = this.boundBuffers.get(getNullGLConstant('ARRAY_BUFFER'));
+    const data = vertexBuffer ? this.bufferData.get(vertexBuffer) : undefined;
+
+    const vertices: number[][] = [];
+    if (data && this.stride > 0) {
+      for (let i = firstVertex; i < firstVertex + vertexCount; i++) {
+        vertices.push(Array.prototype.slice.call(data, i * this.stride, (i + 1) * this.stride));
+      }
+    }
+
+    const texture = this.textureUnits.get(0);
+    this.draws.push({
+      mode: this.getConstantName(mode),
+      count,
+      program: this.getId(this.program) ?? 0,
+      uniforms: { ...(this.program ? this.uniformValues.get(this.program) : undefined) },
+      blend: { enabled: this.capabilities.has(getNullGLConstant('BLEND')), ...this.blend },
+      texture: texture ? this.getId(texture) : undefined,
+      viewport: [...this.viewport],
+      scissor: this.capabilities.has(getNullGLConstant('SCISSOR_TEST')) ? [...this.scissor] : undefined,
+      stride: this.stride,
+      vertices,
+    });
+  }
+}
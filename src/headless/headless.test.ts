@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { Audio } from '../audio/audio.js';
+import { Core } from '../core.js';
+import { clearServices, getService } from '../di/services.js';
+import type { Graphics } from '../graphics/graphics.js';
+import type { Input } from '../input/input.js';
+import { Rectangle } from '../math/rectangle.js';
+import type { Timers } from '../timers/timers.js';
+import type { Callbacks } from '../utils/callbacks.js';
+import { createHeadlessOptions } from './headlessOptions.js';
+
+describe('Headless Core', () => {
+  afterEach(() => {
+    clearServices();
+  });
+
+  it('should create all services without a browser', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+
+    expect(core.headless).toBe(true);
+    expect(core.canvas.width).toBe(320);
+    expect(core.canvas.height).toBe(180);
+    for (const name of ['glContext', 'audio', 'graphics', 'random', 'input', 'callbacks', 'scenes', 'tweens']) {
+      expect(getService(name)).toBeDefined();
+    }
+  });
+
+  it('should run the update and render callbacks on tick', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+    const callbacks = getService('callbacks') as Callbacks;
+
+    const updates: number[] = [];
+    let renders = 0;
+    callbacks.addUpdateCallback((deltaTime) => updates.push(deltaTime));
+    callbacks.addRenderCallback((graphics) => {
+      renders++;
+      graphics.start();
+      graphics.drawFilledRect(new Rectangle(0, 0, 10, 10));
+      graphics.commit();
+    });
+
+    core.start();
+    core.tick(0.02);
+    core.tick(0.02);
+
+    expect(updates).toEqual([0.02, 0.02]);
+    expect(renders).toBe(2);
+  });
+
+  it('should run timers on the game clock', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+    const timers = getService('timers') as Timers;
+
+    let fired = false;
+    timers.after(0.05, () => {
+      fired = true;
+    });
+
+    core.tick(0.03);
+    expect(fired).toBe(false);
+
+    core.tick(0.03);
+    expect(fired).toBe(true);
+  });
+
+  it('should render through the design resolution target', () => {
+    const core = new Core({ width: 320, height: 180, headless: createHeadlessOptions(), scaleMode: 'pixelPerfect' });
+    const callbacks = getService('callbacks') as Callbacks;
+
+    let size = '';
+    callbacks.addRenderCallback((graphics: Graphics) => {
+      size = `${graphics.width}x${graphics.height}`;
+    });
+
+    core.tick(0.016);
+
+    expect(size).toBe('320x180');
+  });
+
+  it('should simulate input', () => {
+    new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+    const input = getService('input') as Input;
+
+    const presses: string[] = [];
+    input.on({ event: 'mousePressed', callback: (button, x, y) => presses.push(`${button}:${x},${y}`) });
+    input.dispatch('mousePressed', 0, 10, 20);
+
+    expect(presses).toEqual(['0:10,20']);
+  });
+
+  it('should play sounds without output', async () => {
+    new Core({ width: 320, height: 180, headless: createHeadlessOptions() });
+    const audio = getService('audio') as Audio;
+
+    const sound = await audio.decodeSound('test', new ArrayBuffer(8));
+    expect(sound?.id).toBe('test');
+
+    audio.setVolume(0.5);
+    expect(audio.getVolume()).toBe(0.5);
+  });
+});
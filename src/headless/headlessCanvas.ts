@@ -0,0 +1,82 @@
+import { createNullGL } from './nullGL.js';
+
+/**
+ * A stand in for the canvas element in headless mode. It has a size, can have event listeners and returns a null
+ * WebGL context.
+ */
+export class HeadlessCanvas extends EventTarget {
+  /**
+   * The drawing buffer width in pixels.
+   */
+  width: number;
+
+  /**
+   * The drawing buffer height in pixels.
+   */
+  height: number;
+
+  /**
+   * The CSS style. Only the size and touch action are used.
+   */
+  readonly style = { width: '', height: '', touchAction: '' };
+
+  /**
+   * The WebGL context. Created the first time it is requested.
+   */
+  private gl?: WebGL2RenderingContext;
+
+  /**
+   * Create a new headless canvas.
+   * @param width - The width in pixels.
+   * @param height - The height in pixels.
+   */
+  constructor(width: number, height: number) {
+    super();
+    this.width = width;
+    this.height = height;
+  }
+
+  /**
+   * Get the null WebGL context.
+   * @param type - The context type. Only 'webgl2' and 'webgl' are supported.
+   * @returns The context or null for other context types.
+   */
+  getContext(type: string): WebGL2RenderingContext | null {
+    if (type !== 'webgl2' && type !== 'webgl') {
+      return null;
+    }
+
+    if (!this.gl) {
+      this.gl = createNullGL(this.asElement());
+    }
+
+    return this.gl;
+  }
+
+  /**
+   * Get the canvas bounds. The headless canvas is always at 0, 0.
+   * @returns The bounds.
+   */
+  getBoundingClientRect(): DOMRect {
+    return {
+      x: 0,
+      y: 0,
+      left: 0,
+      top: 0,
+      right: this.width,
+      bottom: this.height,
+      width: this.width,
+      height: this.height,
+    } as DOMRect;
+  }
+
+  focus(): void {}
+
+  /**
+   * Use the headless canvas where a canvas element is expected.
+   * @returns This canvas typed as a canvas element.
+   */
+  asElement(): HTMLCanvasElement {
+    return this as unknown as HTMLCanvasElement;
+  }
+}
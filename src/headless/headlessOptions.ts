@@ -0,0 +1,16 @@
+import type { HeadlessOptions } from '../core.js';
+import { HeadlessCanvas } from './headlessCanvas.js';
+import { createNullAudioContext } from './nullAudioContext.js';
+import { SoftwareGL } from './softwareGL.js';
+
+/**
+ * Create the options to run Core without a browser.
+ * @returns The headless canvas, the null audio context and the software renderer.
+ */
+export function createHeadlessOptions(): HeadlessOptions {
+  return {
+    createCanvas: (width, height) => new HeadlessCanvas(width, height).asElement(),
+    createAudioContext: createNullAudioContext,
+    createSoftwareGL: (canvas) => new SoftwareGL(canvas),
+  };
+}
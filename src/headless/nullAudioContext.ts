@@ -0,0 +1,95 @@
+/**
+ * Create an audio node that does nothing.
+ * @returns The node.
+ */
+function createNullNode(): Record<string, unknown> {
+  return {
+    connect: (): void => {},
+    disconnect: (): void => {},
+  };
+}
+
+/**
+ * Create an audio context that does nothing. Sounds can be decoded and played, but nothing is heard.
+ * Used in headless mode where there is no Web Audio.
+ * @returns The null context.
+ */
+export function createNullAudioContext(): AudioContext {
+  const context = {
+    currentTime: 0,
+    sampleRate: 44100,
+    state: 'running',
+    destination: createNullNode(),
+
+    createGain: (): GainNode => {
+      return { ...createNullNode(), gain: { value: 1 } } as unknown as GainNode;
+    },
+
+    createBiquadFilter: (): BiquadFilterNode => {
+      return {
+        ...createNullNode(),
+        type: 'lowpass',
+        frequency: { value: 350 },
+        Q: { value: 1 },
+      } as unknown as BiquadFilterNode;
+    },
+
+    createDynamicsCompressor: (): DynamicsCompressorNode => {
+      return {
+        ...createNullNode(),
+        threshold: { value: -24 },
+        knee: { value: 30 },
+        ratio: { value: 12 },
+        attack: { value: 0.003 },
+        release: { value: 0.25 },
+      } as unknown as DynamicsCompressorNode;
+    },
+
+    createConvolver: (): ConvolverNode => {
+      return { ...createNullNode(), buffer: null } as unknown as ConvolverNode;
+    },
+
+    createDelay: (): DelayNode => {
+      return { ...createNullNode(), delayTime: { value: 0 } } as unknown as DelayNode;
+    },
+
+    createBuffer: (numberOfChannels: number, length: number, sampleRate: number): AudioBuffer => {
+      const data = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+
+      return {
+        duration: length / sampleRate,
+        length,
+        numberOfChannels,
+        sampleRate,
+        getChannelData: (channel: number): Float32Array => data[channel],
+      } as unknown as AudioBuffer;
+    },
+
+    createBufferSource: (): AudioBufferSourceNode => {
+      return {
+        ...createNullNode(),
+        buffer: null,
+        onended: null,
+        start: (): void => {},
+        stop: (): void => {},
+      } as unknown as AudioBufferSourceNode;
+    },
+
+    decodeAudioData: (buffer: ArrayBuffer): Promise<AudioBuffer> => {
+      return Promise.resolve({
+        duration: 0,
+        length: buffer.byteLength,
+        numberOfChannels: 1,
+        sampleRate: 44100,
+      } as unknown as AudioBuffer);
+    },
+
+    resume: (): Promise<void> => Promise.resolve(),
+
+    suspend: (): Promise<void> => Promise.resolve(),
+
+    close: (): Promise<void> => Promise.resolve(),
+  };
+
+  return context as unknown as AudioContext;
+}
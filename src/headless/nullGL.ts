@@ -0,0 +1,137 @@
+/**
+ * The first value used for the fake WebGL constants. High enough to not be mistaken for sizes or indices.
+ */
+const CONSTANT_START = 0x10000;
+
+/**
+ * Fake constant values by name. Shared by all null contexts so values are stable between contexts.
+ */
+const CONSTANTS = new Map<string, number>();
+
+/**
+ * Constant names by fake value.
+ */
+const CONSTANT_NAMES = new Map<number, string>();
+
+/**
+ * Get the fake value for a WebGL constant name.
+ * @param name - The constant name, for example `TEXTURE_2D`.
+ * @returns The constant value.
+ */
+export function getNullGLConstant(name: string): number {
+  let value = CONSTANTS.get(name);
+  if (value === undefined) {
+    value = CONSTANT_START + CONSTANTS.size;
+    CONSTANTS.set(name, value);
+    CONSTANT_NAMES.set(value, name);
+  }
+
+  return value;
+}
+
+/**
+ * Get the name of a fake WebGL constant value.
+ * @param value - The constant value.
+ * @returns The constant name or undefined if the value is not a fake constant.
+ */
+export function getNullGLConstantName(value: number): string | undefined {
+  return CONSTANT_NAMES.get(value);
+}
+
+/**
+ * Get the return value of a WebGL function that does nothing.
+ * @param name - The function name.
+ * @returns The value to return.
+ */
+function getNullResult(name: string): unknown {
+  // Resources only need to be unique objects.
+  if (name.startsWith('create')) {
+    return {};
+  }
+
+  switch (name) {
+    case 'getShaderParameter':
+    case 'getProgramParameter':
+      return true;
+
+    case 'getUniformLocation':
+      return {};
+
+    case 'getAttribLocation':
+      return 0;
+
+    case 'getShaderInfoLog':
+    case 'getProgramInfoLog':
+      return '';
+
+    case 'checkFramebufferStatus':
+      return getNullGLConstant('FRAMEBUFFER_COMPLETE');
+
+    case 'isContextLost':
+      return false;
+
+    case 'getContextAttributes':
+      return {};
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Create a WebGL2 context that does nothing. Every function can be called and returns a value that lets the
+ * graphics code continue. Used in headless mode where there is no WebGL.
+ * @param canvas - The canvas the context belongs to.
+ * @param onCall - Optional function that gets called after every WebGL function call with the call result.
+ * @returns The null context.
+ */
+export function createNullGL(
+  canvas: HTMLCanvasElement,
+  onCall?: (name: string, args: unknown[], result: unknown) => void,
+): WebGL2RenderingContext {
+  const functions = new Map<string, (...args: unknown[]) => unknown>();
+
+  const context = new Proxy(
+    {},
+    {
+      get: (_target, property): unknown => {
+        if (typeof property !== 'string') {
+          return undefined;
+        }
+
+        if (/^[A-Z][A-Z0-9_]*$/.test(property)) {
+          return getNullGLConstant(property);
+        }
+
+        switch (property) {
+          case 'canvas':
+            return canvas;
+
+          case 'drawingBufferWidth':
+            return canvas.width;
+
+          case 'drawingBufferHeight':
+            return canvas.height;
+
+          default:
+            break;
+        }
+
+        let func = functions.get(property);
+        if (!func) {
+          func = (...args: unknown[]): unknown => {
+            const result = getNullResult(property);
+            onCall?.(property, args, result);
+
+            return result;
+          };
+          functions.set(property, func);
+        }
+
+        return func;
+      },
+    },
+  );
+
+  return context as WebGL2RenderingContext;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+
+import { compareImages } from './compareImages.js';
+import { decodePNG, encodePNG, type PixelImage } from './png.js';
+
+/**
+ * Create an image with a gradient.
+ */
+function createImage(width: number, height: number): PixelImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = i % 256;
+    data[i * 4 + 1] = (i * 7) % 256;
+    data[i * 4 + 2] = 255 - (i % 256);
+    data[i * 4 + 3] = 200;
+  }
+
+  return { width, height, data };
+}
+
+describe('PNG', () => {
+  it('should decode what it encodes', async () => {
+    const image = createImage(13, 7);
+
+    const bytes = await encodePNG(image);
+    const decoded = await decodePNG(bytes);
+
+    expect(decoded.width).toBe(13);
+    expect(decoded.height).toBe(7);
+    expect(decoded.data).toEqual(image.data);
+  });
+
+  it('should start with the PNG signature', async () => {
+    const bytes = await encodePNG(createImage(1, 1));
+
+    expect(Array.from(bytes.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+  });
+
+  it('should throw for other files', async () => {
+    await expect(decodePNG(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]))).rejects.toThrow('Not a PNG file');
+  });
+});
+
+describe('compareImages', () => {
+  it('should count pixels outside the tolerance', () => {
+    const expected = createImage(4, 4);
+    const actual = createImage(4, 4);
+    actual.data[0] += 3;
+    actual.data[5] += 10;
+
+    expect(compareImages(actual, expected).mismatched).toBe(2);
+    expect(compareImages(actual, expected, 3).mismatched).toBe(1);
+    expect(compareImages(actual, expected, 10).mismatched).toBe(0);
+    expect(compareImages(actual, expected).maxDifference).toBe(10);
+  });
+
+  it('should mark mismatched pixels in the diff image', () => {
+    const expected = createImage(2, 1);
+    const actual = createImage(2, 1);
+    actual.data[4] = 0;
+    actual.data[5] = 0;
+
+    const { diff } = compareImages(actual, expected);
+
+    expect(Array.from(diff.data.subarray(4, 8))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should throw when the sizes differ', () => {
+    expect(() => compareImages(createImage(2, 2), createImage(2, 3))).toThrow();
+  });
+});
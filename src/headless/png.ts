@@ -0,0 +1,309 @@
+/**
+ * RGBA pixels with the first row at the top.
+ */
+export type PixelImage = {
+  width: number;
+  height: number;
+
+  /**
+   * The pixel data. 4 bytes per pixel.
+   */
+  data: Uint8ClampedArray;
+};
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const COLOR_TYPE_GRAY = 0;
+const COLOR_TYPE_RGB = 2;
+const COLOR_TYPE_GRAY_ALPHA = 4;
+const COLOR_TYPE_RGBA = 6;
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Encode pixels as a PNG file. Uses 8 bit RGBA without filtering.
+ * @param image - The image to encode.
+ * @returns A promise that resolves with the PNG bytes.
+ */
+export async function encodePNG(image: PixelImage): Promise<Uint8Array> {
+  const { width, height, data } = image;
+  const rowLength = width * 4;
+
+  // Every row starts with the filter type. 0 is no filter.
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = COLOR_TYPE_RGBA;
+
+  const chunks = [
+    createChunk('IHDR', header),
+    createChunk('IDAT', await transform(raw, new CompressionStream('deflate'))),
+    createChunk('IEND', new Uint8Array(0)),
+  ];
+
+  const length = chunks.reduce((total, chunk) => total + chunk.length, SIGNATURE.length);
+  const bytes = new Uint8Array(length);
+  bytes.set(SIGNATURE, 0);
+  let offset = SIGNATURE.length;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a PNG file. Supports non interlaced 8 bit gray, gray alpha, RGB and RGBA images.
+ * @param bytes - The PNG file bytes.
+ * @returns A promise that resolves with the RGBA pixels.
+ */
+export async function decodePNG(bytes: Uint8Array): Promise<PixelImage> {
+  for (let i = 0; i < SIGNATURE.length; i++) {
+    if (bytes[i] !== SIGNATURE[i]) {
+      throw new Error('Not a PNG file');
+    }
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  const compressed: Uint8Array[] = [];
+
+  let offset = SIGNATURE.length;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const content = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const bitDepth = content[8];
+      colorType = content[9];
+      const interlace = content[12];
+      if (bitDepth !== 8 || interlace !== 0 || getChannels(colorType) === 0) {
+        throw new Error(
+          `Unsupported PNG format: bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace}`,
+        );
+      }
+    } else if (type === 'IDAT') {
+      compressed.push(content);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    // Length, type, content and crc.
+    offset += length + 12;
+  }
+
+  const joined = new Uint8Array(compressed.reduce((total, chunk) => total + chunk.length, 0));
+  let joinedOffset = 0;
+  for (const chunk of compressed) {
+    joined.set(chunk, joinedOffset);
+    joinedOffset += chunk.length;
+  }
+
+  const raw = await transform(joined, new DecompressionStream('deflate'));
+  const channels = getChannels(colorType);
+  const pixels = unfilter(raw, width, height, channels);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const source = i * channels;
+    const target = i * 4;
+    switch (colorType) {
+      case COLOR_TYPE_GRAY:
+        data[target] = data[target + 1] = data[target + 2] = pixels[source];
+        data[target + 3] = 255;
+        break;
+
+      case COLOR_TYPE_GRAY_ALPHA:
+        data[target] = data[target + 1] = data[target + 2] = pixels[source];
+        data[target + 3] = pixels[source + 1];
+        break;
+
+      case COLOR_TYPE_RGB:
+        data[target] = pixels[source];
+        data[target + 1] = pixels[source + 1];
+        data[target + 2] = pixels[source + 2];
+        data[target + 3] = 255;
+        break;
+
+      default:
+        data[target] = pixels[source];
+        data[target + 1] = pixels[source + 1];
+        data[target + 2] = pixels[source + 2];
+        data[target + 3] = pixels[source + 3];
+        break;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Get the amount of bytes per pixel for a color type.
+ * @param colorType - The PNG color type.
+ * @returns The amount of channels or 0 if the color type is not supported.
+ */
+function getChannels(colorType: number): number {
+  switch (colorType) {
+    case COLOR_TYPE_GRAY:
+      return 1;
+
+    case COLOR_TYPE_GRAY_ALPHA:
+      return 2;
+
+    case COLOR_TYPE_RGB:
+      return 3;
+
+    case COLOR_TYPE_RGBA:
+      return 4;
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Undo the PNG row filters.
+ * @param raw - The decompressed rows with their filter type bytes.
+ * @param width - The image width.
+ * @param height - The image height.
+ * @param channels - The bytes per pixel.
+ * @returns The unfiltered pixel bytes.
+ */
+function unfilter(raw: Uint8Array, width: number, height: number, channels: number): Uint8Array {
+  const rowLength = width * channels;
+  const pixels = new Uint8Array(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowLength + 1)];
+    const source = y * (rowLength + 1) + 1;
+    const row = y * rowLength;
+    const previous = row - rowLength;
+
+    for (let x = 0; x < rowLength; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[previous + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[previous + x - channels] : 0;
+
+      let predictor = 0;
+      switch (filter) {
+        case 0:
+          break;
+
+        case 1:
+          predictor = left;
+          break;
+
+        case 2:
+          predictor = up;
+          break;
+
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+
+        default:
+          throw new Error(`Unknown PNG filter type ${filter}`);
+      }
+
+      pixels[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * The PNG Paeth predictor.
+ * @param left - The byte to the left.
+ * @param up - The byte above.
+ * @param upLeft - The byte above and to the left.
+ * @returns The predicted byte.
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) {
+    return left;
+  }
+
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Create a PNG chunk with its length and checksum.
+ * @param type - The 4 letter chunk type.
+ * @param content - The chunk content.
+ * @returns The chunk bytes.
+ */
+function createChunk(type: string, content: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(content.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, content.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(content, 8);
+  view.setUint32(content.length + 8, crc32(chunk.subarray(4, content.length + 8)));
+
+  return chunk;
+}
+
+/**
+ * Calculate the CRC-32 checksum used by PNG chunks.
+ * @param bytes - The bytes to check.
+ * @returns The checksum.
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Run bytes through a compression or decompression stream.
+ * @param bytes - The input bytes.
+ * @param stream - The stream to use.
+ * @returns A promise that resolves with the output bytes.
+ */
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
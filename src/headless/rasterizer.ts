@@ -0,0 +1,448 @@
+import type { BlendMode, BlendOperation, BlendParameters, TextureWrap } from '../graphics/types.js';
+import { clamp } from '../math/mathUtils.js';
+
+/**
+ * The texture filters the rasterizer can sample with. Mipmap filters sample the base level.
+ */
+export type RasterFilter = 'nearest' | 'linear';
+
+/**
+ * A vertex in window coordinates. Window coordinates start at the bottom left like in WebGL.
+ */
+export type RasterVertex = {
+  x: number;
+  y: number;
+
+  /**
+   * The color as r, g, b, a (0 - 1).
+   */
+  color: ArrayLike<number>;
+
+  /**
+   * The texture coordinates. Only used when a texture is set.
+   */
+  u: number;
+  v: number;
+};
+
+/**
+ * A rectangle in window pixels.
+ */
+export type RasterRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * The state used to fill a triangle.
+ */
+export type RasterState = {
+  /**
+   * The pixels to draw into.
+   */
+  target: SoftwareTexture;
+
+  /**
+   * Only pixels inside this rectangle are drawn. This is the viewport combined with the scissor rectangle.
+   */
+  clip: RasterRect;
+
+  /**
+   * The blend parameters or undefined when blending is disabled.
+   */
+  blend?: BlendParameters;
+
+  /**
+   * The texture to sample. When set the pixel color is the texture color times the vertex color with the rgb
+   * multiplied by the vertex alpha, like the default image shader.
+   */
+  texture?: SoftwareTexture;
+};
+
+/**
+ * RGBA pixels in memory. The first row is row 0 in texture and window coordinates, so the bottom row on screen.
+ */
+export class SoftwareTexture {
+  /**
+   * The width in pixels.
+   */
+  width: number;
+
+  /**
+   * The height in pixels.
+   */
+  height: number;
+
+  /**
+   * The pixel data. 4 bytes per pixel.
+   */
+  data: Uint8ClampedArray;
+
+  /**
+   * The filter used when the texture is drawn smaller than its size.
+   */
+  minFilter: RasterFilter = 'nearest';
+
+  /**
+   * The filter used when the texture is drawn at or above its size.
+   */
+  magFilter: RasterFilter = 'linear';
+
+  uWrap: TextureWrap = 'repeat';
+
+  vWrap: TextureWrap = 'repeat';
+
+  /**
+   * Create a new texture.
+   * @param width - The width in pixels.
+   * @param height - The height in pixels.
+   * @param data - Optional pixel data. Transparent black if not set.
+   */
+  constructor(width: number, height: number, data?: Uint8ClampedArray) {
+    this.width = width;
+    this.height = height;
+    this.data = data ?? new Uint8ClampedArray(width * height * 4);
+  }
+
+  /**
+   * Change the size of the texture. The pixels are cleared.
+   * @param width - The new width in pixels.
+   * @param height - The new height in pixels.
+   */
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+
+  /**
+   * Sample the texture.
+   * @param u - The horizontal texture coordinate.
+   * @param v - The vertical texture coordinate.
+   * @param filter - The filter to use.
+   * @param out - The array to store the r, g, b, a result in (0 - 1).
+   */
+  sample(u: number, v: number, filter: RasterFilter, out: number[]): void {
+    if (this.width === 0 || this.height === 0) {
+      out[0] = out[1] = out[2] = out[3] = 0;
+      return;
+    }
+
+    if (filter === 'nearest') {
+      const index = this.getIndex(Math.floor(u * this.width), Math.floor(v * this.height));
+      for (let i = 0; i < 4; i++) {
+        out[i] = this.data[index + i] / 255;
+      }
+      return;
+    }
+
+    const x = u * this.width - 0.5;
+    const y = v * this.height - 0.5;
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+
+    const i00 = this.getIndex(x0, y0);
+    const i10 = this.getIndex(x0 + 1, y0);
+    const i01 = this.getIndex(x0, y0 + 1);
+    const i11 = this.getIndex(x0 + 1, y0 + 1);
+    for (let i = 0; i < 4; i++) {
+      const top = this.data[i00 + i] * (1 - fx) + this.data[i10 + i] * fx;
+      const bottom = this.data[i01 + i] * (1 - fx) + this.data[i11 + i] * fx;
+      out[i] = (top * (1 - fy) + bottom * fy) / 255;
+    }
+  }
+
+  /**
+   * Get the data index of a texel after wrapping.
+   * @param x - The texel x position.
+   * @param y - The texel y position.
+   * @returns The index of the red component.
+   */
+  private getIndex(x: number, y: number): number {
+    return (wrap(y, this.height, this.vWrap) * this.width + wrap(x, this.width, this.uWrap)) * 4;
+  }
+}
+
+/**
+ * Fills triangles into a software texture with the blending and texturing of the default shaders.
+ */
+export class Rasterizer {
+  private readonly source = [0, 0, 0, 0];
+
+  private readonly destination = [0, 0, 0, 0];
+
+  private readonly texel = [0, 0, 0, 0];
+
+  /**
+   * Clear a part of a texture.
+   * @param target - The texture to clear.
+   * @param clip - The area to clear.
+   * @param color - The r, g, b, a color to clear with (0 - 1).
+   */
+  clear(target: SoftwareTexture, clip: RasterRect, color: ArrayLike<number>): void {
+    const minX = Math.max(0, clip.x);
+    const minY = Math.max(0, clip.y);
+    const maxX = Math.min(target.width, clip.x + clip.width);
+    const maxY = Math.min(target.height, clip.y + clip.height);
+
+    for (let y = minY; y < maxY; y++) {
+      for (let x = minX; x < maxX; x++) {
+        const index = (y * target.width + x) * 4;
+        for (let i = 0; i < 4; i++) {
+          target.data[index + i] = Math.round(clamp(color[i], 0, 1) * 255);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fill a triangle. Pixels are covered when their center is inside the triangle. Pixels on an edge are only
+   * covered by one of the triangles sharing it, so shapes made of multiple triangles blend correctly.
+   * @param state - The target, clip area, blending and texture.
+   * @param a - The first vertex.
+   * @param b - The second vertex.
+   * @param c - The third vertex.
+   */
+  fillTriangle(state: RasterState, a: RasterVertex, b: RasterVertex, c: RasterVertex): void {
+    let area = edge(a, b, c.x, c.y);
+    if (area === 0) {
+      return;
+    }
+
+    // Use counter clockwise order so the inside of every edge is positive.
+    if (area < 0) {
+      const temp = b;
+      b = c;
+      c = temp;
+      area = -area;
+    }
+
+    const { target, clip, blend, texture } = state;
+    const minX = Math.max(clip.x, 0, Math.floor(Math.min(a.x, b.x, c.x)));
+    const minY = Math.max(clip.y, 0, Math.floor(Math.min(a.y, b.y, c.y)));
+    const maxX = Math.min(clip.x + clip.width, target.width, Math.ceil(Math.max(a.x, b.x, c.x)));
+    const maxY = Math.min(clip.y + clip.height, target.height, Math.ceil(Math.max(a.y, b.y, c.y)));
+
+    const filter = texture ? this.getFilter(texture, a, b, c) : 'nearest';
+    const topLeftA = isTopLeft(b, c);
+    const topLeftB = isTopLeft(c, a);
+    const topLeftC = isTopLeft(a, b);
+
+    for (let y = minY; y < maxY; y++) {
+      const py = y + 0.5;
+      for (let x = minX; x < maxX; x++) {
+        const px = x + 0.5;
+        const wa = edge(b, c, px, py);
+        const wb = edge(c, a, px, py);
+        const wc = edge(a, b, px, py);
+        if (!isInside(wa, topLeftA) || !isInside(wb, topLeftB) || !isInside(wc, topLeftC)) {
+          continue;
+        }
+
+        const la = wa / area;
+        const lb = wb / area;
+        const lc = wc / area;
+        for (let i = 0; i < 4; i++) {
+          this.source[i] = a.color[i] * la + b.color[i] * lb + c.color[i] * lc;
+        }
+
+        if (texture) {
+          const u = a.u * la + b.u * lb + c.u * lc;
+          const v = a.v * la + b.v * lb + c.v * lc;
+          texture.sample(u, v, filter, this.texel);
+          const alpha = this.source[3];
+          for (let i = 0; i < 4; i++) {
+            this.source[i] *= this.texel[i];
+          }
+          for (let i = 0; i < 3; i++) {
+            this.source[i] *= alpha;
+          }
+        }
+
+        this.writePixel(target, (y * target.width + x) * 4, blend);
+      }
+    }
+  }
+
+  /**
+   * Blend the source color with the target pixel and store the result.
+   * @param target - The texture to write to.
+   * @param index - The data index of the pixel.
+   * @param blend - The blend parameters or undefined to replace the pixel.
+   */
+  private writePixel(target: SoftwareTexture, index: number, blend?: BlendParameters): void {
+    const source = this.source;
+    const destination = this.destination;
+    if (blend) {
+      for (let i = 0; i < 4; i++) {
+        destination[i] = target.data[index + i] / 255;
+      }
+
+      for (let i = 0; i < 4; i++) {
+        const isAlpha = i === 3;
+        const sourceFactor = getBlendFactor(isAlpha ? blend.alphaSource : blend.source, i, source, destination);
+        const destinationFactor = getBlendFactor(
+          isAlpha ? blend.alphaDestination : blend.destination,
+          i,
+          source,
+          destination,
+        );
+        const operation = isAlpha ? blend.alphaOperation : blend.operation;
+        const result = applyOperation(operation, source[i] * sourceFactor, destination[i] * destinationFactor);
+        target.data[index + i] = Math.round(clamp(result, 0, 1) * 255);
+      }
+    } else {
+      for (let i = 0; i < 4; i++) {
+        target.data[index + i] = Math.round(clamp(source[i], 0, 1) * 255);
+      }
+    }
+  }
+
+  /**
+   * Pick the minification or magnification filter by how many texels a pixel covers.
+   * @param texture - The texture that is sampled.
+   * @param a - The first vertex.
+   * @param b - The second vertex.
+   * @param c - The third vertex.
+   * @returns The filter to use for the triangle.
+   */
+  private getFilter(texture: SoftwareTexture, a: RasterVertex, b: RasterVertex, c: RasterVertex): RasterFilter {
+    const det = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+    const dudx = (((b.u - a.u) * (c.y - a.y) - (c.u - a.u) * (b.y - a.y)) / det) * texture.width;
+    const dudy = (((c.u - a.u) * (b.x - a.x) - (b.u - a.u) * (c.x - a.x)) / det) * texture.width;
+    const dvdx = (((b.v - a.v) * (c.y - a.y) - (c.v - a.v) * (b.y - a.y)) / det) * texture.height;
+    const dvdy = (((c.v - a.v) * (b.x - a.x) - (b.v - a.v) * (c.x - a.x)) / det) * texture.height;
+    const texelsPerPixel = Math.max(Math.hypot(dudx, dvdx), Math.hypot(dudy, dvdy));
+
+    return texelsPerPixel > 1 ? texture.minFilter : texture.magFilter;
+  }
+}
+
+/**
+ * Get the blend factor for a color component.
+ * @param mode - The blend mode.
+ * @param component - The component index. 3 is alpha.
+ * @param source - The source color.
+ * @param destination - The destination color.
+ * @returns The factor.
+ */
+export function getBlendFactor(
+  mode: BlendMode,
+  component: number,
+  source: ArrayLike<number>,
+  destination: ArrayLike<number>,
+): number {
+  switch (mode) {
+    case 'blend one':
+      return 1;
+
+    case 'blend zero':
+    case 'undefined':
+      return 0;
+
+    case 'source alpha':
+      return source[3];
+
+    case 'destination alpha':
+      return destination[3];
+
+    case 'inverse source alpha':
+      return 1 - source[3];
+
+    case 'inverse destination alpha':
+      return 1 - destination[3];
+
+    case 'source color':
+      return source[component];
+
+    case 'destination color':
+      return destination[component];
+
+    case 'inverse source color':
+      return 1 - source[component];
+
+    case 'inverse destination color':
+      return 1 - destination[component];
+  }
+}
+
+/**
+ * Combine the weighted source and destination values.
+ * @param operation - The blend operation.
+ * @param source - The source value times the source factor.
+ * @param destination - The destination value times the destination factor.
+ * @returns The blended value.
+ */
+function applyOperation(operation: BlendOperation, source: number, destination: number): number {
+  switch (operation) {
+    case 'add':
+      return source + destination;
+
+    case 'subtract':
+      return source - destination;
+
+    case 'reverse subtract':
+      return destination - source;
+  }
+}
+
+/**
+ * Wrap a texel position into the texture.
+ * @param position - The texel position.
+ * @param size - The texture size on the axis.
+ * @param mode - The wrap mode.
+ * @returns The wrapped position.
+ */
+function wrap(position: number, size: number, mode: TextureWrap): number {
+  switch (mode) {
+    case 'clamp to edge':
+      return Math.min(Math.max(position, 0), size - 1);
+
+    case 'repeat':
+      return ((position % size) + size) % size;
+
+    case 'mirrored repeat': {
+      const period = ((position % (size * 2)) + size * 2) % (size * 2);
+      return period < size ? period : size * 2 - 1 - period;
+    }
+  }
+}
+
+/**
+ * The edge function. Positive when the point is left of the edge from a to b.
+ * @param a - The edge start.
+ * @param b - The edge end.
+ * @param x - The point x position.
+ * @param y - The point y position.
+ * @returns Twice the signed area of the triangle a, b, point.
+ */
+function edge(a: RasterVertex, b: RasterVertex, x: number, y: number): number {
+  return (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+}
+
+/**
+ * Check if a counter clockwise edge is a top or left edge in window coordinates.
+ * @param a - The edge start.
+ * @param b - The edge end.
+ * @returns True for top and left edges.
+ */
+function isTopLeft(a: RasterVertex, b: RasterVertex): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+
+  return dy < 0 || (dy === 0 && dx < 0);
+}
+
+/**
+ * Check if a point is inside an edge. Points on the edge are only inside for top and left edges.
+ * @param weight - The edge function value for the point.
+ * @param topLeft - Is the edge a top or left edge.
+ * @returns True if the point is inside.
+ */
+function isInside(weight: number, topLeft: boolean): boolean {
+  return weight > 0 || (weight === 0 && topLeft);
+}
@@ -0,0 +1,7 @@
+/**
+ * Reference images are imported as base64 data urls.
+ */
+declare module '*.png?inline' {
+  const dataUrl: string;
+  export default dataUrl;
+}
@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { Core } from '../core.js';
+import { addService, clearServices, getService } from '../di/services.js';
+import { Color } from '../graphics/color.js';
+import { GLContext } from '../graphics/glContext.js';
+import { Graphics } from '../graphics/graphics.js';
+import { Image } from '../graphics/image.js';
+import { RenderTarget } from '../graphics/renderTarget.js';
+import { Rectangle } from '../math/rectangle.js';
+import { Vec2 } from '../math/vec2.js';
+import type { Callbacks } from '../utils/callbacks.js';
+import { compareImages } from './compareImages.js';
+import { HeadlessCanvas } from './headlessCanvas.js';
+import { createHeadlessOptions } from './headlessOptions.js';
+import { decodePNG, type PixelImage } from './png.js';
+import shapesReference from './references/shapes.png?inline';
+import { SoftwareGL } from './softwareGL.js';
+
+/**
+ * Get a pixel from an image as bytes.
+ */
+function pixel(image: PixelImage, x: number, y: number): number[] {
+  const index = (y * image.width + x) * 4;
+
+  return Array.from(image.data.subarray(index, index + 4));
+}
+
+/**
+ * Decode a reference image imported as a data url.
+ */
+function decodeReference(dataUrl: string): Promise<PixelImage> {
+  const base64 = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+
+  return decodePNG(Uint8Array.from(base64, (char) => char.charCodeAt(0)));
+}
+
+describe('SoftwareGL', () => {
+  let softwareGL: SoftwareGL;
+  let graphics: Graphics;
+
+  beforeEach(() => {
+    const canvas = new HeadlessCanvas(8, 8).asElement();
+    softwareGL = new SoftwareGL(canvas);
+    const context = new GLContext(softwareGL.gl);
+    addService('glContext', context);
+    graphics = new Graphics(context, canvas);
+  });
+
+  afterEach(() => {
+    clearServices();
+  });
+
+  it('should clear with the clear color', () => {
+    graphics.start(true, new Color(1, 0, 0, 1));
+
+    const pixels = softwareGL.getPixels();
+    expect(pixel(pixels, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(pixels, 7, 7)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should fill exactly the pixels of a rect', () => {
+    graphics.start();
+    graphics.drawFilledRect(new Rectangle(2, 1, 3, 4));
+    graphics.commit();
+
+    const pixels = softwareGL.getPixels();
+    let covered = 0;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const inside = x >= 2 && x < 5 && y >= 1 && y < 5;
+        expect(pixel(pixels, x, y)).toEqual(inside ? [255, 255, 255, 255] : [0, 0, 0, 255]);
+        covered += inside ? 1 : 0;
+      }
+    }
+    expect(covered).toBe(12);
+  });
+
+  it('should blend premultiplied colors', () => {
+    graphics.start(true, new Color(0, 0, 1, 1));
+    graphics.color.set(0.5, 0, 0, 0.5);
+    graphics.drawFilledRect(new Rectangle(0, 0, 8, 8));
+    graphics.commit();
+
+    // One over inverse source alpha: 0.5 red plus half of the blue.
+    expect(pixel(softwareGL.getPixels(), 4, 4)).toEqual([128, 0, 128, 255]);
+  });
+
+  it('should draw image texels', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255]);
+    const image = new Image(2, 2, data);
+
+    graphics.start();
+    graphics.drawImage(image, new Vec2(0, 0), 'none');
+    graphics.commit();
+
+    const pixels = softwareGL.getPixels();
+    expect(pixel(pixels, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(pixels, 1, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixel(pixels, 0, 1)).toEqual([0, 0, 255, 255]);
+    expect(pixel(pixels, 1, 1)).toEqual([255, 255, 255, 255]);
+    expect(pixel(pixels, 2, 0)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should clip to the viewport', () => {
+    graphics.start(true, new Color(0, 0, 0, 1), new Rectangle(4, 4, 4, 4));
+    graphics.drawFilledRect(new Rectangle(0, 0, 8, 8));
+    graphics.commit();
+
+    const pixels = softwareGL.getPixels();
+    expect(pixel(pixels, 3, 3)).toEqual([0, 0, 0, 0]);
+    expect(pixel(pixels, 4, 4)).toEqual([255, 255, 255, 255]);
+    expect(pixel(pixels, 7, 7)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should draw on the canvas in drawing units with a pixel ratio', () => {
+    graphics.pixelRatio = 2;
+    graphics.start();
+    graphics.drawFilledRect(new Rectangle(1, 1, 2, 1));
+    graphics.commit();
+
+    const pixels = softwareGL.getPixels();
+    expect(graphics.width).toBe(4);
+    expect(pixel(pixels, 1, 1)).toEqual([0, 0, 0, 255]);
+    expect(pixel(pixels, 2, 2)).toEqual([255, 255, 255, 255]);
+    expect(pixel(pixels, 5, 3)).toEqual([255, 255, 255, 255]);
+    expect(pixel(pixels, 6, 2)).toEqual([0, 0, 0, 255]);
+    expect(pixel(pixels, 2, 4)).toEqual([0, 0, 0, 255]);
+
+    // The viewport is in drawing units too.
+    graphics.start();
+    graphics.start(false, undefined, new Rectangle(2, 2, 2, 2));
+    graphics.drawFilledRect(new Rectangle(0, 0, 4, 4));
+    graphics.commit();
+
+    const clipped = softwareGL.getPixels();
+    expect(pixel(clipped, 3, 3)).toEqual([0, 0, 0, 255]);
+    expect(pixel(clipped, 4, 4)).toEqual([255, 255, 255, 255]);
+    expect(pixel(clipped, 7, 7)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should draw into render targets', () => {
+    const target = new RenderTarget(4, 4);
+
+    graphics.pushTarget(target);
+    graphics.start(true, new Color(0, 1, 0, 1));
+    graphics.drawFilledRect(new Rectangle(0, 0, 2, 2));
+    graphics.commit();
+    graphics.popTarget();
+
+    graphics.start();
+    graphics.drawRenderTarget(new Vec2(0, 0), target);
+    graphics.commit();
+
+    const targetPixels = softwareGL.getTexturePixels(target.texture as WebGLTexture);
+    expect(targetPixels && pixel(targetPixels, 0, 0)).toEqual([255, 255, 255, 255]);
+
+    const pixels = softwareGL.getPixels();
+    expect(pixel(pixels, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(pixels, 3, 3)).toEqual([0, 255, 0, 255]);
+    expect(pixel(pixels, 5, 5)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should render the same frame twice', () => {
+    const draw = (): PixelImage => {
+      graphics.start();
+      graphics.color.set(0.2, 0.4, 0.6, 1);
+      graphics.drawFilledCircle(new Vec2(4, 4), 3);
+      graphics.commit();
+
+      return softwareGL.getPixels();
+    };
+
+    const comparison = compareImages(draw(), draw());
+    expect(comparison.mismatched).toBe(0);
+  });
+});
+
+describe('Core software rendering', () => {
+  afterEach(() => {
+    clearServices();
+  });
+
+  it('should read the rendered frame', () => {
+    const core = new Core({ width: 4, height: 4, headless: createHeadlessOptions(), softwareRendering: true });
+    const callbacks = getService('callbacks') as Callbacks;
+    callbacks.addRenderCallback((graphics) => {
+      graphics.start(true, new Color(1, 1, 0, 1));
+      graphics.commit();
+    });
+
+    core.tick(1 / 60);
+
+    expect(pixel(core.readPixels(), 0, 0)).toEqual([255, 255, 0, 255]);
+  });
+
+  it('should match the reference image', async () => {
+    const core = new Core({ width: 16, height: 16, headless: createHeadlessOptions(), softwareRendering: true });
+    const callbacks = getService('callbacks') as Callbacks;
+    callbacks.addRenderCallback((graphics) => {
+      graphics.start(true, new Color(0.1, 0.1, 0.3, 1));
+      graphics.color.set(1, 0, 0, 1);
+      graphics.drawFilledRect(new Rectangle(2, 2, 8, 6));
+      graphics.color.set(0, 1, 0, 1);
+      graphics.drawFilledTriangle(new Vec2(14, 2), new Vec2(14, 14), new Vec2(6, 14));
+      graphics.color.set(0, 0, 0.5, 0.5);
+      graphics.drawFilledCircle(new Vec2(8, 8), 4);
+      graphics.commit();
+    });
+
+    core.tick(1 / 60);
+
+    const comparison = compareImages(core.readPixels(), await decodeReference(shapesReference), 1);
+    expect(comparison.mismatched).toBe(0);
+  });
+
+  it('should throw when reading pixels without software rendering', () => {
+    const core = new Core({ width: 4, height: 4, headless: createHeadlessOptions() });
+
+    expect(() => core.readPixels()).toThrow();
+  });
+});
@@ -0,0 +1,693 @@
+import type { BlendMode, BlendOperation, BlendParameters, TextureWrap } from '../graphics/types.js';
+import { createNullGL, getNullGLConstantName } from './nullGL.js';
+import type { PixelImage } from './png.js';
+import { Rasterizer, type RasterRect, type RasterVertex, SoftwareTexture } from './rasterizer.js';
+
+/**
+ * A vertex attribute pointer set with `vertexAttribPointer`. Offsets and strides are in bytes.
+ */
+type AttributePointer = {
+  size: number;
+  stride: number;
+  offset: number;
+};
+
+const BLEND_MODES: Record<string, BlendMode> = {
+  ZERO: 'blend zero',
+  ONE: 'blend one',
+  SRC_ALPHA: 'source alpha',
+  DST_ALPHA: 'destination alpha',
+  ONE_MINUS_SRC_ALPHA: 'inverse source alpha',
+  ONE_MINUS_DST_ALPHA: 'inverse destination alpha',
+  SRC_COLOR: 'source color',
+  DST_COLOR: 'destination color',
+  ONE_MINUS_SRC_COLOR: 'inverse source color',
+  ONE_MINUS_DST_COLOR: 'inverse destination color',
+};
+
+const BLEND_OPERATIONS: Record<string, BlendOperation> = {
+  FUNC_ADD: 'add',
+  FUNC_SUBTRACT: 'subtract',
+  FUNC_REVERSE_SUBTRACT: 'reverse subtract',
+};
+
+const TEXTURE_WRAPS: Record<string, TextureWrap> = {
+  CLAMP_TO_EDGE: 'clamp to edge',
+  REPEAT: 'repeat',
+  MIRRORED_REPEAT: 'mirrored repeat',
+};
+
+/**
+ * A WebGL2 context that draws on the CPU. Wrap the context with `new GLContext(softwareGL.gl)` and render with
+ * `Graphics` as usual, then read the frame with `getPixels`.
+ *
+ * Shaders are not compiled. Draw calls with texture coordinates are shaded like the default image shader and draw
+ * calls without them like the default shape shader, so custom fragment shaders draw as if they were the default.
+ */
+export class SoftwareGL {
+  /**
+   * The context to pass to `GLContext`.
+   */
+  readonly gl: WebGL2RenderingContext;
+
+  /**
+   * The default framebuffer. It follows the canvas size.
+   */
+  private readonly surface = new SoftwareTexture(0, 0);
+
+  private readonly canvas: HTMLCanvasElement;
+
+  private readonly rasterizer = new Rasterizer();
+
+  private readonly textures = new WeakMap<object, SoftwareTexture>();
+
+  private readonly textureUnits = new Map<number, object | null>();
+
+  private activeTextureUnit = 0;
+
+  private readonly framebufferTextures = new WeakMap<object, object | null>();
+
+  private framebuffer: object | null = null;
+
+  private readonly buffers = new WeakMap<object, ArrayBuffer>();
+
+  private readonly boundBuffers = new Map<number, object | null>();
+
+  private attributes: AttributePointer[] = [];
+
+  private program: object | null = null;
+
+  private readonly uniformNames = new WeakMap<object, string>();
+
+  private readonly projections = new WeakMap<object, ArrayLike<number>>();
+
+  private readonly capabilities = new Set<string>();
+
+  private readonly blend: BlendParameters = {
+    source: 'blend one',
+    destination: 'blend zero',
+    operation: 'add',
+    alphaSource: 'blend one',
+    alphaDestination: 'blend zero',
+    alphaOperation: 'add',
+  };
+
+  private readonly clearColor = [0, 0, 0, 0];
+
+  private viewport: RasterRect;
+
+  private scissor: RasterRect;
+
+  private premultiplyAlpha = false;
+
+  private flipY = false;
+
+  /**
+   * Create a new software context.
+   * @param canvas - The canvas to draw to. Use a `HeadlessCanvas` when there is no browser.
+   */
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.viewport = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+    this.scissor = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+    this.gl = createNullGL(canvas, this.onCall);
+  }
+
+  /**
+   * Get the pixels of the default framebuffer.
+   * @returns A copy of the pixels with the first row at the top.
+   */
+  getPixels(): PixelImage {
+    return flipRows(this.getSurface());
+  }
+
+  /**
+   * Get the pixels of a texture, for example the texture of a render target.
+   * @param texture - The texture.
+   * @returns A copy of the pixels with the last texture row at the top like it is shown on screen, or undefined if
+   * the texture was not created by this context.
+   */
+  getTexturePixels(texture: WebGLTexture): PixelImage | undefined {
+    const softwareTexture = this.textures.get(texture);
+
+    return softwareTexture ? flipRows(softwareTexture) : undefined;
+  }
+
+  /**
+   * Get the default framebuffer with the current canvas size.
+   * @returns The framebuffer texture.
+   */
+  private getSurface(): SoftwareTexture {
+    if (this.surface.width !== this.canvas.width || this.surface.height !== this.canvas.height) {
+      this.surface.resize(this.canvas.width, this.canvas.height);
+    }
+
+    return this.surface;
+  }
+
+  /**
+   * Get the texture that is drawn to.
+   * @returns The texture attached to the bound framebuffer or the default framebuffer.
+   */
+  private getTarget(): SoftwareTexture {
+    if (this.framebuffer) {
+      const texture = this.framebufferTextures.get(this.framebuffer);
+      const target = texture ? this.textures.get(texture) : undefined;
+      if (!target) {
+        throw new Error('The bound framebuffer has no texture attached');
+      }
+
+      return target;
+    }
+
+    return this.getSurface();
+  }
+
+  /**
+   * Get the area that can be drawn to. The viewport limited by the scissor rectangle when the scissor test is on.
+   * @returns The clip rectangle.
+   */
+  private getClip(): RasterRect {
+    if (!this.capabilities.has('SCISSOR_TEST')) {
+      return this.viewport;
+    }
+
+    const x = Math.max(this.viewport.x, this.scissor.x);
+    const y = Math.max(this.viewport.y, this.scissor.y);
+    const right = Math.min(this.viewport.x + this.viewport.width, this.scissor.x + this.scissor.width);
+    const top = Math.min(this.viewport.y + this.viewport.height, this.scissor.y + this.scissor.height);
+
+    return { x, y, width: Math.max(0, right - x), height: Math.max(0, top - y) };
+  }
+
+  /**
+   * Clear the color buffer of the current target. The scissor rectangle applies, the viewport does not.
+   * @param mask - The buffers to clear.
+   */
+  private clear(mask: number): void {
+    if ((mask & this.gl.COLOR_BUFFER_BIT) === 0) {
+      return;
+    }
+
+    const target = this.getTarget();
+    const clip = this.capabilities.has('SCISSOR_TEST')
+      ? this.scissor
+      : { x: 0, y: 0, width: target.width, height: target.height };
+    this.rasterizer.clear(target, clip, this.clearColor);
+  }
+
+  /**
+   * Store texture pixels uploaded with `texImage2D`.
+   * @param args - The `texImage2D` arguments.
+   */
+  private uploadTexture(args: unknown[]): void {
+    const textureObject = this.textureUnits.get(this.activeTextureUnit);
+    if (!textureObject || args[1] !== 0) {
+      return;
+    }
+
+    let width: number;
+    let height: number;
+    let pixels: ArrayBufferView | null | undefined;
+    if (args.length >= 9) {
+      width = args[3] as number;
+      height = args[4] as number;
+      pixels = args[8] as ArrayBufferView | null;
+    } else {
+      // Image elements can't be read without a browser. Image data objects have their pixels.
+      const source = args[5] as { width: number; height: number; data?: Uint8ClampedArray };
+      width = source.width;
+      height = source.height;
+      pixels = source.data;
+    }
+
+    let texture = this.textures.get(textureObject);
+    if (!texture) {
+      texture = new SoftwareTexture(width, height);
+      this.textures.set(textureObject, texture);
+    } else {
+      texture.resize(width, height);
+    }
+
+    if (pixels) {
+      const bytes = new Uint8Array(pixels.buffer, pixels.byteOffset, Math.min(pixels.byteLength, width * height * 4));
+      const rowLength = width * 4;
+      for (let y = 0; y < height; y++) {
+        const row = this.flipY ? height - 1 - y : y;
+        texture.data.set(bytes.subarray(row * rowLength, (row + 1) * rowLength), y * rowLength);
+      }
+
+      if (this.premultiplyAlpha) {
+        const data = texture.data;
+        for (let i = 0; i < data.length; i += 4) {
+          const alpha = data[i + 3] / 255;
+          data[i] = Math.round(data[i] * alpha);
+          data[i + 1] = Math.round(data[i + 1] * alpha);
+          data[i + 2] = Math.round(data[i + 2] * alpha);
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply a texture parameter to the bound texture.
+   * @param name - The parameter name.
+   * @param value - The parameter value.
+   */
+  private setTextureParameter(name: string, value: number): void {
+    const textureObject = this.textureUnits.get(this.activeTextureUnit);
+    if (!textureObject) {
+      return;
+    }
+
+    let texture = this.textures.get(textureObject);
+    if (!texture) {
+      texture = new SoftwareTexture(0, 0);
+      this.textures.set(textureObject, texture);
+    }
+
+    const valueName = getNullGLConstantName(value) ?? '';
+    switch (name) {
+      case 'TEXTURE_MIN_FILTER':
+        texture.minFilter = valueName.startsWith('NEAREST') ? 'nearest' : 'linear';
+        break;
+
+      case 'TEXTURE_MAG_FILTER':
+        texture.magFilter = valueName.startsWith('NEAREST') ? 'nearest' : 'linear';
+        break;
+
+      case 'TEXTURE_WRAP_S':
+        texture.uWrap = TEXTURE_WRAPS[valueName] ?? texture.uWrap;
+        break;
+
+      case 'TEXTURE_WRAP_T':
+        texture.vWrap = TEXTURE_WRAPS[valueName] ?? texture.vWrap;
+        break;
+    }
+  }
+
+  /**
+   * Store buffer data uploaded with `bufferData` or `bufferSubData`.
+   * @param target - The buffer target.
+   * @param data - The data or the size in bytes for an empty buffer.
+   * @param offset - The offset in bytes for sub data or -1 to replace the buffer.
+   */
+  private uploadBuffer(target: number, data: ArrayBufferView | number, offset: number): void {
+    const buffer = this.boundBuffers.get(target);
+    if (!buffer) {
+      return;
+    }
+
+    if (typeof data === 'number') {
+      this.buffers.set(buffer, new ArrayBuffer(data));
+      return;
+    }
+
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    if (offset === -1) {
+      this.buffers.set(buffer, bytes.slice().buffer);
+    } else {
+      const current = this.buffers.get(buffer);
+      if (current) {
+        new Uint8Array(current).set(bytes, offset);
+      }
+    }
+  }
+
+  /**
+   * Get the vertex indices for an indexed draw call.
+   * @param count - The amount of indices.
+   * @param type - The index type.
+   * @param offset - The offset in bytes in the element buffer.
+   * @returns The indices.
+   */
+  private getIndices(count: number, type: number, offset: number): ArrayLike<number> {
+    const buffer = this.boundBuffers.get(this.gl.ELEMENT_ARRAY_BUFFER);
+    const data = buffer ? this.buffers.get(buffer) : undefined;
+    if (!data) {
+      return [];
+    }
+
+    switch (getNullGLConstantName(type)) {
+      case 'UNSIGNED_BYTE':
+        return new Uint8Array(data, offset, count);
+
+      case 'UNSIGNED_SHORT':
+        return new Uint16Array(data, offset, count);
+
+      default:
+        return new Uint32Array(data, offset, count);
+    }
+  }
+
+  /**
+   * Rasterize a draw call.
+   * @param mode - The primitive mode.
+   * @param indices - The vertex indices in draw order.
+   */
+  private draw(mode: number, indices: ArrayLike<number>): void {
+    const buffer = this.boundBuffers.get(this.gl.ARRAY_BUFFER);
+    const data = buffer ? this.buffers.get(buffer) : undefined;
+    const position = this.attributes.find((attribute) => attribute.offset === 0);
+    if (!data || !position) {
+      return;
+    }
+
+    const color = this.attributes.find((attribute) => attribute.size === 4);
+    const uv = this.attributes.find((attribute) => attribute.size === 2 && attribute.offset > 0);
+    const floats = new Float32Array(data, 0, Math.floor(data.byteLength / Float32Array.BYTES_PER_ELEMENT));
+    const projection = this.program ? this.projections.get(this.program) : undefined;
+
+    const vertices = new Map<number, RasterVertex>();
+    const getVertex = (index: number): RasterVertex => {
+      let vertex = vertices.get(index);
+      if (!vertex) {
+        vertex = this.createVertex({ floats, index, position, color, uv, projection });
+        vertices.set(index, vertex);
+      }
+
+      return vertex;
+    };
+
+    let texture: SoftwareTexture | undefined;
+    if (uv) {
+      const textureObject = this.textureUnits.get(0);
+      texture = textureObject ? this.textures.get(textureObject) : undefined;
+    }
+
+    const state = {
+      target: this.getTarget(),
+      clip: this.getClip(),
+      blend: this.capabilities.has('BLEND') ? this.blend : undefined,
+      texture,
+    };
+
+    switch (getNullGLConstantName(mode)) {
+      case 'TRIANGLES':
+        for (let i = 0; i + 2 < indices.length; i += 3) {
+          const a = getVertex(indices[i]);
+          const b = getVertex(indices[i + 1]);
+          const c = getVertex(indices[i + 2]);
+          this.rasterizer.fillTriangle(state, a, b, c);
+        }
+        break;
+
+      case 'TRIANGLE_STRIP':
+        for (let i = 0; i + 2 < indices.length; i++) {
+          const a = getVertex(indices[i]);
+          const b = getVertex(indices[i + 1]);
+          const c = getVertex(indices[i + 2]);
+          this.rasterizer.fillTriangle(state, a, b, c);
+        }
+        break;
+
+      case 'TRIANGLE_FAN':
+        for (let i = 1; i + 1 < indices.length; i++) {
+          const a = getVertex(indices[0]);
+          const b = getVertex(indices[i]);
+          const c = getVertex(indices[i + 1]);
+          this.rasterizer.fillTriangle(state, a, b, c);
+        }
+        break;
+
+      // Points and lines are not used by the renderers.
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Read a vertex from the vertex buffer and transform it to window coordinates.
+   * @param params - The vertex data and attribute layout.
+   * @returns The vertex.
+   */
+  private createVertex({
+    floats,
+    index,
+    position,
+    color,
+    uv,
+    projection,
+  }: {
+    floats: Float32Array;
+    index: number;
+    position: AttributePointer;
+    color?: AttributePointer;
+    uv?: AttributePointer;
+    projection?: ArrayLike<number>;
+  }): RasterVertex {
+    const read = (attribute: AttributePointer, component: number, fallback: number): number => {
+      if (component >= attribute.size) {
+        return fallback;
+      }
+
+      return floats[(index * attribute.stride + attribute.offset) / Float32Array.BYTES_PER_ELEMENT + component];
+    };
+
+    const x = read(position, 0, 0);
+    const y = read(position, 1, 0);
+    const z = read(position, 2, 0);
+
+    let clipX = x;
+    let clipY = y;
+    let clipW = 1;
+    if (projection) {
+      clipX = projection[0] * x + projection[4] * y + projection[8] * z + projection[12];
+      clipY = projection[1] * x + projection[5] * y + projection[9] * z + projection[13];
+      clipW = projection[3] * x + projection[7] * y + projection[11] * z + projection[15];
+    }
+
+    return {
+      x: this.viewport.x + ((clipX / clipW + 1) / 2) * this.viewport.width,
+      y: this.viewport.y + ((clipY / clipW + 1) / 2) * this.viewport.height,
+      color: color ? [read(color, 0, 0), read(color, 1, 0), read(color, 2, 0), read(color, 3, 1)] : [1, 1, 1, 1],
+      u: uv ? read(uv, 0, 0) : 0,
+      v: uv ? read(uv, 1, 0) : 0,
+    };
+  }
+
+  /**
+   * Copy pixels from the current target into an array like `readPixels` does.
+   * @param rect - The area to read in window coordinates.
+   * @param pixels - The array to write to.
+   */
+  private readPixels(rect: RasterRect, pixels: ArrayBufferView | null): void {
+    if (!pixels) {
+      return;
+    }
+
+    const target = this.getTarget();
+    const out = new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.byteLength);
+    for (let y = 0; y < rect.height; y++) {
+      for (let x = 0; x < rect.width; x++) {
+        const sourceX = rect.x + x;
+        const sourceY = rect.y + y;
+        if (sourceX < 0 || sourceY < 0 || sourceX >= target.width || sourceY >= target.height) {
+          continue;
+        }
+
+        const source = (sourceY * target.width + sourceX) * 4;
+        out.set(target.data.subarray(source, source + 4), (y * rect.width + x) * 4);
+      }
+    }
+  }
+
+  /**
+   * Update the state and draw for a WebGL call.
+   * @param name - The function name.
+   * @param args - The function arguments.
+   * @param result - The value returned to the caller.
+   */
+  private onCall = (name: string, args: unknown[], result: unknown): void => {
+    const gl = this.gl;
+    switch (name) {
+      case 'enable':
+        this.capabilities.add(getNullGLConstantName(args[0] as number) ?? '');
+        break;
+
+      case 'disable':
+        this.capabilities.delete(getNullGLConstantName(args[0] as number) ?? '');
+        break;
+
+      case 'viewport':
+        this.viewport = {
+          x: args[0] as number,
+          y: args[1] as number,
+          width: args[2] as number,
+          height: args[3] as number,
+        };
+        break;
+
+      case 'scissor':
+        this.scissor = {
+          x: args[0] as number,
+          y: args[1] as number,
+          width: args[2] as number,
+          height: args[3] as number,
+        };
+        break;
+
+      case 'clearColor':
+        for (let i = 0; i < 4; i++) {
+          this.clearColor[i] = args[i] as number;
+        }
+        break;
+
+      case 'clear':
+        this.clear(args[0] as number);
+        break;
+
+      case 'blendFunc':
+        this.blend.source = this.blend.alphaSource = toBlendMode(args[0]);
+        this.blend.destination = this.blend.alphaDestination = toBlendMode(args[1]);
+        break;
+
+      case 'blendFuncSeparate':
+        this.blend.source = toBlendMode(args[0]);
+        this.blend.destination = toBlendMode(args[1]);
+        this.blend.alphaSource = toBlendMode(args[2]);
+        this.blend.alphaDestination = toBlendMode(args[3]);
+        break;
+
+      case 'blendEquation':
+        this.blend.operation = this.blend.alphaOperation = toBlendOperation(args[0]);
+        break;
+
+      case 'blendEquationSeparate':
+        this.blend.operation = toBlendOperation(args[0]);
+        this.blend.alphaOperation = toBlendOperation(args[1]);
+        break;
+
+      case 'pixelStorei':
+        if (args[0] === gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL) {
+          this.premultiplyAlpha = Boolean(args[1]);
+        } else if (args[0] === gl.UNPACK_FLIP_Y_WEBGL) {
+          this.flipY = Boolean(args[1]);
+        }
+        break;
+
+      case 'activeTexture':
+        this.activeTextureUnit = (args[0] as number) - gl.TEXTURE0;
+        break;
+
+      case 'bindTexture':
+        this.textureUnits.set(this.activeTextureUnit, args[1] as object | null);
+        break;
+
+      case 'texImage2D':
+        this.uploadTexture(args);
+        break;
+
+      case 'texParameteri':
+        this.setTextureParameter(getNullGLConstantName(args[1] as number) ?? '', args[2] as number);
+        break;
+
+      case 'bindFramebuffer':
+        this.framebuffer = args[1] as object | null;
+        break;
+
+      case 'framebufferTexture2D':
+        if (this.framebuffer) {
+          this.framebufferTextures.set(this.framebuffer, args[3] as object | null);
+        }
+        break;
+
+      case 'bindBuffer':
+        this.boundBuffers.set(args[0] as number, args[1] as object | null);
+        break;
+
+      case 'bufferData':
+        this.uploadBuffer(args[0] as number, args[1] as ArrayBufferView | number, -1);
+        break;
+
+      case 'bufferSubData':
+        this.uploadBuffer(args[0] as number, args[2] as ArrayBufferView, args[1] as number);
+        break;
+
+      case 'useProgram':
+        // The renderers set their attribute pointers after using their program.
+        this.program = args[0] as object | null;
+        this.attributes = [];
+        break;
+
+      case 'vertexAttribPointer':
+        this.attributes.push({ size: args[1] as number, stride: args[4] as number, offset: args[5] as number });
+        break;
+
+      case 'getUniformLocation':
+        if (result) {
+          this.uniformNames.set(result as object, args[1] as string);
+        }
+        break;
+
+      case 'uniformMatrix4fv':
+        if (this.program && args[0] && this.uniformNames.get(args[0] as object) === 'u_projectionMatrix') {
+          this.projections.set(this.program, Array.from(args[2] as ArrayLike<number>));
+        }
+        break;
+
+      case 'drawElements':
+        this.draw(args[0] as number, this.getIndices(args[1] as number, args[2] as number, args[3] as number));
+        break;
+
+      case 'drawArrays': {
+        const first = args[1] as number;
+        const indices = Array.from({ length: args[2] as number }, (_, i) => first + i);
+        this.draw(args[0] as number, indices);
+        break;
+      }
+
+      case 'readPixels':
+        this.readPixels(
+          { x: args[0] as number, y: args[1] as number, width: args[2] as number, height: args[3] as number },
+          args[6] as ArrayBufferView | null,
+        );
+        break;
+    }
+  };
+}
+
+/**
+ * Get the blend mode for a WebGL blend factor constant.
+ * @param value - The constant.
+ * @returns The blend mode.
+ */
+function toBlendMode(value: unknown): BlendMode {
+  const mode = BLEND_MODES[getNullGLConstantName(value as number) ?? ''];
+  if (!mode) {
+    throw new Error(`Unsupported blend factor ${String(value)}`);
+  }
+
+  return mode;
+}
+
+/**
+ * Get the blend operation for a WebGL blend equation constant.
+ * @param value - The constant.
+ * @returns The blend operation.
+ */
+function toBlendOperation(value: unknown): BlendOperation {
+  const operation = BLEND_OPERATIONS[getNullGLConstantName(value as number) ?? ''];
+  if (!operation) {
+    throw new Error(`Unsupported blend equation ${String(value)}`);
+  }
+
+  return operation;
+}
+
+/**
+ * Copy texture pixels with the rows in reverse order.
+ * @param texture - The texture to copy.
+ * @returns The flipped pixels.
+ */
+function flipRows(texture: SoftwareTexture): PixelImage {
+  const { width, height } = texture;
+  const rowLength = width * 4;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = height - 1 - y;
+    data.set(texture.data.subarray(row * rowLength, (row + 1) * rowLength), y * rowLength);
+  }
+
+  return { width, height, data };
+}
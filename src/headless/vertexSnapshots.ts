@@ -0,0 +1,83 @@
+import type { RecordedDraw } from './glRecorder.js';
+
+/**
+ * A vertex from the shape renderer.
+ */
+export type ShapeVertex = {
+  x: number;
+  y: number;
+  z: number;
+  color: number[];
+};
+
+/**
+ * A vertex from the image renderer.
+ */
+export type ImageVertex = ShapeVertex & {
+  u: number;
+  v: number;
+};
+
+/**
+ * The values per vertex in the shape renderer: position x, y, z and color r, g, b, a.
+ */
+const SHAPE_STRIDE = 7;
+
+/**
+ * The values per vertex in the image renderer: position x, y, z, color r, g, b, a and texture u, v.
+ */
+const IMAGE_STRIDE = 9;
+
+/**
+ * Round a value so float precision differences don't break snapshots.
+ * @param value - The value to round.
+ * @param decimals - The amount of decimals to keep.
+ * @returns The rounded value.
+ */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  const rounded = Math.round(value * factor) / factor;
+
+  // Avoid -0 in snapshots.
+  return rounded === 0 ? 0 : rounded;
+}
+
+/**
+ * Get the vertices of a shape renderer draw call.
+ * @param draw - The recorded draw call.
+ * @param decimals - The amount of decimals to round to.
+ * @returns The vertices.
+ */
+export function getShapeVertices(draw: RecordedDraw, decimals: number = 3): ShapeVertex[] {
+  if (draw.stride !== SHAPE_STRIDE) {
+    throw new Error(`Expected a shape draw call with stride ${SHAPE_STRIDE}, got ${draw.stride}`);
+  }
+
+  return draw.vertices.map((vertex) => ({
+    x: round(vertex[0], decimals),
+    y: round(vertex[1], decimals),
+    z: round(vertex[2], decimals),
+    color: vertex.slice(3, 7).map((value) => round(value, decimals)),
+  }));
+}
+
+/**
+ * Get the vertices of an image renderer draw call.
+ * @param draw - The recorded draw call.
+ * @param decimals - The amount of decimals to round to.
+ * @returns The vertices.
+ */
+export function getImageVertices(draw: RecordedDraw, decimals: number = 3): ImageVertex[] {
+  if (draw.stride !== IMAGE_STRIDE) {
+    throw new Error(`Expected an image draw call with stride ${IMAGE_STRIDE}, got ${draw.stride}`);
+  }
+
+  return draw.vertices.map((vertex) => ({
+    x: round(vertex[0], decimals),
+    y: round(vertex[1], decimals),
+    z: round(vertex[2], decimals),
+    color: vertex.slice(3, 7).map((value) => round(value, decimals)),
+    u: round(vertex[7], decimals),
+    v: round(vertex[8], decimals),
+  }));
+}
@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HeadlessCanvas } from '../headless/headlessCanvas.js';
+import { Vec2 } from '../math/vec2.js';
+import { Actions } from './actions.js';
+import { Input } from './input.js';
+
+describe('Actions', () => {
+  let input: Input;
+  let actions: Actions;
+
+  beforeEach(() => {
+    input = new Input(new HeadlessCanvas(100, 100).asElement());
+    actions = new Actions(input);
+  });
+
+  it('should track key presses per frame', () => {
+    actions.add('jump', [{ type: 'key', key: 'Space' }]);
+
+    input.dispatch('keyPressed', 'Space', 'Space', ' ');
+    actions.update();
+    expect(actions.isDown('jump')).toBe(true);
+    expect(actions.justPressed('jump')).toBe(true);
+    expect(actions.value('jump')).toBe(1);
+
+    actions.update();
+    expect(actions.isDown('jump')).toBe(true);
+    expect(actions.justPressed('jump')).toBe(false);
+
+    input.dispatch('keyReleased', 'Space', 'Space', ' ');
+    actions.update();
+    expect(actions.isDown('jump')).toBe(false);
+    expect(actions.justReleased('jump')).toBe(true);
+  });
+
+  it('should keep working after the input listeners are cleared', () => {
+    actions.add('jump', [{ type: 'key', key: 'Space' }]);
+
+    input.clearListeners();
+    input.dispatch('keyPressed', 'Space', 'Space', ' ');
+    actions.update();
+
+    expect(actions.justPressed('jump')).toBe(true);
+  });
+
+  it('should keep a press and release within one frame', () => {
+    actions.add('fire', [{ type: 'mouseButton', button: 0 }]);
+
+    input.dispatch('mousePressed', 0, 10, 10);
+    input.dispatch('mouseReleased', 0, 10, 10);
+    actions.update();
+    expect(actions.justPressed('fire')).toBe(true);
+
+    actions.update();
+    expect(actions.justReleased('fire')).toBe(true);
+  });
+
+  it('should combine composite bindings into an axis', () => {
+    actions.add('moveX', [
+      { type: 'composite', negative: { type: 'key', key: 'ArrowLeft' }, positive: { type: 'key', key: 'ArrowRight' } },
+    ]);
+
+    input.dispatch('keyPressed', 'ArrowLeft', 'ArrowLeft', 'ArrowLeft');
+    actions.update();
+    expect(actions.value('moveX')).toBe(-1);
+
+    input.dispatch('keyPressed', 'ArrowRight', 'ArrowRight', 'ArrowRight');
+    actions.update();
+    expect(actions.value('moveX')).toBe(0);
+  });
+
+  it('should apply the deadzone to gamepad axes', () => {
+    actions.add('moveX', [{ type: 'gamepadAxis', axis: 0 }], { deadzone: 0.2 });
+
+    input.dispatch('gamepadAxis', 0, 0, 0.1);
+    actions.update();
+    expect(actions.value('moveX')).toBe(0);
+
+    input.dispatch('gamepadAxis', 0, 0, -0.8);
+    actions.update();
+    expect(actions.value('moveX')).toBeCloseTo(-0.75);
+    expect(actions.isDown('moveX')).toBe(true);
+  });
+
+  it('should only use one side of an axis with a direction', () => {
+    actions.add('left', [{ type: 'gamepadAxis', axis: 0, direction: -1 }], { deadzone: 0 });
+
+    input.dispatch('gamepadAxis', 0, 0, 0.8);
+    actions.update();
+    expect(actions.value('left')).toBe(0);
+
+    input.dispatch('gamepadAxis', 0, 0, -0.8);
+    actions.update();
+    expect(actions.value('left')).toBeCloseTo(0.8);
+  });
+
+  it('should use the binding furthest from 0', () => {
+    actions.add('moveX', [
+      { type: 'gamepadAxis', axis: 0 },
+      { type: 'composite', negative: { type: 'key', key: 'A' }, positive: { type: 'key', key: 'D' } },
+    ]);
+
+    input.dispatch('gamepadAxis', 0, 0, 0.6);
+    input.dispatch('keyPressed', 'A', 'KeyA', 'a');
+    actions.update();
+    expect(actions.value('moveX')).toBe(-1);
+  });
+
+  it('should limit the length of a 2D axis', () => {
+    actions.add('moveX', [{ type: 'key', key: 'D' }]);
+    actions.add('moveY', [{ type: 'key', key: 'S' }]);
+    actions.addAxis2D('move', 'moveX', 'moveY');
+
+    input.dispatch('keyPressed', 'D', 'KeyD', 'd');
+    input.dispatch('keyPressed', 'S', 'KeyS', 's');
+    actions.update();
+
+    const out = actions.axis2D('move', new Vec2());
+    expect(out.x).toBeCloseTo(Math.SQRT1_2);
+    expect(out.y).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('should be down while a touch is inside a touch zone', () => {
+    actions.add('jump', [{ type: 'touchZone', x: 50, y: 0, width: 50, height: 100 }]);
+
+    input.dispatch('touchPressed', 1, 10, 10, 1);
+    actions.update();
+    expect(actions.isDown('jump')).toBe(false);
+
+    input.dispatch('touchMoved', 1, 60, 10, 1);
+    actions.update();
+    expect(actions.isDown('jump')).toBe(true);
+
+    input.dispatch('touchReleased', 1, 60, 10, 0);
+    actions.update();
+    expect(actions.isDown('jump')).toBe(false);
+  });
+
+  it('should release all inputs on reset', () => {
+    actions.add('jump', [{ type: 'key', key: 'Space' }]);
+
+    input.dispatch('keyPressed', 'Space', 'Space', ' ');
+    actions.update();
+    actions.reset();
+    actions.update();
+    expect(actions.isDown('jump')).toBe(false);
+  });
+
+  it('should keep reading held gamepad sticks and buttons after a reset', () => {
+    actions.add('moveX', [{ type: 'gamepadAxis', axis: 0 }], { deadzone: 0.2 });
+    actions.add('jump', [{ type: 'gamepadButton', button: 0 }]);
+    vi.spyOn(input, 'getGamepadStates').mockReturnValue({
+      0: { id: 'pad', mapping: 'standard', axes: { 0: -0.8 }, buttons: { 0: 1 } },
+    });
+
+    input.dispatch('gamepadAxis', 0, 0, -0.8);
+    input.dispatch('gamepadButton', 0, 0, 1);
+    actions.update();
+    actions.reset();
+    actions.update();
+
+    expect(actions.value('moveX')).toBeCloseTo(-0.75);
+    expect(actions.isDown('jump')).toBe(true);
+  });
+
+  it('should capture the next input as a binding', async () => {
+    const capture = actions.captureBinding(['gamepadButton']);
+    input.dispatch('keyPressed', 'Q', 'KeyQ', 'q');
+    input.dispatch('gamepadButton', 0, 3, 1);
+
+    const binding = await capture;
+    expect(binding).toEqual({ type: 'gamepadButton', button: 3 });
+  });
+
+  it('should resolve with undefined when the capture is cancelled', async () => {
+    const capture = actions.captureBinding();
+    actions.cancelCapture();
+
+    expect(await capture).toBeUndefined();
+  });
+
+  it('should save and load bindings', () => {
+    actions.add('jump', [{ type: 'key', key: 'Space' }]);
+    actions.add('fire', [{ type: 'mouseButton', button: 0 }]);
+    actions.setBindings('jump', [{ type: 'gamepadButton', button: 0 }]);
+    const saved = actions.saveBindings();
+
+    const other = new Actions(input);
+    other.add('jump', [{ type: 'key', key: 'Space' }]);
+    other.add('fire', []);
+    other.loadBindings(saved);
+
+    expect(other.getBindings('jump')).toEqual([{ type: 'gamepadButton', button: 0 }]);
+    expect(other.getBindings('fire')).toEqual([{ type: 'mouseButton', button: 0 }]);
+  });
+
+  it('should throw on invalid bindings', () => {
+    actions.add('jump', [{ type: 'key', key: 'Space' }]);
+
+    expect(() => actions.loadBindings('{"jump":[{"type":"key"}]}')).toThrow();
+    expect(actions.getBindings('jump')).toEqual([{ type: 'key', key: 'Space' }]);
+  });
+
+  it('should throw for unknown actions', () => {
+    expect(() => actions.isDown('missing')).toThrow();
+  });
+});
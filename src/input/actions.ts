@@ -0,0 +1,659 @@
+import type { EmitHandler } from '../emitter/emitter.js';
+import { applyDeadzone } from '../math/mathUtils.js';
+import type { Vec2 } from '../math/vec2.js';
+import type { Input, InputEvents } from './input.js';
+import type { KeyCode } from './keyCode.js';
+
+/**
+ * A binding to a single input.
+ */
+export type InputBinding =
+  | {
+      type: 'key';
+      key: (typeof KeyCode)[keyof typeof KeyCode];
+    }
+  | {
+      type: 'mouseButton';
+      button: number;
+    }
+  | {
+      type: 'gamepadButton';
+      button: number;
+
+      /**
+       * Only listen to this gamepad. Listens to all gamepads if not set.
+       */
+      gamepad?: number;
+    }
+  | {
+      type: 'gamepadAxis';
+      axis: number;
+
+      /**
+       * Only use one side of the axis. The value is then 0 - 1. Uses the full -1 - 1 range if not set.
+       */
+      direction?: 1 | -1;
+
+      /**
+       * Only listen to this gamepad. Listens to all gamepads if not set.
+       */
+      gamepad?: number;
+    }
+  | {
+      /**
+       * Active while a touch is inside the zone. The zone is in logical pixels.
+       */
+      type: 'touchZone';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    };
+
+/**
+ * A binding for an action. A composite binding turns two inputs into an axis, for example the left and right arrow
+ * keys. Its value is the positive value minus the negative value.
+ */
+export type ActionBinding =
+  | InputBinding
+  | {
+      type: 'composite';
+      negative: InputBinding;
+      positive: InputBinding;
+    };
+
+/**
+ * The input types that can be captured with `captureBinding`.
+ */
+export type CaptureType = 'key' | 'mouseButton' | 'gamepadButton' | 'gamepadAxis';
+
+/**
+ * Options for an action.
+ */
+export type ActionOptions = {
+  /**
+   * Analog values closer to 0 than this are ignored. The rest of the range is scaled back to 0 - 1. Defaults to 0.2.
+   */
+  deadzone?: number;
+
+  /**
+   * The absolute value at which the action counts as down. Defaults to 0.5.
+   */
+  threshold?: number;
+};
+
+type Action = {
+  bindings: ActionBinding[];
+  deadzone: number;
+  threshold: number;
+  value: number;
+  down: boolean;
+  wasDown: boolean;
+};
+
+type Axis2D = {
+  x: string;
+  y: string;
+};
+
+const DEFAULT_DEADZONE = 0.2;
+
+const DEFAULT_THRESHOLD = 0.5;
+
+/**
+ * The value an analog input needs to reach before it is captured as a binding.
+ */
+const CAPTURE_THRESHOLD = 0.5;
+
+/**
+ * Named actions bound to keys, mouse buttons, gamepad buttons and axes and touch zones. Query actions by name
+ * instead of checking raw inputs, so players can rebind them.
+ *
+ * The action states are updated once per frame. A press and release within one frame still counts as a press.
+ */
+export class Actions {
+  private readonly input: Input;
+
+  private readonly actions = new Map<string, Action>();
+
+  private readonly axes = new Map<string, Axis2D>();
+
+  private readonly keys = new Set<string>();
+
+  /**
+   * Keys pressed since the last update. Keeps short taps that are released before the update.
+   */
+  private readonly tappedKeys = new Set<string>();
+
+  private readonly mouseButtons = new Set<number>();
+
+  private readonly tappedMouseButtons = new Set<number>();
+
+  /**
+   * Button values per gamepad index.
+   */
+  private readonly gamepadButtons = new Map<number, Map<number, number>>();
+
+  /**
+   * Axis values per gamepad index.
+   */
+  private readonly gamepadAxes = new Map<number, Map<number, number>>();
+
+  /**
+   * Touch positions by touch id.
+   */
+  private readonly touches = new Map<number, { x: number; y: number }>();
+
+  private readonly tappedTouches: { x: number; y: number }[] = [];
+
+  private readonly handlers: [keyof InputEvents, EmitHandler][] = [];
+
+  private capture?: {
+    types: CaptureType[];
+    resolve: (binding: ActionBinding | undefined) => void;
+  };
+
+  /**
+   * Create a new action map.
+   * @param input - The input to read from.
+   */
+  constructor(input: Input) {
+    this.input = input;
+
+    this.handlers.push(
+      ['keyPressed', input.onPersistent({ event: 'keyPressed', callback: this.onKeyPressed })],
+      ['keyReleased', input.onPersistent({ event: 'keyReleased', callback: this.onKeyReleased })],
+      ['mousePressed', input.onPersistent({ event: 'mousePressed', callback: this.onMousePressed })],
+      ['mouseReleased', input.onPersistent({ event: 'mouseReleased', callback: this.onMouseReleased })],
+      ['touchPressed', input.onPersistent({ event: 'touchPressed', callback: this.onTouchPressed })],
+      ['touchMoved', input.onPersistent({ event: 'touchMoved', callback: this.onTouchMoved })],
+      ['touchReleased', input.onPersistent({ event: 'touchReleased', callback: this.onTouchReleased })],
+      ['gamepadButton', input.onPersistent({ event: 'gamepadButton', callback: this.onGamepadButton })],
+      ['gamepadAxis', input.onPersistent({ event: 'gamepadAxis', callback: this.onGamepadAxis })],
+      [
+        'gamepadDisconnected',
+        input.onPersistent({ event: 'gamepadDisconnected', callback: this.onGamepadDisconnected }),
+      ],
+    );
+  }
+
+  /**
+   * Add an action. Replaces the action if it already exists.
+   * @param name - The action name.
+   * @param bindings - The inputs that trigger the action.
+   * @param options - The deadzone and threshold.
+   */
+  add(name: string, bindings: ActionBinding[], options: ActionOptions = {}): void {
+    this.actions.set(name, {
+      bindings: [...bindings],
+      deadzone: options.deadzone ?? DEFAULT_DEADZONE,
+      threshold: options.threshold ?? DEFAULT_THRESHOLD,
+      value: 0,
+      down: false,
+      wasDown: false,
+    });
+  }
+
+  /**
+   * Add a 2D axis made of two actions, for example movement with "moveX" and "moveY".
+   * @param name - The axis name.
+   * @param x - The action for the horizontal value.
+   * @param y - The action for the vertical value.
+   */
+  addAxis2D(name: string, x: string, y: string): void {
+    this.axes.set(name, { x, y });
+  }
+
+  /**
+   * Remove an action.
+   * @param name - The action name.
+   */
+  remove(name: string): void {
+    this.actions.delete(name);
+  }
+
+  /**
+   * Check if an action exists.
+   * @param name - The action name.
+   * @returns True if the action exists.
+   */
+  has(name: string): boolean {
+    return this.actions.has(name);
+  }
+
+  /**
+   * Get the bindings of an action.
+   * @param name - The action name.
+   * @returns A copy of the bindings.
+   */
+  getBindings(name: string): ActionBinding[] {
+    return [...this.getAction(name).bindings];
+  }
+
+  /**
+   * Replace the bindings of an action.
+   * @param name - The action name.
+   * @param bindings - The new bindings.
+   */
+  setBindings(name: string, bindings: ActionBinding[]): void {
+    this.getAction(name).bindings = [...bindings];
+  }
+
+  /**
+   * Add a binding to an action.
+   * @param name - The action name.
+   * @param binding - The binding to add.
+   */
+  addBinding(name: string, binding: ActionBinding): void {
+    this.getAction(name).bindings.push(binding);
+  }
+
+  /**
+   * Remove a binding from an action.
+   * @param name - The action name.
+   * @param index - The index of the binding in the action bindings.
+   */
+  removeBinding(name: string, index: number): void {
+    this.getAction(name).bindings.splice(index, 1);
+  }
+
+  /**
+   * Is the action down this frame.
+   * @param name - The action name.
+   * @returns True if the action is down.
+   */
+  isDown(name: string): boolean {
+    return this.getAction(name).down;
+  }
+
+  /**
+   * Did the action go down this frame.
+   * @param name - The action name.
+   * @returns True if the action was pressed this frame.
+   */
+  justPressed(name: string): boolean {
+    const action = this.getAction(name);
+
+    return action.down && !action.wasDown;
+  }
+
+  /**
+   * Did the action go up this frame.
+   * @param name - The action name.
+   * @returns True if the action was released this frame.
+   */
+  justReleased(name: string): boolean {
+    const action = this.getAction(name);
+
+    return !action.down && action.wasDown;
+  }
+
+  /**
+   * Get the value of an action. Digital inputs are 0 or 1. Axes and composite bindings are -1 - 1.
+   * When multiple bindings are active the value furthest from 0 is used.
+   * @param name - The action name.
+   * @returns The action value.
+   */
+  value(name: string): number {
+    return this.getAction(name).value;
+  }
+
+  /**
+   * Get the value of a 2D axis. The length is at most 1, so diagonals are not faster than straight movement.
+   * @param name - The axis name.
+   * @param out - The vector to store the value in.
+   * @returns The out vector.
+   */
+  axis2D(name: string, out: Vec2): Vec2 {
+    const axis = this.axes.get(name);
+    if (!axis) {
+      throw new Error(`2D axis "${name}" does not exist`);
+    }
+
+    const x = this.value(axis.x);
+    const y = this.value(axis.y);
+    const length = Math.sqrt(x * x + y * y);
+    const scale = length > 1 ? 1 / length : 1;
+    out.set(x * scale, y * scale);
+
+    return out;
+  }
+
+  /**
+   * Update the action states from the input state. Core calls this at the start of every frame.
+   */
+  update(): void {
+    for (const action of this.actions.values()) {
+      let value = 0;
+      for (const binding of action.bindings) {
+        const bindingValue = this.getBindingValue(binding, action.deadzone);
+        if (Math.abs(bindingValue) > Math.abs(value)) {
+          value = bindingValue;
+        }
+      }
+
+      action.wasDown = action.down;
+      action.value = value;
+      action.down = Math.abs(value) >= action.threshold;
+    }
+
+    this.tappedKeys.clear();
+    this.tappedMouseButtons.clear();
+    this.tappedTouches.length = 0;
+  }
+
+  /**
+   * Release all inputs. Use this when the game loses focus so no actions stay down. Gamepads are polled, so their
+   * buttons and axes are read again from the current gamepad state instead of being released.
+   */
+  reset(): void {
+    this.keys.clear();
+    this.tappedKeys.clear();
+    this.mouseButtons.clear();
+    this.tappedMouseButtons.clear();
+    this.gamepadButtons.clear();
+    this.gamepadAxes.clear();
+    this.touches.clear();
+    this.tappedTouches.length = 0;
+
+    // Gamepad events only fire when a value changes, so a stick held through the reset would read 0 until it moves.
+    for (const [index, state] of Object.entries(this.input.getGamepadStates())) {
+      this.gamepadButtons.set(Number(index), toValueMap(state.buttons));
+      this.gamepadAxes.set(Number(index), toValueMap(state.axes));
+    }
+  }
+
+  /**
+   * Wait for the next key, mouse button, gamepad button or gamepad axis and return it as a binding. Use this to
+   * let players rebind actions.
+   * @param types - The input types to listen for. Listens for all types if not set.
+   * @returns A promise that resolves with the binding, or undefined when the capture is cancelled.
+   */
+  captureBinding(types?: CaptureType[]): Promise<ActionBinding | undefined> {
+    this.cancelCapture();
+
+    return new Promise((resolve) => {
+      this.capture = { types: types ?? ['key', 'mouseButton', 'gamepadButton', 'gamepadAxis'], resolve };
+    });
+  }
+
+  /**
+   * Stop waiting for a binding. The capture promise resolves with undefined.
+   */
+  cancelCapture(): void {
+    const capture = this.capture;
+    this.capture = undefined;
+    capture?.resolve(undefined);
+  }
+
+  /**
+   * Save the bindings of all actions.
+   * @returns The bindings as a JSON string.
+   */
+  saveBindings(): string {
+    const bindings: Record<string, ActionBinding[]> = {};
+    for (const [name, action] of this.actions) {
+      bindings[name] = action.bindings;
+    }
+
+    return JSON.stringify(bindings);
+  }
+
+  /**
+   * Load bindings saved with `saveBindings`. Actions that are not in the saved data keep their bindings and saved
+   * actions that don't exist are ignored.
+   * @param json - The saved bindings.
+   */
+  loadBindings(json: string): void {
+    const data = JSON.parse(json) as unknown;
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error('Invalid bindings data');
+    }
+
+    // Validate everything first so invalid data doesn't leave the actions half loaded.
+    const loaded: [Action, ActionBinding[]][] = [];
+    for (const [name, bindings] of Object.entries(data)) {
+      const action = this.actions.get(name);
+      if (!action) {
+        continue;
+      }
+
+      if (!Array.isArray(bindings) || !bindings.every(isActionBinding)) {
+        throw new Error(`Invalid bindings for action "${name}"`);
+      }
+      loaded.push([action, bindings]);
+    }
+
+    for (const [action, bindings] of loaded) {
+      action.bindings = bindings;
+    }
+  }
+
+  /**
+   * Stop listening to input.
+   */
+  destroy(): void {
+    this.cancelCapture();
+    for (const [event, handler] of this.handlers) {
+      this.input.off(event, handler);
+    }
+    this.handlers.length = 0;
+  }
+
+  /**
+   * Get an action by name.
+   * @param name - The action name.
+   * @returns The action.
+   */
+  private getAction(name: string): Action {
+    const action = this.actions.get(name);
+    if (!action) {
+      throw new Error(`Action "${name}" does not exist`);
+    }
+
+    return action;
+  }
+
+  /**
+   * Get the current value of a binding.
+   * @param binding - The binding.
+   * @param deadzone - The deadzone for analog values.
+   * @returns The value.
+   */
+  private getBindingValue(binding: ActionBinding, deadzone: number): number {
+    switch (binding.type) {
+      case 'key':
+        return this.keys.has(binding.key) || this.tappedKeys.has(binding.key) ? 1 : 0;
+
+      case 'mouseButton':
+        return this.mouseButtons.has(binding.button) || this.tappedMouseButtons.has(binding.button) ? 1 : 0;
+
+      case 'gamepadButton':
+        return applyDeadzone(this.getGamepadValue(this.gamepadButtons, binding.button, binding.gamepad), deadzone);
+
+      case 'gamepadAxis': {
+        let value = this.getGamepadValue(this.gamepadAxes, binding.axis, binding.gamepad);
+        if (binding.direction) {
+          value = Math.max(0, value * binding.direction);
+        }
+
+        return applyDeadzone(value, deadzone);
+      }
+
+      case 'touchZone': {
+        const inside = (point: { x: number; y: number }): boolean =>
+          point.x >= binding.x &&
+          point.x < binding.x + binding.width &&
+          point.y >= binding.y &&
+          point.y < binding.y + binding.height;
+
+        return [...this.touches.values()].some(inside) || this.tappedTouches.some(inside) ? 1 : 0;
+      }
+
+      case 'composite':
+        return this.getBindingValue(binding.positive, deadzone) - this.getBindingValue(binding.negative, deadzone);
+    }
+  }
+
+  /**
+   * Get a gamepad button or axis value.
+   * @param values - The values per gamepad.
+   * @param index - The button or axis index.
+   * @param gamepad - The gamepad index or undefined to use the value furthest from 0 of all gamepads.
+   * @returns The value.
+   */
+  private getGamepadValue(values: Map<number, Map<number, number>>, index: number, gamepad?: number): number {
+    if (gamepad !== undefined) {
+      return values.get(gamepad)?.get(index) ?? 0;
+    }
+
+    let result = 0;
+    for (const pad of values.values()) {
+      const value = pad.get(index) ?? 0;
+      if (Math.abs(value) > Math.abs(result)) {
+        result = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Finish a binding capture if it listens for the type.
+   * @param type - The input type.
+   * @param binding - The captured binding.
+   */
+  private captureInput(type: CaptureType, binding: ActionBinding): void {
+    if (this.capture?.types.includes(type)) {
+      const capture = this.capture;
+      this.capture = undefined;
+      capture.resolve(binding);
+    }
+  }
+
+  private onKeyPressed = (keyCode: (typeof KeyCode)[keyof typeof KeyCode]): void => {
+    this.keys.add(keyCode);
+    this.tappedKeys.add(keyCode);
+    this.captureInput('key', { type: 'key', key: keyCode });
+  };
+
+  private onKeyReleased = (keyCode: (typeof KeyCode)[keyof typeof KeyCode]): void => {
+    this.keys.delete(keyCode);
+  };
+
+  private onMousePressed = (button: number): void => {
+    this.mouseButtons.add(button);
+    this.tappedMouseButtons.add(button);
+    this.captureInput('mouseButton', { type: 'mouseButton', button });
+  };
+
+  private onMouseReleased = (button: number): void => {
+    this.mouseButtons.delete(button);
+  };
+
+  private onTouchPressed = (id: number, x: number, y: number): void => {
+    this.touches.set(id, { x, y });
+    this.tappedTouches.push({ x, y });
+  };
+
+  private onTouchMoved = (id: number, x: number, y: number): void => {
+    const touch = this.touches.get(id);
+    if (touch) {
+      touch.x = x;
+      touch.y = y;
+    }
+  };
+
+  private onTouchReleased = (id: number): void => {
+    this.touches.delete(id);
+  };
+
+  private onGamepadButton = (index: number, button: number, value: number): void => {
+    let buttons = this.gamepadButtons.get(index);
+    if (!buttons) {
+      buttons = new Map();
+      this.gamepadButtons.set(index, buttons);
+    }
+    buttons.set(button, value);
+
+    if (value >= CAPTURE_THRESHOLD) {
+      this.captureInput('gamepadButton', { type: 'gamepadButton', button });
+    }
+  };
+
+  private onGamepadAxis = (index: number, axis: number, value: number): void => {
+    let axes = this.gamepadAxes.get(index);
+    if (!axes) {
+      axes = new Map();
+      this.gamepadAxes.set(index, axes);
+    }
+    axes.set(axis, value);
+
+    if (Math.abs(value) >= CAPTURE_THRESHOLD) {
+      this.captureInput('gamepadAxis', { type: 'gamepadAxis', axis, direction: value > 0 ? 1 : -1 });
+    }
+  };
+
+  private onGamepadDisconnected = (index: number): void => {
+    this.gamepadButtons.delete(index);
+    this.gamepadAxes.delete(index);
+  };
+}
+
+/**
+ * Convert gamepad button or axis values from the input polling state to a map by index.
+ * @param values - The values by index.
+ * @returns The values in a map.
+ */
+function toValueMap(values: Record<number, number>): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const [index, value] of Object.entries(values)) {
+    map.set(Number(index), value);
+  }
+
+  return map;
+}
+
+/**
+ * Check if a value from saved data is a valid input binding.
+ * @param value - The value to check.
+ * @returns True if the value is an input binding.
+ */
+function isInputBinding(value: unknown): value is InputBinding {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const binding = value as Record<string, unknown>;
+  switch (binding.type) {
+    case 'key':
+      return typeof binding.key === 'string';
+
+    case 'mouseButton':
+    case 'gamepadButton':
+      return typeof binding.button === 'number';
+
+    case 'gamepadAxis':
+      return typeof binding.axis === 'number';
+
+    case 'touchZone':
+      return ['x', 'y', 'width', 'height'].every((key) => typeof binding[key] === 'number');
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check if a value from saved data is a valid action binding.
+ * @param value - The value to check.
+ * @returns True if the value is an action binding.
+ */
+function isActionBinding(value: unknown): value is ActionBinding {
+  const binding = value as Record<string, unknown> | null;
+  if (binding?.type === 'composite') {
+    return isInputBinding(binding.negative) && isInputBinding(binding.positive);
+  }
+
+  return isInputBinding(value);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyGamepadMapping,
+  GamepadAxis,
+  GamepadButton,
+  GamepadMappings,
+  getVendorProduct,
+  parseGamepadMapping,
+} from './gamepadMapping.js';
+
+const PS3_MAPPING =
+  '030000004c0500006802000000000000,PS3 Controller,a:b14,b:b13,x:b15,y:b12,back:b0,start:b3,' +
+  'leftx:a0,lefty:a1,rightx:a2,righty:a3~,lefttrigger:a12,righttrigger:+a13,dpup:h0.1,platform:Linux,';
+
+describe('parseGamepadMapping', () => {
+  it('should read the device ids from the GUID', () => {
+    const mapping = parseGamepadMapping(PS3_MAPPING);
+
+    expect(mapping.name).toBe('PS3 Controller');
+    expect(mapping.vendor).toBe('054c');
+    expect(mapping.product).toBe('0268');
+  });
+
+  it('should parse button and axis sources', () => {
+    const mapping = parseGamepadMapping(PS3_MAPPING);
+
+    expect(mapping.buttons.get(GamepadButton.A)).toEqual({ type: 'button', index: 14 });
+    expect(mapping.axes.get(GamepadAxis.RightY)).toEqual({ type: 'axis', index: 3, half: undefined, invert: true });
+    expect(mapping.buttons.get(GamepadButton.RightTrigger)).toEqual({
+      type: 'axis',
+      index: 13,
+      half: 1,
+      invert: false,
+    });
+  });
+
+  it('should skip hat sources', () => {
+    expect(parseGamepadMapping(PS3_MAPPING).buttons.has(GamepadButton.DpadUp)).toBe(false);
+  });
+
+  it('should throw on an invalid GUID', () => {
+    expect(() => parseGamepadMapping('1234,Pad,a:b0')).toThrow();
+  });
+});
+
+describe('getVendorProduct', () => {
+  it('should read the Chrome id format', () => {
+    expect(getVendorProduct('PS3 Controller (STANDARD GAMEPAD Vendor: 054c Product: 0268)')).toEqual({
+      vendor: '054c',
+      product: '0268',
+    });
+  });
+
+  it('should read the Firefox id format', () => {
+    expect(getVendorProduct('54c-268-PLAYSTATION(R)3 Controller')).toEqual({ vendor: '054c', product: '0268' });
+  });
+
+  it('should return undefined without ids', () => {
+    expect(getVendorProduct('Generic Pad')).toBeUndefined();
+  });
+});
+
+describe('applyGamepadMapping', () => {
+  it('should convert device values to the standard layout', () => {
+    const mapping = parseGamepadMapping(PS3_MAPPING);
+    const buttons = new Array(16).fill(0);
+    buttons[14] = 1;
+    const axes = new Array(14).fill(0);
+    axes[3] = 0.5;
+    axes[12] = -1;
+    axes[13] = 0.8;
+
+    const out = applyGamepadMapping({ buttons, axes }, mapping, { buttons: [], axes: [] });
+
+    expect(out.buttons[GamepadButton.A]).toBe(1);
+    expect(out.buttons[GamepadButton.B]).toBe(0);
+    expect(out.buttons[GamepadButton.LeftTrigger]).toBe(0);
+    expect(out.buttons[GamepadButton.RightTrigger]).toBeCloseTo(0.8);
+    expect(out.axes[GamepadAxis.RightY]).toBe(-0.5);
+  });
+});
+
+describe('GamepadMappings', () => {
+  it('should find mappings by gamepad id', () => {
+    const mappings = new GamepadMappings();
+    mappings.add(`# Comment\n\n${PS3_MAPPING}\n`);
+
+    expect(mappings.find('54c-268-PLAYSTATION(R)3 Controller')?.name).toBe('PS3 Controller');
+    expect(mappings.find('45e-28e-Xbox 360 Controller')).toBeUndefined();
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Gamepad buttons in the W3C standard gamepad layout. The values are the standard button indices.
+ */
+export const GamepadButton = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LeftBumper: 4,
+  RightBumper: 5,
+  LeftTrigger: 6,
+  RightTrigger: 7,
+  Back: 8,
+  Start: 9,
+  LeftStick: 10,
+  RightStick: 11,
+  DpadUp: 12,
+  DpadDown: 13,
+  DpadLeft: 14,
+  DpadRight: 15,
+  Guide: 16,
+} as const;
+
+/**
+ * Gamepad axes in the W3C standard gamepad layout. The values are the standard axis indices.
+ */
+export const GamepadAxis = {
+  LeftX: 0,
+  LeftY: 1,
+  RightX: 2,
+  RightY: 3,
+} as const;
+
+export const STANDARD_BUTTON_COUNT = 17;
+
+export const STANDARD_AXIS_COUNT = 4;
+
+/**
+ * Where a standard button or axis reads its value from on the device.
+ */
+export type MappingSource =
+  | {
+      type: 'button';
+      index: number;
+    }
+  | {
+      type: 'axis';
+      index: number;
+
+      /**
+       * Only use one half of the axis. 1 is the positive half, -1 the negative half.
+       */
+      half?: 1 | -1;
+
+      /**
+       * Flip the axis direction.
+       */
+      invert: boolean;
+    };
+
+/**
+ * A device layout mapped to the standard layout.
+ */
+export type GamepadMapping = {
+  /**
+   * The SDL GUID of the device.
+   */
+  guid: string;
+
+  /**
+   * The device name.
+   */
+  name: string;
+
+  /**
+   * The USB vendor id as a 4 character hex string.
+   */
+  vendor: string;
+
+  /**
+   * The USB product id as a 4 character hex string.
+   */
+  product: string;
+
+  /**
+   * The sources by standard button index.
+   */
+  buttons: Map<number, MappingSource>;
+
+  /**
+   * The sources by standard axis index.
+   */
+  axes: Map<number, MappingSource>;
+};
+
+/**
+ * The raw values of a device.
+ */
+export type RawGamepadState = {
+  buttons: readonly number[];
+  axes: readonly number[];
+};
+
+/**
+ * SDL mapping names to standard button indices.
+ */
+const SDL_BUTTONS: Record<string, number> = {
+  a: GamepadButton.A,
+  b: GamepadButton.B,
+  x: GamepadButton.X,
+  y: GamepadButton.Y,
+  leftshoulder: GamepadButton.LeftBumper,
+  rightshoulder: GamepadButton.RightBumper,
+  lefttrigger: GamepadButton.LeftTrigger,
+  righttrigger: GamepadButton.RightTrigger,
+  back: GamepadButton.Back,
+  start: GamepadButton.Start,
+  leftstick: GamepadButton.LeftStick,
+  rightstick: GamepadButton.RightStick,
+  dpup: GamepadButton.DpadUp,
+  dpdown: GamepadButton.DpadDown,
+  dpleft: GamepadButton.DpadLeft,
+  dpright: GamepadButton.DpadRight,
+  guide: GamepadButton.Guide,
+};
+
+/**
+ * SDL mapping names to standard axis indices.
+ */
+const SDL_AXES: Record<string, number> = {
+  leftx: GamepadAxis.LeftX,
+  lefty: GamepadAxis.LeftY,
+  rightx: GamepadAxis.RightX,
+  righty: GamepadAxis.RightY,
+};
+
+/**
+ * Parse an SDL game controller mapping string, for example from the SDL_GameControllerDB.
+ * Hat sources are not supported because browsers report hats as axes or buttons.
+ * @param line - The mapping string: `guid,name,target:source,...`.
+ * @returns The parsed mapping.
+ */
+export function parseGamepadMapping(line: string): GamepadMapping {
+  const parts = line.trim().split(',');
+  const guid = parts[0]?.toLowerCase() ?? '';
+  if (!/^[0-9a-f]{32}$/.test(guid) || parts.length < 2) {
+    throw new Error(`Invalid gamepad mapping: ${line}`);
+  }
+
+  const mapping: GamepadMapping = {
+    guid,
+    name: parts[1],
+    // The GUID stores the ids as little endian 16 bit values.
+    vendor: guid.slice(10, 12) + guid.slice(8, 10),
+    product: guid.slice(18, 20) + guid.slice(16, 18),
+    buttons: new Map(),
+    axes: new Map(),
+  };
+
+  for (const part of parts.slice(2)) {
+    const [target, sourceString] = part.split(':');
+    if (!target || !sourceString) {
+      continue;
+    }
+
+    const source = parseSource(sourceString);
+    if (!source) {
+      continue;
+    }
+
+    if (SDL_BUTTONS[target] !== undefined) {
+      mapping.buttons.set(SDL_BUTTONS[target], source);
+    } else if (SDL_AXES[target] !== undefined) {
+      mapping.axes.set(SDL_AXES[target], source);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Get the USB vendor and product ids from a browser gamepad id.
+ * @param id - The `Gamepad.id` string. Chrome uses `Name (Vendor: 054c Product: 0268)` and Firefox `54c-268-Name`.
+ * @returns The 4 character hex ids or undefined if the id doesn't contain them.
+ */
+export function getVendorProduct(id: string): { vendor: string; product: string } | undefined {
+  const match =
+    /Vendor: ([0-9a-f]{1,4}) Product: ([0-9a-f]{1,4})/i.exec(id) ?? /^([0-9a-f]{1,4})-([0-9a-f]{1,4})-/i.exec(id);
+  if (!match) {
+    return undefined;
+  }
+
+  return { vendor: match[1].toLowerCase().padStart(4, '0'), product: match[2].toLowerCase().padStart(4, '0') };
+}
+
+/**
+ * Convert raw device values to the standard layout.
+ * @param raw - The device values.
+ * @param mapping - The device mapping.
+ * @param out - The state to store the standard values in. Buttons are 0 - 1 and axes -1 - 1.
+ * @returns The out state.
+ */
+export function applyGamepadMapping(
+  raw: RawGamepadState,
+  mapping: GamepadMapping,
+  out: { buttons: number[]; axes: number[] },
+): { buttons: number[]; axes: number[] } {
+  for (let i = 0; i < STANDARD_BUTTON_COUNT; i++) {
+    const source = mapping.buttons.get(i);
+    // Full range axes used as buttons, like most triggers, rest at -1.
+    out.buttons[i] = source ? Math.max(0, readSource(raw, source, true)) : 0;
+  }
+
+  for (let i = 0; i < STANDARD_AXIS_COUNT; i++) {
+    const source = mapping.axes.get(i);
+    out.axes[i] = source ? readSource(raw, source, false) : 0;
+  }
+
+  return out;
+}
+
+/**
+ * A collection of gamepad mappings for devices that don't use the standard layout.
+ */
+export class GamepadMappings {
+  private readonly mappings = new Map<string, GamepadMapping>();
+
+  /**
+   * Add mappings. Later mappings for the same device replace earlier ones.
+   * @param text - One SDL mapping string per line. Empty lines and lines starting with `#` are skipped.
+   */
+  add(text: string): void {
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed === '' || trimmed.startsWith('#')) {
+        continue;
+      }
+
+      const mapping = parseGamepadMapping(trimmed);
+      this.mappings.set(`${mapping.vendor}:${mapping.product}`, mapping);
+    }
+  }
+
+  /**
+   * Find the mapping for a browser gamepad.
+   * @param id - The `Gamepad.id` string.
+   * @returns The mapping or undefined if there is no mapping for the device.
+   */
+  find(id: string): GamepadMapping | undefined {
+    const ids = getVendorProduct(id);
+    if (!ids) {
+      return undefined;
+    }
+
+    return this.mappings.get(`${ids.vendor}:${ids.product}`);
+  }
+
+  /**
+   * Remove all mappings.
+   */
+  clear(): void {
+    this.mappings.clear();
+  }
+}
+
+/**
+ * Parse a mapping source like `b3`, `a1`, `a2~`, `+a4` or `-a4`.
+ * @param value - The source string.
+ * @returns The source or undefined if it is not supported.
+ */
+function parseSource(value: string): MappingSource | undefined {
+  const match = /^([+-]?)([ab])(\d+)(~?)$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, half, type, index, invert] = match;
+  if (type === 'b') {
+    return { type: 'button', index: Number(index) };
+  }
+
+  return {
+    type: 'axis',
+    index: Number(index),
+    half: half === '+' ? 1 : half === '-' ? -1 : undefined,
+    invert: invert === '~',
+  };
+}
+
+/**
+ * Read a value from the device.
+ * @param raw - The device values.
+ * @param source - Where to read.
+ * @param asButton - Map full range axes to 0 - 1.
+ * @returns The value.
+ */
+function readSource(raw: RawGamepadState, source: MappingSource, asButton: boolean): number {
+  if (source.type === 'button') {
+    return raw.buttons[source.index] ?? 0;
+  }
+
+  let value = raw.axes[source.index] ?? 0;
+  if (source.invert) {
+    value = -value;
+  }
+
+  if (source.half !== undefined) {
+    return Math.max(0, value * source.half);
+  }
+
+  return asButton ? (value + 1) / 2 : value;
+}
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Vec2 } from '../math/vec2.js';
+import { GamepadAxis, GamepadButton } from './gamepadMapping.js';
+import { applyAxialDeadzone, applyRadialDeadzone, Gamepads } from './gamepads.js';
+
+/**
+ * Create a fake browser gamepad.
+ */
+function createGamepad(params: {
+  index?: number;
+  id?: string;
+  mapping?: string;
+  buttons?: number[];
+  axes?: number[];
+}): {
+  index: number;
+  id: string;
+  mapping: string;
+  connected: boolean;
+  buttons: { value: number; pressed: boolean; touched: boolean }[];
+  axes: number[];
+  vibrationActuator?: { playEffect: ReturnType<typeof vi.fn> };
+} {
+  return {
+    index: params.index ?? 0,
+    id: params.id ?? 'Standard Pad',
+    mapping: params.mapping ?? 'standard',
+    connected: true,
+    buttons: (params.buttons ?? new Array(17).fill(0)).map((value) => ({ value, pressed: value > 0, touched: false })),
+    axes: params.axes ?? [0, 0, 0, 0],
+  };
+}
+
+describe('Gamepads', () => {
+  let pads: ReturnType<typeof createGamepad>[];
+  let gamepads: Gamepads;
+
+  beforeEach(() => {
+    pads = [];
+    gamepads = new Gamepads({ getGamepads: () => pads as unknown as Gamepad[] });
+  });
+
+  it('should read standard gamepads', () => {
+    const buttons = new Array(17).fill(0);
+    buttons[GamepadButton.A] = 1;
+    pads.push(createGamepad({ buttons, axes: [0.5, 0, 0, 0] }));
+    gamepads.update();
+
+    expect(gamepads.isConnected(0)).toBe(true);
+    expect(gamepads.isMapped(0)).toBe(false);
+    expect(gamepads.isButtonDown(0, GamepadButton.A)).toBe(true);
+    expect(gamepads.wasButtonPressedThisFrame(0, GamepadButton.A)).toBe(true);
+    expect(gamepads.getAxis(0, GamepadAxis.LeftX)).toBe(0.5);
+
+    gamepads.update();
+    expect(gamepads.wasButtonPressedThisFrame(0, GamepadButton.A)).toBe(false);
+  });
+
+  it('should use the trigger threshold for triggers', () => {
+    gamepads.triggerThreshold = 0.8;
+    const buttons = new Array(17).fill(0);
+    buttons[GamepadButton.LeftTrigger] = 0.6;
+    pads.push(createGamepad({ buttons }));
+    gamepads.update();
+
+    expect(gamepads.getButton(0, GamepadButton.LeftTrigger)).toBe(0.6);
+    expect(gamepads.isButtonDown(0, GamepadButton.LeftTrigger)).toBe(false);
+  });
+
+  it('should ignore non standard gamepads without a mapping', () => {
+    pads.push(createGamepad({ id: '54c-268-PLAYSTATION(R)3 Controller', mapping: '' }));
+    gamepads.update();
+
+    expect(gamepads.isConnected(0)).toBe(false);
+  });
+
+  it('should map non standard gamepads with a mapping', () => {
+    gamepads.mappings.add('030000004c0500006802000000000000,PS3 Controller,a:b14,leftx:a0,');
+    const buttons = new Array(17).fill(0);
+    buttons[14] = 1;
+    pads.push(createGamepad({ id: '54c-268-PLAYSTATION(R)3 Controller', mapping: '', buttons, axes: [-1] }));
+    gamepads.update();
+
+    expect(gamepads.isMapped(0)).toBe(true);
+    expect(gamepads.isButtonDown(0, GamepadButton.A)).toBe(true);
+    expect(gamepads.getAxis(0, GamepadAxis.LeftX)).toBe(-1);
+  });
+
+  it('should remove disconnected gamepads', () => {
+    pads.push(createGamepad({}));
+    gamepads.update();
+    pads.length = 0;
+    gamepads.update();
+
+    expect(gamepads.getConnected()).toEqual([]);
+  });
+
+  it('should apply the deadzone to sticks', () => {
+    pads.push(createGamepad({ axes: [0.1, 0.05, 0, 0] }));
+    gamepads.update();
+
+    const out = gamepads.getStick(0, 'left', new Vec2());
+    expect(out.x).toBe(0);
+    expect(out.y).toBe(0);
+  });
+
+  it('should rumble when the gamepad supports it', () => {
+    const pad = createGamepad({});
+    const playEffect = vi.fn(() => Promise.resolve('complete'));
+    pad.vibrationActuator = { playEffect };
+    pads.push(pad);
+    gamepads.update();
+
+    gamepads.rumble(0, { duration: 0.2, strong: 1 });
+    expect(playEffect).toHaveBeenCalledWith('dual-rumble', { duration: 200, weakMagnitude: 0, strongMagnitude: 1 });
+  });
+
+  it('should not throw when rumble is not supported', () => {
+    pads.push(createGamepad({}));
+    gamepads.update();
+
+    expect(() => gamepads.rumble(0, { duration: 1 })).not.toThrow();
+  });
+});
+
+describe('applyRadialDeadzone', () => {
+  it('should keep the direction and rescale the length', () => {
+    const out = applyRadialDeadzone(0, 0.6, 0.2, new Vec2());
+
+    expect(out.x).toBe(0);
+    expect(out.y).toBeCloseTo(0.5);
+  });
+
+  it('should limit the length to 1', () => {
+    const out = applyRadialDeadzone(1, 1, 0.2, new Vec2());
+
+    expect(Math.sqrt(out.x * out.x + out.y * out.y)).toBeCloseTo(1);
+  });
+});
+
+describe('applyAxialDeadzone', () => {
+  it('should apply the deadzone to each axis', () => {
+    const out = applyAxialDeadzone(0.1, -0.6, 0.2, new Vec2());
+
+    expect(out.x).toBe(0);
+    expect(out.y).toBeCloseTo(-0.5);
+  });
+});
@@ -0,0 +1,361 @@
+import { applyDeadzone } from '../math/mathUtils.js';
+import type { Vec2 } from '../math/vec2.js';
+import {
+  applyGamepadMapping,
+  GamepadAxis,
+  GamepadButton,
+  GamepadMappings,
+  STANDARD_AXIS_COUNT,
+  STANDARD_BUTTON_COUNT,
+} from './gamepadMapping.js';
+
+/**
+ * How the stick deadzone is applied.
+ * - radial: Uses the distance from the center. Keeps the stick direction, good for movement.
+ * - axial: Uses each axis on its own. Makes it easier to hold a straight direction.
+ */
+export type DeadzoneMode = 'radial' | 'axial';
+
+export type GamepadsOptions = {
+  /**
+   * Stick values closer to the center than this are ignored. Defaults to 0.15.
+   */
+  deadzone?: number;
+
+  /**
+   * Defaults to 'radial'.
+   */
+  deadzoneMode?: DeadzoneMode;
+
+  /**
+   * The value at which the triggers count as down. Defaults to 0.5.
+   */
+  triggerThreshold?: number;
+
+  /**
+   * Get the connected gamepads. Defaults to `navigator.getGamepads`.
+   */
+  getGamepads?: () => (Gamepad | null)[];
+};
+
+/**
+ * A rumble effect.
+ */
+export type RumbleParams = {
+  /**
+   * The duration in seconds.
+   */
+  duration: number;
+
+  /**
+   * The strength of the high frequency motor (0 - 1).
+   */
+  weak?: number;
+
+  /**
+   * The strength of the low frequency motor (0 - 1).
+   */
+  strong?: number;
+};
+
+type PadState = {
+  gamepad: Gamepad;
+
+  /**
+   * True when the values are read with a mapping from the database instead of the browser standard mapping.
+   */
+  mapped: boolean;
+
+  buttons: number[];
+  axes: number[];
+  down: boolean[];
+  wasDown: boolean[];
+};
+
+const DEFAULT_DEADZONE = 0.15;
+
+const DEFAULT_TRIGGER_THRESHOLD = 0.5;
+
+const BUTTON_THRESHOLD = 0.5;
+
+/**
+ * Gamepads in the W3C standard layout. Pads the browser doesn't map are converted with a mapping from `mappings`.
+ * Pads without any mapping are not available here, but still send the raw `Input` events.
+ */
+export class Gamepads {
+  /**
+   * Mappings for gamepads the browser doesn't map to the standard layout. Add SDL mapping strings to support them.
+   */
+  readonly mappings = new GamepadMappings();
+
+  deadzone: number;
+
+  deadzoneMode: DeadzoneMode;
+
+  triggerThreshold: number;
+
+  private readonly pads = new Map<number, PadState>();
+
+  private readonly getGamepads: () => (Gamepad | null)[];
+
+  /**
+   * Create the gamepad manager.
+   * @param options - The deadzone and trigger options.
+   */
+  constructor({
+    deadzone = DEFAULT_DEADZONE,
+    deadzoneMode = 'radial',
+    triggerThreshold = DEFAULT_TRIGGER_THRESHOLD,
+    getGamepads = getNavigatorGamepads,
+  }: GamepadsOptions = {}) {
+    this.deadzone = deadzone;
+    this.deadzoneMode = deadzoneMode;
+    this.triggerThreshold = triggerThreshold;
+    this.getGamepads = getGamepads;
+  }
+
+  /**
+   * Read the gamepads. Core calls this at the start of every frame.
+   * @param gamepads - The gamepads to read. Defaults to the connected gamepads. Core passes the replayed gamepads
+   * during a replay.
+   */
+  update(gamepads: readonly (Gamepad | null)[] = this.getGamepads()): void {
+    const seen = new Set<number>();
+
+    for (const gamepad of gamepads) {
+      if (!gamepad?.connected) {
+        continue;
+      }
+
+      const mapping = gamepad.mapping === 'standard' ? undefined : this.mappings.find(gamepad.id);
+      if (gamepad.mapping !== 'standard' && !mapping) {
+        continue;
+      }
+
+      seen.add(gamepad.index);
+      let pad = this.pads.get(gamepad.index);
+      if (!pad) {
+        pad = {
+          gamepad,
+          mapped: false,
+          buttons: new Array(STANDARD_BUTTON_COUNT).fill(0),
+          axes: new Array(STANDARD_AXIS_COUNT).fill(0),
+          down: new Array(STANDARD_BUTTON_COUNT).fill(false),
+          wasDown: new Array(STANDARD_BUTTON_COUNT).fill(false),
+        };
+        this.pads.set(gamepad.index, pad);
+      }
+      pad.gamepad = gamepad;
+      pad.mapped = mapping !== undefined;
+
+      const buttons = gamepad.buttons.map((button) => button.value);
+      if (mapping) {
+        applyGamepadMapping({ buttons, axes: gamepad.axes }, mapping, pad);
+      } else {
+        for (let i = 0; i < STANDARD_BUTTON_COUNT; i++) {
+          pad.buttons[i] = buttons[i] ?? 0;
+        }
+        for (let i = 0; i < STANDARD_AXIS_COUNT; i++) {
+          pad.axes[i] = gamepad.axes[i] ?? 0;
+        }
+      }
+
+      for (let i = 0; i < STANDARD_BUTTON_COUNT; i++) {
+        const isTrigger = i === GamepadButton.LeftTrigger || i === GamepadButton.RightTrigger;
+        pad.wasDown[i] = pad.down[i];
+        pad.down[i] = pad.buttons[i] >= (isTrigger ? this.triggerThreshold : BUTTON_THRESHOLD);
+      }
+    }
+
+    for (const index of this.pads.keys()) {
+      if (!seen.has(index)) {
+        this.pads.delete(index);
+      }
+    }
+  }
+
+  /**
+   * Get the indices of the connected gamepads that have a standard layout.
+   * @returns The gamepad indices.
+   */
+  getConnected(): number[] {
+    return [...this.pads.keys()];
+  }
+
+  /**
+   * Check if a gamepad is connected and has a standard layout.
+   * @param index - The gamepad index.
+   * @returns True if the gamepad is available.
+   */
+  isConnected(index: number): boolean {
+    return this.pads.has(index);
+  }
+
+  /**
+   * Check if a gamepad uses a mapping from `mappings` instead of the browser standard mapping.
+   * @param index - The gamepad index.
+   * @returns True if the gamepad uses a mapping from the database.
+   */
+  isMapped(index: number): boolean {
+    return this.pads.get(index)?.mapped ?? false;
+  }
+
+  /**
+   * Get the value of a button.
+   * @param index - The gamepad index.
+   * @param button - The standard button.
+   * @returns The value (0 - 1). 0 if the gamepad is not connected.
+   */
+  getButton(index: number, button: (typeof GamepadButton)[keyof typeof GamepadButton]): number {
+    return this.pads.get(index)?.buttons[button] ?? 0;
+  }
+
+  /**
+   * Check if a button is down. Triggers use the trigger threshold.
+   * @param index - The gamepad index.
+   * @param button - The standard button.
+   * @returns True if the button is down.
+   */
+  isButtonDown(index: number, button: (typeof GamepadButton)[keyof typeof GamepadButton]): boolean {
+    return this.pads.get(index)?.down[button] ?? false;
+  }
+
+  /**
+   * Check if a button went down this frame.
+   * @param index - The gamepad index.
+   * @param button - The standard button.
+   * @returns True if the button was pressed.
+   */
+  wasButtonPressedThisFrame(index: number, button: (typeof GamepadButton)[keyof typeof GamepadButton]): boolean {
+    const pad = this.pads.get(index);
+    if (!pad) {
+      return false;
+    }
+
+    return pad.down[button] && !pad.wasDown[button];
+  }
+
+  /**
+   * Check if a button went up this frame.
+   * @param index - The gamepad index.
+   * @param button - The standard button.
+   * @returns True if the button was released.
+   */
+  wasButtonReleasedThisFrame(index: number, button: (typeof GamepadButton)[keyof typeof GamepadButton]): boolean {
+    const pad = this.pads.get(index);
+    if (!pad) {
+      return false;
+    }
+
+    return !pad.down[button] && pad.wasDown[button];
+  }
+
+  /**
+   * Get the raw value of an axis without a deadzone.
+   * @param index - The gamepad index.
+   * @param axis - The standard axis.
+   * @returns The value (-1 - 1). 0 if the gamepad is not connected.
+   */
+  getAxis(index: number, axis: (typeof GamepadAxis)[keyof typeof GamepadAxis]): number {
+    return this.pads.get(index)?.axes[axis] ?? 0;
+  }
+
+  /**
+   * Get the position of a stick with the deadzone applied.
+   * @param index - The gamepad index.
+   * @param stick - The stick.
+   * @param out - The vector to store the position in.
+   * @returns The out vector. The length is at most 1.
+   */
+  getStick(index: number, stick: 'left' | 'right', out: Vec2): Vec2 {
+    const x = this.getAxis(index, stick === 'left' ? GamepadAxis.LeftX : GamepadAxis.RightX);
+    const y = this.getAxis(index, stick === 'left' ? GamepadAxis.LeftY : GamepadAxis.RightY);
+
+    if (this.deadzoneMode === 'axial') {
+      return applyAxialDeadzone(x, y, this.deadzone, out);
+    }
+
+    return applyRadialDeadzone(x, y, this.deadzone, out);
+  }
+
+  /**
+   * Rumble a gamepad. Does nothing when the browser or the gamepad doesn't support it.
+   * @param index - The gamepad index.
+   * @param params - The rumble strength and duration.
+   */
+  rumble(index: number, { duration, weak = 0, strong = 0 }: RumbleParams): void {
+    const actuator = this.pads.get(index)?.gamepad.vibrationActuator;
+    if (!actuator?.playEffect) {
+      return;
+    }
+
+    actuator
+      .playEffect('dual-rumble', {
+        duration: duration * 1000,
+        weakMagnitude: weak,
+        strongMagnitude: strong,
+      })
+      .catch(() => {
+        // Rumble is optional. Some devices reject effects they can't play.
+      });
+  }
+
+  /**
+   * Stop rumbling a gamepad.
+   * @param index - The gamepad index.
+   */
+  stopRumble(index: number): void {
+    const actuator = this.pads.get(index)?.gamepad.vibrationActuator;
+    actuator?.reset?.().catch(() => {
+      // Nothing to stop.
+    });
+  }
+}
+
+/**
+ * Apply a deadzone to the distance of a stick from the center. The rest of the range is scaled back to 0 - 1.
+ * @param x - The x axis value.
+ * @param y - The y axis value.
+ * @param deadzone - The deadzone.
+ * @param out - The vector to store the result in.
+ * @returns The out vector.
+ */
+export function applyRadialDeadzone(x: number, y: number, deadzone: number, out: Vec2): Vec2 {
+  const length = Math.sqrt(x * x + y * y);
+  if (length <= deadzone) {
+    out.set(0, 0);
+
+    return out;
+  }
+
+  const scaled = Math.min(1, (length - deadzone) / (1 - deadzone));
+  out.set((x / length) * scaled, (y / length) * scaled);
+
+  return out;
+}
+
+/**
+ * Apply a deadzone to each axis of a stick. The rest of the range is scaled back to 0 - 1.
+ * @param x - The x axis value.
+ * @param y - The y axis value.
+ * @param deadzone - The deadzone.
+ * @param out - The vector to store the result in.
+ * @returns The out vector.
+ */
+export function applyAxialDeadzone(x: number, y: number, deadzone: number, out: Vec2): Vec2 {
+  out.set(applyDeadzone(x, deadzone), applyDeadzone(y, deadzone));
+
+  return out;
+}
+
+/**
+ * Get the gamepads from the browser.
+ * @returns The gamepads. Empty outside the browser.
+ */
+function getNavigatorGamepads(): (Gamepad | null)[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) {
+    return [];
+  }
+
+  return navigator.getGamepads();
+}
@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HeadlessCanvas } from '../headless/headlessCanvas.js';
+import { Gestures } from './gestures.js';
+import { Input } from './input.js';
+
+describe('Gestures', () => {
+  let input: Input;
+  let gestures: Gestures;
+
+  beforeEach(() => {
+    input = new Input(new HeadlessCanvas(400, 400).asElement());
+    gestures = new Gestures(input);
+  });
+
+  it('should recognize a tap', () => {
+    const tap = vi.fn();
+    gestures.on({ event: 'tap', callback: tap });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    gestures.update(0.1);
+    input.dispatch('touchReleased', 0, 102, 101, 0);
+
+    expect(tap).toHaveBeenCalledWith(102, 101);
+  });
+
+  it('should not tap when the touch is held too long', () => {
+    const tap = vi.fn();
+    gestures.on({ event: 'tap', callback: tap });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    gestures.update(0.4);
+    input.dispatch('touchReleased', 0, 100, 100, 0);
+
+    expect(tap).not.toHaveBeenCalled();
+  });
+
+  it('should recognize a double tap', () => {
+    const doubleTap = vi.fn();
+    gestures.on({ event: 'doubleTap', callback: doubleTap });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    input.dispatch('touchReleased', 0, 100, 100, 0);
+    gestures.update(0.1);
+    input.dispatch('touchPressed', 1, 105, 100, 1);
+    input.dispatch('touchReleased', 1, 105, 100, 0);
+
+    expect(doubleTap).toHaveBeenCalledWith(105, 100);
+  });
+
+  it('should recognize a long press once', () => {
+    const longPress = vi.fn();
+    gestures.on({ event: 'longPress', callback: longPress });
+
+    input.dispatch('touchPressed', 0, 50, 60, 1);
+    gestures.update(0.3);
+    expect(longPress).not.toHaveBeenCalled();
+
+    gestures.update(0.3);
+    gestures.update(0.3);
+    expect(longPress).toHaveBeenCalledTimes(1);
+    expect(longPress).toHaveBeenCalledWith(50, 60);
+  });
+
+  it('should recognize a swipe', () => {
+    const swipe = vi.fn();
+    gestures.on({ event: 'swipe', callback: swipe });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    gestures.update(0.1);
+    input.dispatch('touchMoved', 0, 40, 110, 1);
+    gestures.update(0.1);
+    input.dispatch('touchReleased', 0, 40, 110, 0);
+
+    expect(swipe).toHaveBeenCalledTimes(1);
+    const [direction, velocityX, velocityY] = swipe.mock.calls[0];
+    expect(direction).toBe('left');
+    expect(velocityX).toBeCloseTo(-300);
+    expect(velocityY).toBeCloseTo(50);
+  });
+
+  it('should not swipe when the touch is too slow', () => {
+    const swipe = vi.fn();
+    gestures.on({ event: 'swipe', callback: swipe });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    input.dispatch('touchMoved', 0, 100, 160, 1);
+    gestures.update(0.4);
+    input.dispatch('touchReleased', 0, 100, 160, 0);
+
+    expect(swipe).not.toHaveBeenCalled();
+  });
+
+  it('should pan with one finger', () => {
+    const events: string[] = [];
+    gestures.on({ event: 'panStart', callback: (x, y) => events.push(`start ${x} ${y}`) });
+    gestures.on({ event: 'pan', callback: (x, y, dx, dy) => events.push(`pan ${x} ${y} ${dx} ${dy}`) });
+    gestures.on({ event: 'panEnd', callback: (x, y) => events.push(`end ${x} ${y}`) });
+
+    input.dispatch('touchPressed', 0, 10, 10, 1);
+    input.dispatch('touchMoved', 0, 15, 10, 1);
+    input.dispatch('touchMoved', 0, 25, 10, 1);
+    input.dispatch('touchMoved', 0, 30, 15, 1);
+    input.dispatch('touchReleased', 0, 30, 15, 0);
+
+    expect(events).toEqual(['start 10 10', 'pan 25 10 15 0', 'pan 30 15 5 5', 'end 30 15']);
+  });
+
+  it('should pinch and rotate with two fingers', () => {
+    const pinch = vi.fn();
+    const rotate = vi.fn();
+    const pinchEnd = vi.fn();
+    const tap = vi.fn();
+    gestures.on({ event: 'pinch', callback: pinch });
+    gestures.on({ event: 'rotate', callback: rotate });
+    gestures.on({ event: 'pinchEnd', callback: pinchEnd });
+    gestures.on({ event: 'tap', callback: tap });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    input.dispatch('touchPressed', 1, 200, 100, 2);
+    input.dispatch('touchMoved', 1, 300, 100, 2);
+
+    const [scale, deltaScale, centerX, centerY] = pinch.mock.calls[0];
+    expect(scale).toBeCloseTo(2);
+    expect(deltaScale).toBeCloseTo(2);
+    expect(centerX).toBe(200);
+    expect(centerY).toBe(100);
+
+    input.dispatch('touchMoved', 1, 100, 300, 2);
+    expect(rotate.mock.calls[1][0]).toBeCloseTo(Math.PI / 2);
+
+    input.dispatch('touchReleased', 1, 100, 300, 1);
+    input.dispatch('touchReleased', 0, 100, 100, 0);
+    expect(pinchEnd).toHaveBeenCalledTimes(1);
+    expect(tap).not.toHaveBeenCalled();
+  });
+
+  it('should keep counting the rotation past a half turn', () => {
+    const rotate = vi.fn();
+    gestures.on({ event: 'rotate', callback: rotate });
+
+    input.dispatch('touchPressed', 0, 200, 200, 1);
+    input.dispatch('touchPressed', 1, 300, 200, 2);
+    for (const angle of [0.5, 1, 1.5, 2, 2.5, 3, 3.5]) {
+      const turn = angle * Math.PI * 0.5;
+      input.dispatch('touchMoved', 1, 200 + Math.cos(turn) * 100, 200 + Math.sin(turn) * 100, 2);
+    }
+
+    const [rotation, deltaRotation] = rotate.mock.calls[rotate.mock.calls.length - 1];
+    expect(rotation).toBeCloseTo(Math.PI * 1.75);
+    expect(deltaRotation).toBeCloseTo(Math.PI * 0.25);
+  });
+
+  it('should continue the pinch when one of the pinch touches is released', () => {
+    const pinch = vi.fn();
+    const pinchEnd = vi.fn();
+    gestures.on({ event: 'pinch', callback: pinch });
+    gestures.on({ event: 'pinchEnd', callback: pinchEnd });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    input.dispatch('touchPressed', 1, 200, 100, 2);
+    input.dispatch('touchMoved', 1, 300, 100, 2);
+    input.dispatch('touchPressed', 2, 300, 500, 3);
+    input.dispatch('touchReleased', 0, 100, 100, 2);
+
+    // The new pair of touch 1 and 2 starts twice as far apart and keeps the scale.
+    input.dispatch('touchMoved', 2, 300, 500, 2);
+    let [scale, deltaScale] = pinch.mock.calls[pinch.mock.calls.length - 1];
+    expect(scale).toBeCloseTo(2);
+    expect(deltaScale).toBeCloseTo(1);
+
+    input.dispatch('touchMoved', 1, 300, 300, 2);
+    [scale, deltaScale] = pinch.mock.calls[pinch.mock.calls.length - 1];
+    expect(scale).toBeCloseTo(1);
+    expect(deltaScale).toBeCloseTo(0.5);
+    expect(pinchEnd).not.toHaveBeenCalled();
+  });
+
+  it('should use custom thresholds', () => {
+    gestures.options.tapMaxTime = 1;
+    const tap = vi.fn();
+    gestures.on({ event: 'tap', callback: tap });
+
+    input.dispatch('touchPressed', 0, 100, 100, 1);
+    gestures.update(0.45);
+    input.dispatch('touchReleased', 0, 100, 100, 0);
+
+    expect(tap).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,445 @@
+import { type EmitHandler, Emitter, type EmitterOnParams } from '../emitter/emitter.js';
+import { distance } from '../math/mathUtils.js';
+import type { Input, InputEvents } from './input.js';
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * The gesture events. Positions are in logical pixels and times in seconds.
+ */
+export type GestureEvents = {
+  tap: [x: number, y: number];
+  doubleTap: [x: number, y: number];
+  longPress: [x: number, y: number];
+
+  /**
+   * The velocity is in pixels per second.
+   */
+  swipe: [direction: SwipeDirection, velocityX: number, velocityY: number];
+
+  panStart: [x: number, y: number];
+
+  /**
+   * The delta is the movement since the last pan event.
+   */
+  pan: [x: number, y: number, deltaX: number, deltaY: number];
+  panEnd: [x: number, y: number];
+
+  pinchStart: [centerX: number, centerY: number];
+
+  /**
+   * The scale is relative to the start of the pinch. The delta scale is relative to the last pinch event.
+   */
+  pinch: [scale: number, deltaScale: number, centerX: number, centerY: number];
+  pinchEnd: [];
+
+  /**
+   * Two finger rotation in radians since the start of the pinch. Positive is clockwise on screen.
+   */
+  rotate: [rotation: number, deltaRotation: number, centerX: number, centerY: number];
+};
+
+export type GestureOptions = {
+  /**
+   * How far a touch can move in pixels and still be a tap or long press. Defaults to 10.
+   */
+  tapMaxDistance: number;
+
+  /**
+   * The longest a tap can take. Defaults to 0.3.
+   */
+  tapMaxTime: number;
+
+  /**
+   * The longest time between the two taps of a double tap. Defaults to 0.3.
+   */
+  doubleTapMaxTime: number;
+
+  /**
+   * How far apart the two taps of a double tap can be in pixels. Defaults to 30.
+   */
+  doubleTapMaxDistance: number;
+
+  /**
+   * How long a touch has to be held for a long press. Defaults to 0.5.
+   */
+  longPressTime: number;
+
+  /**
+   * How far a touch has to move to start a pan. Defaults to 10.
+   */
+  panMinDistance: number;
+
+  /**
+   * How far a touch has to move for a swipe. Defaults to 50.
+   */
+  swipeMinDistance: number;
+
+  /**
+   * The lowest average speed of a swipe in pixels per second. Defaults to 300.
+   */
+  swipeMinVelocity: number;
+
+  /**
+   * The longest a swipe can take. Defaults to 0.5.
+   */
+  swipeMaxTime: number;
+};
+
+type Point = {
+  x: number;
+  y: number;
+};
+
+/**
+ * The single touch that can become a tap, long press, swipe or pan.
+ */
+type PrimaryTouch = {
+  id: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+  x: number;
+  y: number;
+  moved: boolean;
+  panning: boolean;
+  longPressed: boolean;
+};
+
+type Pinch = {
+  /**
+   * The touch distance for a scale of 1. Adjusted when the pinch continues with other touches.
+   */
+  startDistance: number;
+
+  /**
+   * The angle between the touches at the last rotate event.
+   */
+  lastAngle: number;
+  scale: number;
+  rotation: number;
+};
+
+const DEFAULT_OPTIONS: GestureOptions = {
+  tapMaxDistance: 10,
+  tapMaxTime: 0.3,
+  doubleTapMaxTime: 0.3,
+  doubleTapMaxDistance: 30,
+  longPressTime: 0.5,
+  panMinDistance: 10,
+  swipeMinDistance: 50,
+  swipeMinVelocity: 300,
+  swipeMaxTime: 0.5,
+};
+
+/**
+ * Recognizes touch gestures from the `Input` touch events. Time is advanced with `update`, so gestures stay
+ * deterministic when input is replayed.
+ */
+export class Gestures {
+  /**
+   * The gesture thresholds. Can be changed at any time.
+   */
+  readonly options: GestureOptions;
+
+  private readonly input: Input;
+
+  private readonly emitter = new Emitter<GestureEvents>();
+
+  private readonly handlers: [keyof InputEvents, EmitHandler][] = [];
+
+  private readonly touches = new Map<number, Point>();
+
+  private primary?: PrimaryTouch;
+
+  private pinch?: Pinch;
+
+  /**
+   * More than one finger touched since all fingers were up. No single touch gestures until they are all released.
+   */
+  private multiTouch = false;
+
+  private lastTap?: Point & { time: number };
+
+  private time = 0;
+
+  /**
+   * Create a gesture recognizer.
+   * @param input - The input to read touches from.
+   * @param options - Thresholds to change from the defaults.
+   */
+  constructor(input: Input, options: Partial<GestureOptions> = {}) {
+    this.input = input;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    this.handlers.push(
+      ['touchPressed', input.onPersistent({ event: 'touchPressed', callback: this.onTouchPressed })],
+      ['touchMoved', input.onPersistent({ event: 'touchMoved', callback: this.onTouchMoved })],
+      ['touchReleased', input.onPersistent({ event: 'touchReleased', callback: this.onTouchReleased })],
+    );
+  }
+
+  /**
+   * Registers an event listener for a gesture.
+   * @param params - The parameters for the event listener.
+   * @returns The handler for the event listener.
+   */
+  on<K extends keyof GestureEvents>(params: EmitterOnParams<GestureEvents, K>): EmitHandler {
+    return this.emitter.on(params);
+  }
+
+  /**
+   * Unregister an event listener for a gesture.
+   * @param event - The event to unregister the listener from.
+   * @param handler - The handler to remove.
+   */
+  off<K extends keyof GestureEvents>(event: K, handler: EmitHandler): void {
+    this.emitter.off(event, handler);
+  }
+
+  /**
+   * Advance the gesture time and detect long presses. Core calls this every frame.
+   * @param deltaTime - The time passed since the last frame in seconds.
+   */
+  update(deltaTime: number): void {
+    this.time += deltaTime;
+
+    const primary = this.primary;
+    if (
+      primary &&
+      !primary.moved &&
+      !primary.longPressed &&
+      this.time - primary.startTime >= this.options.longPressTime
+    ) {
+      primary.longPressed = true;
+      this.emitter.emit('longPress', primary.x, primary.y);
+    }
+  }
+
+  /**
+   * Cancel all gestures in progress. Core calls this when the game loses focus, because touch end events are not
+   * received then.
+   */
+  reset(): void {
+    this.endPan();
+    this.endPinch();
+    this.touches.clear();
+    this.primary = undefined;
+    this.multiTouch = false;
+  }
+
+  /**
+   * Stop listening to input.
+   */
+  destroy(): void {
+    for (const [event, handler] of this.handlers) {
+      this.input.off(event, handler);
+    }
+    this.handlers.length = 0;
+    this.emitter.clear();
+  }
+
+  private endPan(): void {
+    if (this.primary?.panning) {
+      this.primary.panning = false;
+      this.emitter.emit('panEnd', this.primary.x, this.primary.y);
+    }
+  }
+
+  private endPinch(): void {
+    if (this.pinch) {
+      this.pinch = undefined;
+      this.emitter.emit('pinchEnd');
+    }
+  }
+
+  /**
+   * Start measuring the pinch from two touches so the scale and rotation continue from their current values.
+   * @param pinch - The pinch to update.
+   * @param a - The first touch.
+   * @param b - The second touch.
+   */
+  private anchorPinch(pinch: Pinch, a: Point, b: Point): void {
+    pinch.startDistance = Math.max(distance(a.x, a.y, b.x, b.y), 1) / pinch.scale;
+    pinch.lastAngle = Math.atan2(b.y - a.y, b.x - a.x);
+  }
+
+  /**
+   * Get the first two touches.
+   * @returns The touches or undefined when less than two fingers are down.
+   */
+  private getPinchTouches(): [Point, Point] | undefined {
+    const [a, b] = this.touches.values();
+
+    return a && b ? [a, b] : undefined;
+  }
+
+  /**
+   * Handle the end of a touch that was the only touch.
+   * @param primary - The touch.
+   */
+  private releasePrimary(primary: PrimaryTouch): void {
+    const { options } = this;
+    this.endPan();
+
+    const duration = this.time - primary.startTime;
+    if (!primary.moved && !primary.longPressed && duration <= options.tapMaxTime) {
+      this.emitter.emit('tap', primary.x, primary.y);
+
+      const lastTap = this.lastTap;
+      if (
+        lastTap &&
+        this.time - lastTap.time <= options.doubleTapMaxTime &&
+        distance(lastTap.x, lastTap.y, primary.x, primary.y) <= options.doubleTapMaxDistance
+      ) {
+        this.lastTap = undefined;
+        this.emitter.emit('doubleTap', primary.x, primary.y);
+      } else {
+        this.lastTap = { x: primary.x, y: primary.y, time: this.time };
+      }
+
+      return;
+    }
+
+    const dx = primary.x - primary.startX;
+    const dy = primary.y - primary.startY;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    // A touch that starts and ends in the same frame has no duration. Use a frame at 60 fps instead.
+    const time = Math.max(duration, 1 / 60);
+    if (
+      duration <= options.swipeMaxTime &&
+      length >= options.swipeMinDistance &&
+      length / time >= options.swipeMinVelocity
+    ) {
+      let direction: SwipeDirection;
+      if (Math.abs(dx) >= Math.abs(dy)) {
+        direction = dx > 0 ? 'right' : 'left';
+      } else {
+        direction = dy > 0 ? 'down' : 'up';
+      }
+      this.emitter.emit('swipe', direction, dx / time, dy / time);
+    }
+  }
+
+  private onTouchPressed = (id: number, x: number, y: number): void => {
+    this.touches.set(id, { x, y });
+
+    if (this.touches.size === 1 && !this.multiTouch) {
+      this.primary = {
+        id,
+        startX: x,
+        startY: y,
+        startTime: this.time,
+        x,
+        y,
+        moved: false,
+        panning: false,
+        longPressed: false,
+      };
+
+      return;
+    }
+
+    this.multiTouch = true;
+    this.endPan();
+    this.primary = undefined;
+
+    const pinchTouches = this.getPinchTouches();
+    if (!this.pinch && pinchTouches) {
+      const [a, b] = pinchTouches;
+      this.pinch = { startDistance: 1, lastAngle: 0, scale: 1, rotation: 0 };
+      this.anchorPinch(this.pinch, a, b);
+      this.emitter.emit('pinchStart', (a.x + b.x) / 2, (a.y + b.y) / 2);
+    }
+  };
+
+  private onTouchMoved = (id: number, x: number, y: number): void => {
+    const touch = this.touches.get(id);
+    if (!touch) {
+      return;
+    }
+    touch.x = x;
+    touch.y = y;
+
+    const primary = this.primary;
+    if (primary?.id === id) {
+      const lastX = primary.x;
+      const lastY = primary.y;
+      primary.x = x;
+      primary.y = y;
+
+      const moved = distance(primary.startX, primary.startY, x, y);
+      if (moved > this.options.tapMaxDistance) {
+        primary.moved = true;
+      }
+
+      if (!primary.panning && moved >= this.options.panMinDistance) {
+        primary.panning = true;
+        this.emitter.emit('panStart', primary.startX, primary.startY);
+        this.emitter.emit('pan', x, y, x - primary.startX, y - primary.startY);
+      } else if (primary.panning) {
+        this.emitter.emit('pan', x, y, x - lastX, y - lastY);
+      }
+
+      return;
+    }
+
+    const pinch = this.pinch;
+    const pinchTouches = this.getPinchTouches();
+    if (pinch && pinchTouches) {
+      const [a, b] = pinchTouches;
+      const centerX = (a.x + b.x) / 2;
+      const centerY = (a.y + b.y) / 2;
+
+      const scale = distance(a.x, a.y, b.x, b.y) / pinch.startDistance;
+      const deltaScale = scale / pinch.scale;
+      pinch.scale = scale;
+      this.emitter.emit('pinch', scale, deltaScale, centerX, centerY);
+
+      // Only the delta is wrapped, so the rotation keeps counting past a half turn.
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      const deltaRotation = normalizeAngle(angle - pinch.lastAngle);
+      pinch.lastAngle = angle;
+      pinch.rotation += deltaRotation;
+      this.emitter.emit('rotate', pinch.rotation, deltaRotation, centerX, centerY);
+    }
+  };
+
+  private onTouchReleased = (id: number, x: number, y: number): void => {
+    if (!this.touches.delete(id)) {
+      return;
+    }
+
+    const primary = this.primary;
+    if (primary?.id === id) {
+      primary.x = x;
+      primary.y = y;
+      this.releasePrimary(primary);
+      this.primary = undefined;
+    }
+
+    if (this.touches.size < 2) {
+      this.endPinch();
+    } else {
+      // One of the pinch touches can be released while other fingers are still down. Continue with the next pair
+      // from the current scale and rotation.
+      const pinchTouches = this.getPinchTouches();
+      if (this.pinch && pinchTouches) {
+        this.anchorPinch(this.pinch, ...pinchTouches);
+      }
+    }
+
+    if (this.touches.size === 0) {
+      this.multiTouch = false;
+    }
+  };
+}
+
+/**
+ * Wrap an angle to the -PI - PI range.
+ * @param angle - The angle in radians.
+ * @returns The wrapped angle.
+ */
+function normalizeAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
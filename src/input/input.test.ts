@@ -0,0 +1,398 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HeadlessCanvas } from '../headless/headlessCanvas.js';
+import { Input } from './input.js';
+import { KeyCode } from './keyCode.js';
+
+describe('Input', () => {
+  let input: Input;
+
+  beforeEach(() => {
+    input = new Input(new HeadlessCanvas(100, 100).asElement());
+  });
+
+  it('should only update the key state in update', () => {
+    input.dispatch('keyPressed', KeyCode.Space, 'Space', ' ');
+    expect(input.isKeyDown(KeyCode.Space)).toBe(false);
+
+    input.update();
+    expect(input.isKeyDown(KeyCode.Space)).toBe(true);
+    expect(input.wasKeyPressedThisFrame(KeyCode.Space)).toBe(true);
+
+    input.update();
+    expect(input.isKeyDown(KeyCode.Space)).toBe(true);
+    expect(input.wasKeyPressedThisFrame(KeyCode.Space)).toBe(false);
+
+    input.dispatch('keyReleased', KeyCode.Space, 'Space', ' ');
+    input.update();
+    expect(input.isKeyDown(KeyCode.Space)).toBe(false);
+    expect(input.wasKeyReleasedThisFrame(KeyCode.Space)).toBe(true);
+  });
+
+  it('should keep a key press and release within one frame', () => {
+    input.dispatch('keyPressed', KeyCode.A, 'KeyA', 'a');
+    input.dispatch('keyReleased', KeyCode.A, 'KeyA', 'a');
+    input.update();
+
+    expect(input.isKeyDown(KeyCode.A)).toBe(false);
+    expect(input.wasKeyPressedThisFrame(KeyCode.A)).toBe(true);
+    expect(input.wasKeyReleasedThisFrame(KeyCode.A)).toBe(true);
+  });
+
+  it('should ignore key repeat', () => {
+    input.dispatch('keyPressed', KeyCode.A, 'KeyA', 'a');
+    input.update();
+    input.dispatch('keyPressed', KeyCode.A, 'KeyA', 'a');
+    input.update();
+
+    expect(input.wasKeyPressedThisFrame(KeyCode.A)).toBe(false);
+  });
+
+  it('should track mouse buttons, position, movement and wheel', () => {
+    input.dispatch('mouseMoved', 10, 20, 4, 2);
+    input.dispatch('mouseMoved', 15, 22, 5, 2);
+    input.dispatch('mouseWheel', 0, 100);
+    input.dispatch('mousePressed', 0, 15, 22);
+    input.update();
+
+    expect(input.mouseX).toBe(15);
+    expect(input.mouseY).toBe(22);
+    expect(input.mouseDeltaX).toBe(9);
+    expect(input.mouseDeltaY).toBe(4);
+    expect(input.wheelY).toBe(100);
+    expect(input.isMouseButtonDown(0)).toBe(true);
+    expect(input.wasMouseButtonPressedThisFrame(0)).toBe(true);
+
+    input.update();
+    expect(input.mouseX).toBe(15);
+    expect(input.mouseDeltaX).toBe(0);
+    expect(input.wheelY).toBe(0);
+    expect(input.wasMouseButtonPressedThisFrame(0)).toBe(false);
+  });
+
+  it('should track touches', () => {
+    input.dispatch('touchPressed', 3, 10, 10, 1);
+    input.update();
+    expect(input.getTouches()).toEqual([{ id: 3, x: 10, y: 10 }]);
+    expect(input.wasTouchPressedThisFrame(3)).toBe(true);
+
+    input.dispatch('touchMoved', 3, 20, 30, 1);
+    expect(input.getTouch(3)).toEqual({ id: 3, x: 10, y: 10 });
+    input.update();
+    expect(input.getTouch(3)).toEqual({ id: 3, x: 20, y: 30 });
+
+    input.dispatch('touchReleased', 3, 20, 30, 0);
+    input.update();
+    expect(input.getTouches()).toEqual([]);
+    expect(input.wasTouchReleasedThisFrame(3)).toBe(true);
+  });
+
+  it('should release everything on reset', () => {
+    input.dispatch('keyPressed', KeyCode.Space, 'Space', ' ');
+    input.dispatch('mousePressed', 1, 0, 0);
+    input.update();
+    input.resetState();
+
+    expect(input.isKeyDown(KeyCode.Space)).toBe(false);
+    expect(input.isMouseButtonDown(1)).toBe(false);
+  });
+
+  it('should only clear the listeners registered with on', () => {
+    const listener = vi.fn();
+    const persistent = vi.fn();
+    input.on({ event: 'keyPressed', callback: listener });
+    input.onPersistent({ event: 'keyPressed', callback: persistent });
+
+    input.clearListeners();
+    input.dispatch('keyPressed', KeyCode.Space, 'Space', ' ');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(persistent).toHaveBeenCalled();
+  });
+
+  it('should keep the state after clearing listeners', () => {
+    input.clearListeners();
+    input.dispatch('keyPressed', KeyCode.Space, 'Space', ' ');
+    input.update();
+
+    expect(input.isKeyDown(KeyCode.Space)).toBe(true);
+  });
+});
+
+describe('Input pointers', () => {
+  let canvas: HeadlessCanvas;
+  let input: Input;
+
+  /**
+   * Dispatch a pointer event like the browser does.
+   */
+  function dispatchPointer(type: string, params: Partial<PointerEvent>): void {
+    const event = Object.assign(new Event(type), {
+      pointerId: 1,
+      pointerType: 'mouse',
+      clientX: 0,
+      clientY: 0,
+      movementX: 0,
+      movementY: 0,
+      // Moves without a button change have button -1.
+      button: type === 'pointermove' ? -1 : 0,
+      buttons: 0,
+      pressure: 0,
+      tiltX: 0,
+      tiltY: 0,
+      isPrimary: true,
+      ...params,
+    });
+    canvas.dispatchEvent(event);
+  }
+
+  beforeEach(() => {
+    canvas = new HeadlessCanvas(100, 100);
+    input = new Input(canvas.asElement());
+  });
+
+  it('should disable touch scrolling on the canvas', () => {
+    expect(canvas.style.touchAction).toBe('none');
+  });
+
+  it('should emit pointer and mouse events for a mouse', () => {
+    const pointerPressed = vi.fn();
+    const mousePressed = vi.fn();
+    input.on({ event: 'pointerPressed', callback: pointerPressed });
+    input.on({ event: 'mousePressed', callback: mousePressed });
+
+    dispatchPointer('pointerdown', { clientX: 10, clientY: 20, button: 2, buttons: 2, pressure: 0.5 });
+
+    expect(pointerPressed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1, type: 'mouse', x: 10, y: 20, button: 2, pressure: 0.5, isPrimary: true }),
+    );
+    expect(mousePressed).toHaveBeenCalledWith(2, 10, 20);
+    expect(input.getActivePointers()).toHaveLength(1);
+
+    dispatchPointer('pointerup', { clientX: 10, clientY: 20, button: 2 });
+    expect(input.getActivePointers()).toHaveLength(0);
+  });
+
+  it('should press and release chorded mouse buttons from pointer moves', () => {
+    const mousePressed = vi.fn();
+    const mouseReleased = vi.fn();
+    input.on({ event: 'mousePressed', callback: mousePressed });
+    input.on({ event: 'mouseReleased', callback: mouseReleased });
+
+    dispatchPointer('pointerdown', { clientX: 10, clientY: 20, button: 0, buttons: 1 });
+    dispatchPointer('pointermove', { clientX: 10, clientY: 20, button: 2, buttons: 3 });
+    dispatchPointer('pointermove', { clientX: 12, clientY: 20, buttons: 3 });
+    input.update();
+    expect(mousePressed.mock.calls).toEqual([
+      [0, 10, 20],
+      [2, 10, 20],
+    ]);
+    expect(input.isMouseButtonDown(2)).toBe(true);
+
+    dispatchPointer('pointermove', { clientX: 12, clientY: 20, button: 2, buttons: 1 });
+    input.update();
+    expect(mouseReleased).toHaveBeenCalledWith(2, 12, 20);
+    expect(input.isMouseButtonDown(2)).toBe(false);
+    expect(input.isMouseButtonDown(0)).toBe(true);
+
+    dispatchPointer('pointerup', { clientX: 12, clientY: 20, button: 0, buttons: 0 });
+    input.update();
+    expect(mouseReleased).toHaveBeenCalledTimes(2);
+    expect(input.isMouseButtonDown(0)).toBe(false);
+  });
+
+  it('should emit touch events with the touch count for touch pointers', () => {
+    const touchPressed = vi.fn();
+    const touchReleased = vi.fn();
+    const mousePressed = vi.fn();
+    input.on({ event: 'touchPressed', callback: touchPressed });
+    input.on({ event: 'touchReleased', callback: touchReleased });
+    input.on({ event: 'mousePressed', callback: mousePressed });
+
+    dispatchPointer('pointerdown', { pointerId: 5, pointerType: 'touch', clientX: 1, clientY: 2 });
+    dispatchPointer('pointerdown', { pointerId: 6, pointerType: 'touch', clientX: 3, clientY: 4, isPrimary: false });
+    dispatchPointer('pointercancel', { pointerId: 6, pointerType: 'touch', clientX: 3, clientY: 4, isPrimary: false });
+
+    expect(touchPressed.mock.calls).toEqual([
+      [5, 1, 2, 1],
+      [6, 3, 4, 2],
+    ]);
+    expect(touchReleased).toHaveBeenCalledWith(6, 3, 4, 1);
+    // Only the primary touch acts as the mouse.
+    expect(mousePressed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should convert positions and movement to logical pixels', () => {
+    input.setLogicalMapping(10, 20, 2, 2);
+    const pointerMoved = vi.fn();
+    const mouseMoved = vi.fn();
+    input.on({ event: 'pointerMoved', callback: pointerMoved });
+    input.on({ event: 'mouseMoved', callback: mouseMoved });
+
+    dispatchPointer('pointermove', { clientX: 50, clientY: 60, movementX: 4, movementY: -2 });
+
+    expect(pointerMoved).toHaveBeenCalledWith(expect.objectContaining({ x: 20, y: 20, deltaX: 2, deltaY: -1 }));
+    expect(mouseMoved).toHaveBeenCalledWith(20, 20, 2, -1);
+  });
+});
+
+describe('Input drop target', () => {
+  let canvas: HeadlessCanvas;
+  let input: Input;
+
+  /**
+   * Dispatch a drag event with files like the browser does.
+   */
+  function dispatchDrag(type: string, files: File[], clientX = 0, clientY = 0): Event {
+    const event = Object.assign(new Event(type, { cancelable: true }), {
+      clientX,
+      clientY,
+      dataTransfer: { types: files.length > 0 ? ['Files'] : ['text/plain'], files, dropEffect: 'none' },
+    });
+    canvas.dispatchEvent(event);
+
+    return event;
+  }
+
+  beforeEach(() => {
+    canvas = new HeadlessCanvas(100, 100);
+    input = new Input(canvas.asElement());
+  });
+
+  it('should only accept files when it is a drop target', () => {
+    const filesDropped = vi.fn();
+    input.on({ event: 'filesDropped', callback: filesDropped });
+    const file = new File(['level'], 'level.json');
+
+    dispatchDrag('drop', [file]);
+    expect(filesDropped).not.toHaveBeenCalled();
+
+    input.dropTarget = true;
+    const event = dispatchDrag('drop', [file], 30, 40);
+    expect(event.defaultPrevented).toBe(true);
+    expect(filesDropped).toHaveBeenCalledWith([file], 30, 40);
+
+    input.dropTarget = false;
+    dispatchDrag('drop', [file]);
+    expect(filesDropped).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit drag over events in logical pixels for files only', () => {
+    input.dropTarget = true;
+    input.setLogicalMapping(10, 0, 2, 2);
+    const fileDragOver = vi.fn();
+    input.on({ event: 'fileDragOver', callback: fileDragOver });
+
+    const event = dispatchDrag('dragover', [new File([''], 'image.png')], 50, 60);
+    expect(event.defaultPrevented).toBe(true);
+    expect(fileDragOver).toHaveBeenCalledWith(20, 30);
+
+    const textEvent = dispatchDrag('dragover', [], 50, 60);
+    expect(textEvent.defaultPrevented).toBe(false);
+    expect(fileDragOver).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Input clipboard', () => {
+  let canvas: HeadlessCanvas;
+  let page: EventTarget;
+  let input: Input;
+
+  /**
+   * Dispatch a clipboard event on the page like the browser does.
+   */
+  function dispatchClipboard(type: string, clipboardData: Partial<DataTransfer>): Event {
+    const event = Object.assign(new Event(type, { cancelable: true }), { clipboardData });
+    page.dispatchEvent(event);
+
+    return event;
+  }
+
+  beforeEach(() => {
+    // The clipboard events are sent to the document.
+    page = new EventTarget();
+    vi.stubGlobal('document', page);
+    canvas = new HeadlessCanvas(100, 100);
+    input = new Input(canvas.asElement());
+  });
+
+  afterEach(() => {
+    input.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should not cancel the clipboard shortcuts', () => {
+    const copyKey = Object.assign(new Event('keydown', { cancelable: true }), {
+      code: 'KeyC',
+      key: 'c',
+      ctrlKey: true,
+    });
+    const otherKey = Object.assign(new Event('keydown', { cancelable: true }), {
+      code: 'KeyA',
+      key: 'a',
+      ctrlKey: true,
+    });
+    canvas.dispatchEvent(copyKey);
+    canvas.dispatchEvent(otherKey);
+
+    expect(copyKey.defaultPrevented).toBe(false);
+    expect(otherKey.defaultPrevented).toBe(true);
+  });
+
+  it('should write copied and cut text into the clipboard event', () => {
+    input.on({ event: 'copy', callback: () => input.writeClipboard('level data') });
+    input.on({ event: 'cut', callback: () => input.writeClipboard('cut data') });
+    const setData = vi.fn();
+
+    const copy = dispatchClipboard('copy', { setData });
+    const cut = dispatchClipboard('cut', { setData });
+
+    expect(setData.mock.calls).toEqual([
+      ['text/plain', 'level data'],
+      ['text/plain', 'cut data'],
+    ]);
+    expect(copy.defaultPrevented).toBe(true);
+    expect(cut.defaultPrevented).toBe(true);
+  });
+
+  it('should leave a copy alone when nothing is written', () => {
+    const copy = vi.fn();
+    input.on({ event: 'copy', callback: copy });
+
+    const event = dispatchClipboard('copy', { setData: vi.fn() });
+
+    expect(copy).toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it('should emit pasted text and files', () => {
+    const paste = vi.fn();
+    const filesPasted = vi.fn();
+    input.on({ event: 'paste', callback: paste });
+    input.on({ event: 'filesPasted', callback: filesPasted });
+    const file = new File(['image'], 'image.png');
+
+    dispatchClipboard('paste', { getData: () => 'pasted', files: [file] as unknown as FileList });
+    dispatchClipboard('paste', { getData: () => '', files: [] as unknown as FileList });
+
+    expect(paste.mock.calls).toEqual([['pasted']]);
+    expect(filesPasted.mock.calls).toEqual([[[file]]]);
+  });
+
+  it('should use the async clipboard outside of clipboard events', async () => {
+    const writeText = vi.fn(() => Promise.resolve());
+    vi.stubGlobal('navigator', { clipboard: { writeText, readText: () => Promise.resolve('from clipboard') } });
+
+    await input.writeClipboard('saved');
+
+    expect(writeText).toHaveBeenCalledWith('saved');
+    await expect(input.readClipboard()).resolves.toBe('from clipboard');
+  });
+
+  it('should reject when there is no clipboard', async () => {
+    vi.stubGlobal('navigator', {});
+
+    await expect(input.readClipboard()).rejects.toThrow('The clipboard is not available');
+    await expect(input.writeClipboard('text')).rejects.toThrow('The clipboard is not available');
+  });
+});
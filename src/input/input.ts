@@ -2,11 +2,88 @@ import { type EmitHandler, Emitter, type EmitterOnParams } from '../emitter/emit
 import { getKeyCodeFromString, type KeyCode } from './keyCode.js';
 
 export type GamepadState = {
+  id: string;
+  mapping: string;
   axes: Record<number, number>;
   buttons: Record<number, number>;
 };
 
-type InputEvents = {
+export type PointerType = 'mouse' | 'pen' | 'touch';
+
+/**
+ * A mouse, pen or touch pointer. Positions are in logical pixels relative to the canvas, so they don't depend on the
+ * pixel ratio or on CSS scaling of the canvas.
+ */
+export type Pointer = {
+  id: number;
+  type: PointerType;
+  x: number;
+  y: number;
+
+  /**
+   * The movement since the last event of this pointer in logical pixels. Keeps working while the pointer is locked.
+   */
+  deltaX: number;
+  deltaY: number;
+
+  /**
+   * The button that changed. 0 is the left button, the pen tip or a touch contact. -1 when no button changed.
+   */
+  button: number;
+
+  /**
+   * The buttons that are down as a bit mask.
+   */
+  buttons: number;
+
+  /**
+   * The pressure (0 - 1). Devices without pressure report 0.5 while down.
+   */
+  pressure: number;
+
+  /**
+   * The pen tilt in degrees (-90 - 90).
+   */
+  tiltX: number;
+  tiltY: number;
+
+  /**
+   * Is this the main pointer of its type, like the first finger down.
+   */
+  isPrimary: boolean;
+};
+
+/**
+ * A touch that is down in the polling state.
+ */
+export type TouchState = {
+  id: number;
+  x: number;
+  y: number;
+};
+
+/**
+ * Input state that is collected from events between frames.
+ */
+type PollingState = {
+  keysDown: Set<(typeof KeyCode)[keyof typeof KeyCode]>;
+  keysPressed: Set<(typeof KeyCode)[keyof typeof KeyCode]>;
+  keysReleased: Set<(typeof KeyCode)[keyof typeof KeyCode]>;
+  buttonsDown: Set<number>;
+  buttonsPressed: Set<number>;
+  buttonsReleased: Set<number>;
+  mouseX: number;
+  mouseY: number;
+  mouseDeltaX: number;
+  mouseDeltaY: number;
+  wheelX: number;
+  wheelY: number;
+  touches: Map<number, TouchState>;
+  touchesPressed: Set<number>;
+  touchesReleased: Set<number>;
+};
+
+export type InputEvents = {
   keyPressed: [keyCode: (typeof KeyCode)[keyof typeof KeyCode], code: string, key: string];
   keyReleased: [keyCode: (typeof KeyCode)[keyof typeof KeyCode], code: string, key: string];
   keyPress: [keyCode: (typeof KeyCode)[keyof typeof KeyCode], code: string, key: string];
@@ -19,10 +96,53 @@ type InputEvents = {
   touchPressed: [id: number, x: number, y: number, count: number];
   touchReleased: [id: number, x: number, y: number, count: number];
   touchMoved: [id: number, x: number, y: number, count: number];
-  gamepadConnected: [index: number];
+  gamepadConnected: [index: number, id: string, mapping: string];
   gamepadDisconnected: [index: number];
   gamepadAxis: [index: number, axis: number, value: number];
   gamepadButton: [index: number, button: number, value: number];
+  pointerPressed: [pointer: Pointer];
+  pointerMoved: [pointer: Pointer];
+  pointerReleased: [pointer: Pointer];
+
+  /**
+   * The browser took over the pointer, for example to scroll. Treat it as released.
+   */
+  pointerCancelled: [pointer: Pointer];
+  pointerLockChanged: [locked: boolean];
+
+  /**
+   * The text of the active text input session or its selection changed.
+   */
+  textInput: [value: string, selectionStart: number, selectionEnd: number];
+
+  /**
+   * The text an IME is composing. Empty when the composition ends.
+   */
+  compositionUpdate: [composition: string];
+
+  /**
+   * Enter was pressed in the active text input session.
+   */
+  textSubmitted: [value: string];
+
+  /**
+   * The player wants to copy. Call `writeClipboard` in the listener to set the copied text.
+   */
+  copy: [];
+
+  /**
+   * The player wants to cut. Call `writeClipboard` in the listener to set the cut text.
+   */
+  cut: [];
+  paste: [text: string];
+  filesPasted: [files: File[]];
+
+  /**
+   * Files are dragged over the canvas while it is a drop target.
+   */
+  fileDragOver: [x: number, y: number];
+  fileDragLeave: [];
+  filesDropped: [files: File[], x: number, y: number];
 };
 
 export class Input {
@@ -32,10 +152,142 @@ export class Input {
 
   private emitter: Emitter<InputEvents> = new Emitter();
 
+  /**
+   * Maps canvas positions to logical positions. The logical area starts at `x`, `y` in canvas pixels and is scaled
+   * by `scaleX`, `scaleY`.
+   */
+  private readonly logicalMapping = { x: 0, y: 0, scaleX: 1, scaleY: 1 };
+
+  /**
+   * The state collected from events since the last update.
+   */
+  private readonly pending: PollingState = createPollingState();
+
+  /**
+   * The state for the current frame. Only changes in `update`, so all queries in a frame agree.
+   */
+  private readonly frame: PollingState = createPollingState();
+
+  private readonly stateHandlers: EmitHandler[] = [];
+
+  /**
+   * The listeners registered with `on`. These are removed by `clearListeners`.
+   */
+  private readonly listeners = new Map<EmitHandler, keyof InputEvents>();
+
+  private _deviceInputEnabled = true;
+
+  /**
+   * The pointers that are down by pointer id.
+   */
+  private readonly activePointers = new Map<number, Pointer>();
+
+  private _dropTarget = false;
+
+  /**
+   * The copy or cut event that is being handled. Text written to the clipboard goes into this event.
+   */
+  private clipboardEvent?: ClipboardEvent;
+
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
 
     this.addListeners();
+    this.addStateListeners();
+  }
+
+  /**
+   * Listen to the browser for keyboard, mouse, touch and gamepad input. When disabled input only comes from
+   * `dispatch`, for example while a recording is replayed.
+   */
+  get deviceInputEnabled(): boolean {
+    return this._deviceInputEnabled;
+  }
+
+  set deviceInputEnabled(value: boolean) {
+    if (value === this._deviceInputEnabled) {
+      return;
+    }
+
+    this._deviceInputEnabled = value;
+    if (value) {
+      this.addListeners();
+    } else {
+      this.removeListeners();
+    }
+  }
+
+  /**
+   * Accept files that are dragged onto the canvas. Dropped files are sent with the `filesDropped` event.
+   */
+  get dropTarget(): boolean {
+    return this._dropTarget;
+  }
+
+  set dropTarget(value: boolean) {
+    if (value === this._dropTarget) {
+      return;
+    }
+
+    this._dropTarget = value;
+    if (value) {
+      this.canvas.addEventListener('dragover', this.onDragOver);
+      this.canvas.addEventListener('dragleave', this.onDragLeave);
+      this.canvas.addEventListener('drop', this.onDrop);
+    } else {
+      this.canvas.removeEventListener('dragover', this.onDragOver);
+      this.canvas.removeEventListener('dragleave', this.onDragLeave);
+      this.canvas.removeEventListener('drop', this.onDrop);
+    }
+  }
+
+  /**
+   * Is the mouse locked to the canvas.
+   */
+  get isPointerLocked(): boolean {
+    return typeof document !== 'undefined' && document.pointerLockElement === this.canvas;
+  }
+
+  /**
+   * The mouse x position in logical pixels this frame.
+   */
+  get mouseX(): number {
+    return this.frame.mouseX;
+  }
+
+  /**
+   * The mouse y position in logical pixels this frame.
+   */
+  get mouseY(): number {
+    return this.frame.mouseY;
+  }
+
+  /**
+   * The horizontal mouse movement since the last frame in logical pixels.
+   */
+  get mouseDeltaX(): number {
+    return this.frame.mouseDeltaX;
+  }
+
+  /**
+   * The vertical mouse movement since the last frame in logical pixels.
+   */
+  get mouseDeltaY(): number {
+    return this.frame.mouseDeltaY;
+  }
+
+  /**
+   * The horizontal wheel movement since the last frame.
+   */
+  get wheelX(): number {
+    return this.frame.wheelX;
+  }
+
+  /**
+   * The vertical wheel movement since the last frame.
+   */
+  get wheelY(): number {
+    return this.frame.wheelY;
   }
 
   /**
@@ -44,6 +296,19 @@ export class Input {
    * @returns The handler for the event listener.
    */
   on<K extends keyof InputEvents>(params: EmitterOnParams<InputEvents, K>): EmitHandler {
+    const handler = this.emitter.on(params);
+    this.listeners.set(handler, params.event);
+
+    return handler;
+  }
+
+  /**
+   * Registers an event listener that `clearListeners` keeps. Used by the services that are built on the input events,
+   * like actions and gestures. Remove it with `off`.
+   * @param params - The parameters for the event listener.
+   * @returns The handler for the event listener.
+   */
+  onPersistent<K extends keyof InputEvents>(params: EmitterOnParams<InputEvents, K>): EmitHandler {
     return this.emitter.on(params);
   }
 
@@ -54,16 +319,236 @@ export class Input {
    */
   off<K extends keyof InputEvents>(event: K, handler: EmitHandler): void {
     this.emitter.off(event, handler);
+    this.listeners.delete(handler);
   }
 
   /**
-   * Clears all registered event listeners.
+   * Clears all event listeners registered with `on`.
    */
   clearListeners(): void {
-    this.emitter.clear();
+    for (const [handler, event] of this.listeners) {
+      this.emitter.off(event, handler);
+    }
+    this.listeners.clear();
+  }
+
+  /**
+   * Get the raw gamepad values as they were last sent with the gamepad events.
+   * @returns A copy of the gamepad states by gamepad index.
+   */
+  getGamepadStates(): Record<number, GamepadState> {
+    const states: Record<number, GamepadState> = {};
+    for (const [index, state] of Object.entries(this.gamepadStates)) {
+      states[Number(index)] = { ...state, axes: { ...state.axes }, buttons: { ...state.buttons } };
+    }
+
+    return states;
+  }
+
+  /**
+   * Give the keyboard focus to the canvas.
+   */
+  focus(): void {
+    this.canvas.focus();
+  }
+
+  /**
+   * Get the pointers that are down. This is live state, not the state at the start of the frame.
+   * @returns The pointers in the order they went down.
+   */
+  getActivePointers(): Pointer[] {
+    return [...this.activePointers.values()];
+  }
+
+  /**
+   * Lock the mouse to the canvas and hide it, for mouse look controls. Only the pointer deltas change while locked.
+   * Browsers only allow this from a user input event like a click.
+   * @returns A promise that resolves when the pointer is locked.
+   */
+  async requestPointerLock(): Promise<void> {
+    await this.canvas.requestPointerLock();
+  }
+
+  /**
+   * Release the pointer lock.
+   */
+  exitPointerLock(): void {
+    if (this.isPointerLocked) {
+      document.exitPointerLock();
+    }
   }
 
+  /**
+   * Write text to the clipboard. In a `copy` or `cut` listener the text becomes the copied text. Otherwise the async
+   * clipboard API is used, which browsers only allow from a user input event.
+   * @param text - The text to write.
+   * @returns A promise that resolves when the text is written.
+   */
+  async writeClipboard(text: string): Promise<void> {
+    if (this.clipboardEvent?.clipboardData) {
+      this.clipboardEvent.clipboardData.setData('text/plain', text);
+      this.clipboardEvent.preventDefault();
+
+      return;
+    }
+
+    if (typeof navigator === 'undefined' || !navigator.clipboard) {
+      throw new Error('The clipboard is not available');
+    }
+
+    await navigator.clipboard.writeText(text);
+  }
+
+  /**
+   * Read text from the clipboard with the async clipboard API. Browsers may ask the player for permission. Listen to
+   * the `paste` event to get pasted text without a permission prompt.
+   * @returns A promise that resolves with the clipboard text.
+   */
+  async readClipboard(): Promise<string> {
+    if (typeof navigator === 'undefined' || !navigator.clipboard) {
+      throw new Error('The clipboard is not available');
+    }
+
+    return await navigator.clipboard.readText();
+  }
+
+  /**
+   * Check if a key is down this frame.
+   * @param keyCode - The key to check.
+   * @returns True if the key is down.
+   */
+  isKeyDown(keyCode: (typeof KeyCode)[keyof typeof KeyCode]): boolean {
+    return this.frame.keysDown.has(keyCode);
+  }
+
+  /**
+   * Check if a key was pressed since the last frame. Also true for a key that was pressed and released again.
+   * @param keyCode - The key to check.
+   * @returns True if the key was pressed.
+   */
+  wasKeyPressedThisFrame(keyCode: (typeof KeyCode)[keyof typeof KeyCode]): boolean {
+    return this.frame.keysPressed.has(keyCode);
+  }
+
+  /**
+   * Check if a key was released since the last frame.
+   * @param keyCode - The key to check.
+   * @returns True if the key was released.
+   */
+  wasKeyReleasedThisFrame(keyCode: (typeof KeyCode)[keyof typeof KeyCode]): boolean {
+    return this.frame.keysReleased.has(keyCode);
+  }
+
+  /**
+   * Check if a mouse button is down this frame.
+   * @param button - The button to check. 0 is the left button.
+   * @returns True if the button is down.
+   */
+  isMouseButtonDown(button: number): boolean {
+    return this.frame.buttonsDown.has(button);
+  }
+
+  /**
+   * Check if a mouse button was pressed since the last frame.
+   * @param button - The button to check. 0 is the left button.
+   * @returns True if the button was pressed.
+   */
+  wasMouseButtonPressedThisFrame(button: number): boolean {
+    return this.frame.buttonsPressed.has(button);
+  }
+
+  /**
+   * Check if a mouse button was released since the last frame.
+   * @param button - The button to check. 0 is the left button.
+   * @returns True if the button was released.
+   */
+  wasMouseButtonReleasedThisFrame(button: number): boolean {
+    return this.frame.buttonsReleased.has(button);
+  }
+
+  /**
+   * Get the touches that are down this frame.
+   * @returns The touches in the order they were pressed.
+   */
+  getTouches(): TouchState[] {
+    return [...this.frame.touches.values()];
+  }
+
+  /**
+   * Get a touch that is down this frame.
+   * @param id - The touch id.
+   * @returns The touch or undefined if it is not down.
+   */
+  getTouch(id: number): TouchState | undefined {
+    return this.frame.touches.get(id);
+  }
+
+  /**
+   * Check if a touch started since the last frame.
+   * @param id - The touch id.
+   * @returns True if the touch started.
+   */
+  wasTouchPressedThisFrame(id: number): boolean {
+    return this.frame.touchesPressed.has(id);
+  }
+
+  /**
+   * Check if a touch ended since the last frame.
+   * @param id - The touch id.
+   * @returns True if the touch ended.
+   */
+  wasTouchReleasedThisFrame(id: number): boolean {
+    return this.frame.touchesReleased.has(id);
+  }
+
+  /**
+   * Release all keys, buttons and touches in the polling state. Core calls this when the game loses focus, because
+   * the release events never arrive.
+   */
+  resetState(): void {
+    for (const state of [this.pending, this.frame]) {
+      state.keysDown.clear();
+      state.buttonsDown.clear();
+      state.touches.clear();
+    }
+  }
+
+  /**
+   * Set how canvas positions are mapped to logical positions. Core sets this when a scale mode is used, so mouse and
+   * touch positions are in the design resolution.
+   * @param x - The x position of the logical area on the canvas in CSS pixels.
+   * @param y - The y position of the logical area on the canvas in CSS pixels.
+   * @param scaleX - The horizontal scale from logical pixels to CSS pixels.
+   * @param scaleY - The vertical scale from logical pixels to CSS pixels.
+   */
+  setLogicalMapping(x: number, y: number, scaleX: number, scaleY: number): void {
+    this.logicalMapping.x = x;
+    this.logicalMapping.y = y;
+    this.logicalMapping.scaleX = scaleX;
+    this.logicalMapping.scaleY = scaleY;
+  }
+
+  /**
+   * Emit an input event as if it came from the browser. Use this to simulate input in headless mode and tests.
+   * @param event - The event to emit.
+   * @param data - The event data.
+   */
+  dispatch<K extends keyof InputEvents>(event: K, ...data: InputEvents[K]): void {
+    this.emitter.emit(event, ...data);
+  }
+
+  /**
+   * Move the state collected since the last frame to the polling state and poll the gamepads. Core calls this at the
+   * start of every frame.
+   */
   update(): void {
+    this.updateState();
+
+    // There are no gamepads outside the browser, and during a replay they come from the recording.
+    if (!this._deviceInputEnabled || typeof navigator === 'undefined' || !navigator.getGamepads) {
+      return;
+    }
+
     const gamepads = navigator.getGamepads();
     for (const gamepad of gamepads) {
       if (!gamepad) {
@@ -97,6 +582,134 @@ export class Input {
 
   destroy(): void {
     this.removeListeners();
+    this.dropTarget = false;
+    for (const handler of this.stateHandlers) {
+      handler.active = false;
+    }
+  }
+
+  /**
+   * Copy the pending state to the frame state and start collecting the next frame.
+   */
+  private updateState(): void {
+    const { pending, frame } = this;
+
+    copySet(pending.keysDown, frame.keysDown);
+    copySet(pending.keysPressed, frame.keysPressed);
+    copySet(pending.keysReleased, frame.keysReleased);
+    copySet(pending.buttonsDown, frame.buttonsDown);
+    copySet(pending.buttonsPressed, frame.buttonsPressed);
+    copySet(pending.buttonsReleased, frame.buttonsReleased);
+    copySet(pending.touchesPressed, frame.touchesPressed);
+    copySet(pending.touchesReleased, frame.touchesReleased);
+
+    frame.touches.clear();
+    for (const [id, touch] of pending.touches) {
+      frame.touches.set(id, { ...touch });
+    }
+
+    frame.mouseX = pending.mouseX;
+    frame.mouseY = pending.mouseY;
+    frame.mouseDeltaX = pending.mouseDeltaX;
+    frame.mouseDeltaY = pending.mouseDeltaY;
+    frame.wheelX = pending.wheelX;
+    frame.wheelY = pending.wheelY;
+
+    pending.keysPressed.clear();
+    pending.keysReleased.clear();
+    pending.buttonsPressed.clear();
+    pending.buttonsReleased.clear();
+    pending.touchesPressed.clear();
+    pending.touchesReleased.clear();
+    pending.mouseDeltaX = 0;
+    pending.mouseDeltaY = 0;
+    pending.wheelX = 0;
+    pending.wheelY = 0;
+  }
+
+  /**
+   * Listen to the input events to collect the polling state. Simulated events from `dispatch` are included.
+   */
+  private addStateListeners(): void {
+    const { pending } = this;
+
+    this.stateHandlers.push(
+      this.emitter.on({
+        event: 'keyPressed',
+        callback: (keyCode) => {
+          // Key repeat sends more pressed events while the key is held.
+          if (!pending.keysDown.has(keyCode)) {
+            pending.keysDown.add(keyCode);
+            pending.keysPressed.add(keyCode);
+          }
+        },
+      }),
+      this.emitter.on({
+        event: 'keyReleased',
+        callback: (keyCode) => {
+          pending.keysDown.delete(keyCode);
+          pending.keysReleased.add(keyCode);
+        },
+      }),
+      this.emitter.on({
+        event: 'mousePressed',
+        callback: (button, x, y) => {
+          pending.buttonsDown.add(button);
+          pending.buttonsPressed.add(button);
+          pending.mouseX = x;
+          pending.mouseY = y;
+        },
+      }),
+      this.emitter.on({
+        event: 'mouseReleased',
+        callback: (button, x, y) => {
+          pending.buttonsDown.delete(button);
+          pending.buttonsReleased.add(button);
+          pending.mouseX = x;
+          pending.mouseY = y;
+        },
+      }),
+      this.emitter.on({
+        event: 'mouseMoved',
+        callback: (x, y, dx, dy) => {
+          pending.mouseX = x;
+          pending.mouseY = y;
+          pending.mouseDeltaX += dx;
+          pending.mouseDeltaY += dy;
+        },
+      }),
+      this.emitter.on({
+        event: 'mouseWheel',
+        callback: (dx, dy) => {
+          pending.wheelX += dx;
+          pending.wheelY += dy;
+        },
+      }),
+      this.emitter.on({
+        event: 'touchPressed',
+        callback: (id, x, y) => {
+          pending.touches.set(id, { id, x, y });
+          pending.touchesPressed.add(id);
+        },
+      }),
+      this.emitter.on({
+        event: 'touchMoved',
+        callback: (id, x, y) => {
+          const touch = pending.touches.get(id);
+          if (touch) {
+            touch.x = x;
+            touch.y = y;
+          }
+        },
+      }),
+      this.emitter.on({
+        event: 'touchReleased',
+        callback: (id) => {
+          pending.touches.delete(id);
+          pending.touchesReleased.add(id);
+        },
+      }),
+    );
   }
 
   private addListeners(): void {
@@ -104,21 +717,28 @@ export class Input {
     this.canvas.addEventListener('keyup', this.onKeyUp);
     this.canvas.addEventListener('keypress', this.onKeyPress);
 
-    this.canvas.addEventListener('mousedown', this.onMouseDown);
-    this.canvas.addEventListener('mouseup', this.onMouseUp);
-    this.canvas.addEventListener('mousemove', this.onMouseMove);
+    // Touches should reach the game as pointer events instead of scrolling or zooming the page.
+    this.canvas.style.touchAction = 'none';
+    this.canvas.addEventListener('pointerdown', this.onPointerDown);
+    this.canvas.addEventListener('pointerup', this.onPointerUp);
+    this.canvas.addEventListener('pointermove', this.onPointerMove);
+    this.canvas.addEventListener('pointercancel', this.onPointerCancel);
     this.canvas.addEventListener('wheel', this.onMouseWheel);
     this.canvas.addEventListener('mouseenter', this.onMouseEnter);
     this.canvas.addEventListener('mouseleave', this.onMouseLeave);
     this.canvas.addEventListener('contextmenu', this.onMouseContext);
 
-    this.canvas.addEventListener('touchstart', this.onTouchDown);
-    this.canvas.addEventListener('touchend', this.onTouchUp);
-    this.canvas.addEventListener('touchmove', this.onTouchMove);
-    this.canvas.addEventListener('touchcancel', this.onTouchCancel);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('gamepadconnected', this.onGamepadConnected);
+      window.addEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    }
 
-    window.addEventListener('gamepadconnected', this.onGamepadConnected);
-    window.addEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    if (typeof document !== 'undefined') {
+      document.addEventListener('pointerlockchange', this.onPointerLockChange);
+      document.addEventListener('copy', this.onCopy);
+      document.addEventListener('cut', this.onCut);
+      document.addEventListener('paste', this.onPaste);
+    }
   }
 
   private removeListeners(): void {
@@ -126,25 +746,113 @@ export class Input {
     this.canvas.removeEventListener('keyup', this.onKeyUp);
     this.canvas.removeEventListener('keypress', this.onKeyPress);
 
-    this.canvas.removeEventListener('mousedown', this.onMouseDown);
-    this.canvas.removeEventListener('mouseup', this.onMouseUp);
-    this.canvas.removeEventListener('mousemove', this.onMouseMove);
+    this.canvas.removeEventListener('pointerdown', this.onPointerDown);
+    this.canvas.removeEventListener('pointerup', this.onPointerUp);
+    this.canvas.removeEventListener('pointermove', this.onPointerMove);
+    this.canvas.removeEventListener('pointercancel', this.onPointerCancel);
     this.canvas.removeEventListener('wheel', this.onMouseWheel);
     this.canvas.removeEventListener('mouseenter', this.onMouseEnter);
     this.canvas.removeEventListener('mouseleave', this.onMouseLeave);
     this.canvas.removeEventListener('contextmenu', this.onMouseContext);
 
-    this.canvas.removeEventListener('touchstart', this.onTouchDown);
-    this.canvas.removeEventListener('touchend', this.onTouchUp);
-    this.canvas.removeEventListener('touchmove', this.onTouchMove);
-    this.canvas.removeEventListener('touchcancel', this.onTouchCancel);
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('gamepadconnected', this.onGamepadConnected);
+      window.removeEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    }
+
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('pointerlockchange', this.onPointerLockChange);
+      document.removeEventListener('copy', this.onCopy);
+      document.removeEventListener('cut', this.onCut);
+      document.removeEventListener('paste', this.onPaste);
+    }
+  }
+
+  /**
+   * Create a pointer from a browser pointer event.
+   * @param event - The pointer event.
+   * @returns The pointer with positions in logical pixels.
+   */
+  private createPointer(event: PointerEvent): Pointer {
+    const { x, y, cssScaleX, cssScaleY } = this.toLogicalPosition(event.clientX, event.clientY);
+    const { scaleX, scaleY } = this.logicalMapping;
+
+    return {
+      id: event.pointerId,
+      type: event.pointerType === 'pen' || event.pointerType === 'touch' ? event.pointerType : 'mouse',
+      x,
+      y,
+      deltaX: ((event.movementX ?? 0) * cssScaleX) / scaleX,
+      deltaY: ((event.movementY ?? 0) * cssScaleY) / scaleY,
+      button: event.button,
+      buttons: event.buttons,
+      pressure: event.pressure ?? 0,
+      tiltX: event.tiltX ?? 0,
+      tiltY: event.tiltY ?? 0,
+      isPrimary: event.isPrimary,
+    };
+  }
+
+  /**
+   * Convert a client position to a logical position on the canvas.
+   * @param clientX - The client x position.
+   * @param clientY - The client y position.
+   * @returns The logical position and the CSS transform scale of the canvas.
+   */
+  private toLogicalPosition(
+    clientX: number,
+    clientY: number,
+  ): { x: number; y: number; cssScaleX: number; cssScaleY: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    const { x, y, scaleX, scaleY } = this.logicalMapping;
+
+    // The bounds include CSS transforms, the client size doesn't. Undo the transform scale.
+    const cssScaleX = this.canvas.clientWidth && rect.width ? this.canvas.clientWidth / rect.width : 1;
+    const cssScaleY = this.canvas.clientHeight && rect.height ? this.canvas.clientHeight / rect.height : 1;
 
-    window.removeEventListener('gamepadconnected', this.onGamepadConnected);
-    window.removeEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    return {
+      x: ((clientX - rect.left) * cssScaleX - x) / scaleX,
+      y: ((clientY - rect.top) * cssScaleY - y) / scaleY,
+      cssScaleX,
+      cssScaleY,
+    };
+  }
+
+  /**
+   * Count the touch pointers that are down.
+   * @returns The amount of touches.
+   */
+  private getTouchCount(): number {
+    let count = 0;
+    for (const pointer of this.activePointers.values()) {
+      if (pointer.type === 'touch') {
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Emit the mouse and touch events for a pointer that went up, so code using those events keeps working.
+   * @param pointer - The pointer.
+   */
+  private emitPointerUp(pointer: Pointer): void {
+    if (pointer.type === 'touch') {
+      this.emitter.emit('touchReleased', pointer.id, pointer.x, pointer.y, this.getTouchCount());
+      if (pointer.isPrimary) {
+        this.emitter.emit('mouseReleased', 0, pointer.x, pointer.y);
+      }
+    } else {
+      this.emitter.emit('mouseReleased', pointer.button, pointer.x, pointer.y);
+    }
   }
 
   private onKeyDown = (event: KeyboardEvent): void => {
-    event.preventDefault();
+    // Cancelling the clipboard shortcuts stops the browser from sending the copy, cut and paste events.
+    if (!isClipboardShortcut(event)) {
+      event.preventDefault();
+    }
     event.stopPropagation();
 
     const keyCode = getKeyCodeFromString(event.code);
@@ -170,28 +878,66 @@ export class Input {
     this.emitter.emit('keyPress', keyCode, event.code, event.key);
   };
 
-  private onMouseDown = (event: MouseEvent): void => {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = event.x - rect.left;
-    const y = event.y - rect.top;
+  private onPointerDown = (event: PointerEvent): void => {
+    const pointer = this.createPointer(event);
+    this.activePointers.set(pointer.id, pointer);
+
+    // Keep receiving the events of a drag when the pointer leaves the canvas.
+    if (this.canvas.setPointerCapture) {
+      this.canvas.setPointerCapture(event.pointerId);
+    }
 
-    this.emitter.emit('mousePressed', event.button, x, y);
+    this.emitter.emit('pointerPressed', pointer);
+    if (pointer.type === 'touch') {
+      this.emitter.emit('touchPressed', pointer.id, pointer.x, pointer.y, this.getTouchCount());
+      if (pointer.isPrimary) {
+        this.emitter.emit('mousePressed', 0, pointer.x, pointer.y);
+      }
+    } else {
+      this.emitter.emit('mousePressed', pointer.button, pointer.x, pointer.y);
+    }
   };
 
-  private onMouseUp = (event: MouseEvent): void => {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = event.x - rect.left;
-    const y = event.y - rect.top;
+  private onPointerUp = (event: PointerEvent): void => {
+    const pointer = this.createPointer(event);
+    this.activePointers.delete(pointer.id);
 
-    this.emitter.emit('mouseReleased', event.button, x, y);
+    this.emitter.emit('pointerReleased', pointer);
+    this.emitPointerUp(pointer);
   };
 
-  private onMouseMove = (event: MouseEvent): void => {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = event.x - rect.left;
-    const y = event.y - rect.top;
+  private onPointerCancel = (event: PointerEvent): void => {
+    const pointer = this.createPointer(event);
+    this.activePointers.delete(pointer.id);
 
-    this.emitter.emit('mouseMoved', x, y, event.movementX, event.movementY);
+    this.emitter.emit('pointerCancelled', pointer);
+    this.emitPointerUp(pointer);
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    const pointer = this.createPointer(event);
+    if (this.activePointers.has(pointer.id)) {
+      this.activePointers.set(pointer.id, pointer);
+    }
+
+    this.emitter.emit('pointerMoved', pointer);
+    if (pointer.type === 'touch') {
+      this.emitter.emit('touchMoved', pointer.id, pointer.x, pointer.y, this.getTouchCount());
+      if (pointer.isPrimary) {
+        this.emitter.emit('mouseMoved', pointer.x, pointer.y, 0, 0);
+      }
+    } else {
+      this.emitter.emit('mouseMoved', pointer.x, pointer.y, pointer.deltaX, pointer.deltaY);
+
+      // Pressing or releasing a button while another button is down only sends a move with the changed button.
+      if (pointer.button !== -1) {
+        if (pointer.buttons & getButtonMask(pointer.button)) {
+          this.emitter.emit('mousePressed', pointer.button, pointer.x, pointer.y);
+        } else {
+          this.emitter.emit('mouseReleased', pointer.button, pointer.x, pointer.y);
+        }
+      }
+    }
   };
 
   private onMouseWheel = (event: WheelEvent): void => {
@@ -211,97 +957,81 @@ export class Input {
     event.stopImmediatePropagation();
   };
 
-  private onTouchDown = (event: TouchEvent): void => {
-    event.preventDefault();
-    event.stopPropagation();
-
-    let evX = -1;
-    let evY = -1;
-    for (let i = 0; i < event.changedTouches.length; i++) {
-      const touch = event.changedTouches.item(i);
-      if (touch) {
-        if (evX === -1) {
-          evX = touch.clientX;
-          evY = touch.clientY;
-        }
-
-        this.emitter.emit('touchPressed', touch.identifier, touch.clientX, touch.clientY, event.touches.length);
-      }
+  private onCopy = (event: ClipboardEvent): void => {
+    if (isEditable(event.target)) {
+      return;
     }
 
-    this.emitter.emit('mousePressed', 0, evX, evY);
+    this.clipboardEvent = event;
+    this.emitter.emit('copy');
+    this.clipboardEvent = undefined;
   };
 
-  private onTouchUp = (event: TouchEvent): void => {
-    event.preventDefault();
-    event.stopPropagation();
-
-    let evX = -1;
-    let evY = -1;
-    for (let i = 0; i < event.changedTouches.length; i++) {
-      const touch = event.changedTouches.item(i);
-      if (touch) {
-        if (evX === -1) {
-          evX = touch.clientX;
-          evY = touch.clientY;
-        }
-
-        this.emitter.emit('touchReleased', touch.identifier, touch.clientX, touch.clientY, event.touches.length);
-      }
+  private onCut = (event: ClipboardEvent): void => {
+    if (isEditable(event.target)) {
+      return;
     }
 
-    this.emitter.emit('mouseReleased', 0, evX, evY);
+    this.clipboardEvent = event;
+    this.emitter.emit('cut');
+    this.clipboardEvent = undefined;
   };
 
-  private onTouchMove = (event: TouchEvent): void => {
-    event.preventDefault();
-    event.stopPropagation();
-
-    let evX = -1;
-    let evY = -1;
-    for (let i = 0; i < event.changedTouches.length; i++) {
-      const touch = event.changedTouches.item(i);
-      if (touch) {
-        if (evX === -1) {
-          evX = touch.clientX;
-          evY = touch.clientY;
-        }
+  private onPaste = (event: ClipboardEvent): void => {
+    if (isEditable(event.target) || !event.clipboardData) {
+      return;
+    }
 
-        this.emitter.emit('touchMoved', touch.identifier, touch.clientX, touch.clientY, event.touches.length);
-      }
+    event.preventDefault();
+    const text = event.clipboardData.getData('text/plain');
+    if (text) {
+      this.emitter.emit('paste', text);
     }
 
-    this.emitter.emit('mouseMoved', evX, evY, 0, 0);
+    const files = [...event.clipboardData.files];
+    if (files.length > 0) {
+      this.emitter.emit('filesPasted', files);
+    }
   };
 
-  private onTouchCancel = (event: TouchEvent): void => {
+  private onDragOver = (event: DragEvent): void => {
+    // Only files can be dropped, not dragged text or links.
+    if (!event.dataTransfer?.types.includes('Files')) {
+      return;
+    }
+
+    // Needed to allow the drop.
     event.preventDefault();
-    event.stopPropagation();
+    event.dataTransfer.dropEffect = 'copy';
 
-    let evX = -1;
-    let evY = -1;
-    for (let i = 0; i < event.changedTouches.length; i++) {
-      const touch = event.changedTouches.item(i);
-      if (touch) {
-        if (evX === -1) {
-          evX = touch.clientX;
-          evY = touch.clientY;
-        }
+    const { x, y } = this.toLogicalPosition(event.clientX, event.clientY);
+    this.emitter.emit('fileDragOver', x, y);
+  };
 
-        this.emitter.emit('touchReleased', touch.identifier, touch.clientX, touch.clientY, event.touches.length);
-      }
+  private onDragLeave = (): void => {
+    this.emitter.emit('fileDragLeave');
+  };
+
+  private onDrop = (event: DragEvent): void => {
+    const files = [...(event.dataTransfer?.files ?? [])];
+    if (files.length === 0) {
+      return;
     }
 
-    this.emitter.emit('mouseReleased', 0, evX, evY);
+    event.preventDefault();
+    const { x, y } = this.toLogicalPosition(event.clientX, event.clientY);
+    this.emitter.emit('filesDropped', files, x, y);
+  };
+
+  private onPointerLockChange = (): void => {
+    this.emitter.emit('pointerLockChanged', this.isPointerLocked);
   };
 
   private onGamepadConnected = (event: GamepadEvent): void => {
-    this.gamepadStates[event.gamepad.index] = {
-      buttons: {},
-      axes: {},
-    };
+    const { index, id, mapping } = event.gamepad;
+    this.gamepadStates[index] = { id, mapping, buttons: {}, axes: {} };
 
-    this.emitter.emit('gamepadConnected', event.gamepad.index);
+    this.emitter.emit('gamepadConnected', index, id, mapping);
   };
 
   private onGamepadDisconnected = (event: GamepadEvent): void => {
@@ -310,3 +1040,82 @@ export class Input {
     this.emitter.emit('gamepadDisconnected', event.gamepad.index);
   };
 }
+
+/**
+ * Check if an event target is a text field, so clipboard events that belong to it are left alone.
+ * @param target - The event target.
+ * @returns True if the target is editable.
+ */
+function isEditable(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+
+  return element?.tagName === 'INPUT' || element?.tagName === 'TEXTAREA' || element?.isContentEditable === true;
+}
+
+/**
+ * Check if a key event is the copy, cut or paste shortcut.
+ * @param event - The key event.
+ * @returns True for ctrl or cmd with c, x or v.
+ */
+function isClipboardShortcut(event: KeyboardEvent): boolean {
+  if (!event.ctrlKey && !event.metaKey) {
+    return false;
+  }
+
+  const key = event.key.toLowerCase();
+
+  return key === 'c' || key === 'x' || key === 'v';
+}
+
+/**
+ * Get the bit of a button in the pointer event buttons mask. The middle and right buttons are swapped in the mask.
+ * @param button - The button index from the event.
+ * @returns The button bit.
+ */
+function getButtonMask(button: number): number {
+  if (button === 1) {
+    return 4;
+  }
+
+  if (button === 2) {
+    return 2;
+  }
+
+  return 1 << button;
+}
+
+/**
+ * Create empty polling state.
+ * @returns The state.
+ */
+function createPollingState(): PollingState {
+  return {
+    keysDown: new Set(),
+    keysPressed: new Set(),
+    keysReleased: new Set(),
+    buttonsDown: new Set(),
+    buttonsPressed: new Set(),
+    buttonsReleased: new Set(),
+    mouseX: 0,
+    mouseY: 0,
+    mouseDeltaX: 0,
+    mouseDeltaY: 0,
+    wheelX: 0,
+    wheelY: 0,
+    touches: new Map(),
+    touchesPressed: new Set(),
+    touchesReleased: new Set(),
+  };
+}
+
+/**
+ * Replace the contents of a set with the contents of another set.
+ * @param source - The set to copy from.
+ * @param target - The set to copy to.
+ */
+function copySet<T>(source: Set<T>, target: Set<T>): void {
+  target.clear();
+  for (const value of source) {
+    target.add(value);
+  }
+}
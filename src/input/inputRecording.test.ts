@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Core } from '../core.js';
+import { clearServices, getService } from '../di/services.js';
+import { HeadlessCanvas } from '../headless/headlessCanvas.js';
+import { createHeadlessOptions } from '../headless/headlessOptions.js';
+import type { Random } from '../math/random.js';
+import type { Callbacks } from '../utils/callbacks.js';
+import type { Actions } from './actions.js';
+import { GamepadAxis, GamepadButton } from './gamepadMapping.js';
+import type { Gamepads } from './gamepads.js';
+import { Input } from './input.js';
+import {
+  InputPlayer,
+  InputRecorder,
+  type InputRecording,
+  parseRecording,
+  serializeRecording,
+} from './inputRecording.js';
+import { KeyCode } from './keyCode.js';
+
+describe('InputRecorder', () => {
+  let input: Input;
+
+  beforeEach(() => {
+    input = new Input(new HeadlessCanvas(100, 100).asElement());
+  });
+
+  it('should record events with their frame', () => {
+    const recorder = new InputRecorder(input, 42);
+    input.dispatch('keyPressed', KeyCode.Space, 'Space', ' ');
+    recorder.endFrame(0.016);
+    input.dispatch('mouseMoved', 10, 20, 1, 2);
+    recorder.endFrame(0.017);
+
+    const recording = recorder.stop();
+    expect(recording.seed).toBe(42);
+    expect(recording.deltas).toEqual([0.016, 0.017]);
+    expect(recording.events).toEqual([
+      [0, 'keyPressed', 'Space', 'Space', ' '],
+      [1, 'mouseMoved', 10, 20, 1, 2],
+    ]);
+  });
+
+  it('should stop listening when stopped', () => {
+    const recorder = new InputRecorder(input, 1);
+    const recording = recorder.stop();
+    input.dispatch('mouseWheel', 0, 1);
+
+    expect(recording.events).toEqual([]);
+  });
+});
+
+describe('InputPlayer', () => {
+  it('should dispatch the events of each frame', () => {
+    const input = new Input(new HeadlessCanvas(100, 100).asElement());
+    const pressed = vi.fn();
+    input.on({ event: 'mousePressed', callback: pressed });
+
+    const player = new InputPlayer(input, {
+      version: 1,
+      seed: 1,
+      deltas: [0.1, 0.2],
+      events: [[1, 'mousePressed', 0, 5, 6]],
+    });
+
+    expect(player.playFrame()).toBe(0.1);
+    expect(pressed).not.toHaveBeenCalled();
+
+    expect(player.playFrame()).toBe(0.2);
+    expect(pressed).toHaveBeenCalledWith(0, 5, 6);
+
+    expect(player.finished).toBe(true);
+    expect(player.playFrame()).toBeUndefined();
+  });
+
+  it('should replay the raw gamepad values', () => {
+    const input = new Input(new HeadlessCanvas(100, 100).asElement());
+    const player = new InputPlayer(input, {
+      version: 1,
+      seed: 1,
+      deltas: [0.1, 0.1],
+      events: [
+        [0, 'gamepadButton', 0, 1, 1],
+        [1, 'gamepadConnected', 1, 'Pad', ''],
+        [1, 'gamepadAxis', 1, 2, -0.5],
+        [1, 'gamepadDisconnected', 0],
+      ],
+      gamepads: [{ index: 0, id: 'Xbox', mapping: 'standard', axes: { 0: 0.25 }, buttons: {} }],
+    });
+
+    player.playFrame();
+    expect(player.getGamepads()).toEqual([
+      expect.objectContaining({
+        index: 0,
+        id: 'Xbox',
+        mapping: 'standard',
+        axes: [0.25],
+        buttons: [expect.objectContaining({ value: 0 }), expect.objectContaining({ value: 1, pressed: true })],
+      }),
+    ]);
+
+    player.playFrame();
+    expect(player.getGamepads()).toEqual([expect.objectContaining({ index: 1, id: 'Pad', axes: [0, 0, -0.5] })]);
+  });
+});
+
+describe('parseRecording', () => {
+  it('should parse a serialized recording', () => {
+    const recording: InputRecording = { version: 1, seed: 5, deltas: [0.5], events: [[0, 'mouseWheel', 0, 3]] };
+
+    expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+  });
+
+  it('should throw on invalid recordings', () => {
+    expect(() => parseRecording('{"version":99}')).toThrow();
+    expect(() => parseRecording('{"version":1,"seed":1,"deltas":[],"events":[[0,"unknown"]]}')).toThrow();
+  });
+});
+
+describe('Core replay', () => {
+  afterEach(() => {
+    clearServices();
+  });
+
+  /**
+   * Run a small game that moves with the arrow keys and jitters with random numbers.
+   */
+  function runGame(core: Core, frames: { dt: number; key?: boolean }[]): number[] {
+    const input = getService('input') as Input;
+    const callbacks = getService('callbacks') as Callbacks;
+    const random = getService('random') as Random;
+
+    let x = 0;
+    const positions: number[] = [];
+    callbacks.addFixedUpdateCallback((deltaTime) => {
+      if (input.isKeyDown(KeyCode.ArrowRight)) {
+        x += 100 * deltaTime;
+      }
+      x += random.float(-1, 1);
+      positions.push(x);
+    });
+
+    for (const frame of frames) {
+      if (frame.key !== undefined) {
+        input.dispatch(frame.key ? 'keyPressed' : 'keyReleased', KeyCode.ArrowRight, 'ArrowRight', 'ArrowRight');
+      }
+      core.tick(frame.dt);
+    }
+
+    return positions;
+  }
+
+  it('should replay a session exactly', () => {
+    const frames = [
+      { dt: 0.016 },
+      { dt: 0.021, key: true },
+      { dt: 0.009 },
+      { dt: 0.033 },
+      { dt: 0.017, key: false },
+      { dt: 0.016 },
+    ];
+
+    let core = new Core({ width: 32, height: 32, headless: createHeadlessOptions(), fixedUpdateRate: 60 });
+    core.startRecording();
+    const recorded = runGame(core, frames);
+    const recording = parseRecording(serializeRecording(core.stopRecording()));
+    clearServices();
+
+    core = new Core({ width: 32, height: 32, headless: createHeadlessOptions(), fixedUpdateRate: 60 });
+    core.replay(recording);
+    expect(core.isReplaying).toBe(true);
+
+    // Different delta times and no key presses. The replay should use the recording instead.
+    const replayed = runGame(
+      core,
+      frames.map(() => ({ dt: 0.05 })),
+    );
+
+    expect(replayed).toEqual(recorded);
+    expect(recorded.length).toBeGreaterThan(0);
+  });
+
+  it('should replay on a Core that has already run', () => {
+    const frames = [{ dt: 0.016, key: true }, { dt: 0.021 }, { dt: 0.009, key: false }, { dt: 0.033 }];
+
+    // Leave time in the fixed step accumulator before the recording or the replay starts.
+    for (const [recordStart, replayStart] of [
+      [0.016, 0],
+      [0, 0.016],
+    ]) {
+      let core = new Core({ width: 32, height: 32, headless: createHeadlessOptions(), fixedUpdateRate: 60 });
+      core.tick(recordStart);
+      core.startRecording();
+      const recorded = runGame(core, frames);
+      const recording = core.stopRecording();
+      clearServices();
+
+      core = new Core({ width: 32, height: 32, headless: createHeadlessOptions(), fixedUpdateRate: 60 });
+      core.tick(replayStart);
+      core.replay(recording);
+      const replayed = runGame(
+        core,
+        frames.map(() => ({ dt: 0.05 })),
+      );
+      clearServices();
+
+      expect(replayed).toEqual(recorded);
+    }
+  });
+
+  it('should replay the standard gamepads', () => {
+    let core = new Core({ width: 32, height: 32, headless: createHeadlessOptions() });
+    const input = getService('input') as Input;
+    core.startRecording();
+    input.dispatch('gamepadConnected', 0, 'Gamepad', 'standard');
+    input.dispatch('gamepadButton', 0, GamepadButton.A, 1);
+    input.dispatch('gamepadAxis', 0, GamepadAxis.LeftX, 0.75);
+    core.tick(0.016);
+    const recording = core.stopRecording();
+    clearServices();
+
+    core = new Core({ width: 32, height: 32, headless: createHeadlessOptions() });
+    const gamepads = getService('gamepads') as Gamepads;
+    core.replay(recording);
+    core.tick(0.016);
+
+    expect(gamepads.isConnected(0)).toBe(true);
+    expect(gamepads.wasButtonPressedThisFrame(0, GamepadButton.A)).toBe(true);
+    expect(gamepads.getAxis(0, GamepadAxis.LeftX)).toBe(0.75);
+
+    // The replay has ended, so the gamepads come from the browser again.
+    core.tick(0.016);
+    expect(gamepads.isConnected(0)).toBe(false);
+  });
+
+  it('should release the input that is down when a replay starts', () => {
+    const core = new Core({ width: 32, height: 32, headless: createHeadlessOptions() });
+    const input = getService('input') as Input;
+    const actions = getService('actions') as Actions;
+    actions.add('right', [{ type: 'key', key: 'ArrowRight' }]);
+    input.dispatch('keyPressed', KeyCode.ArrowRight, 'ArrowRight', 'ArrowRight');
+    core.tick(0.016);
+
+    core.replay({ version: 1, seed: 1, deltas: [0.016, 0.016], events: [] });
+    core.tick(0.016);
+
+    expect(input.isKeyDown(KeyCode.ArrowRight)).toBe(false);
+    expect(actions.isDown('right')).toBe(false);
+  });
+
+  it('should not start a replay while replaying or recording', () => {
+    const core = new Core({ width: 32, height: 32, headless: createHeadlessOptions() });
+    const recording: InputRecording = { version: 1, seed: 1, deltas: [0.1], events: [] };
+    core.replay(recording);
+    expect(() => core.replay(recording)).toThrow('A recording is already being replayed');
+
+    core.stopReplay();
+    core.startRecording();
+    expect(() => core.replay(recording)).toThrow('Cannot replay while input is being recorded');
+  });
+
+  it('should stop the replay at the end of the recording', () => {
+    const core = new Core({ width: 32, height: 32, headless: createHeadlessOptions() });
+    core.replay({ version: 1, seed: 1, deltas: [0.1], events: [] });
+    core.tick(0.1);
+    core.tick(0.1);
+
+    expect(core.isReplaying).toBe(false);
+    expect((getService('input') as Input).deviceInputEnabled).toBe(true);
+  });
+});
@@ -0,0 +1,378 @@
+import type { EmitHandler } from '../emitter/emitter.js';
+import type { GamepadState, Input, InputEvents, Pointer } from './input.js';
+
+/**
+ * A value in the data of an input event.
+ */
+export type RecordedValue = number | string | boolean | Pointer;
+
+/**
+ * One recorded input event: the frame it happened in, the event name and the event data.
+ */
+export type RecordedEvent = [frame: number, event: keyof InputEvents, ...data: RecordedValue[]];
+
+/**
+ * The raw state of a gamepad that was connected when the recording started.
+ */
+export type RecordedGamepad = GamepadState & { index: number };
+
+/**
+ * A serializable log of all input in a session.
+ */
+export type InputRecording = {
+  version: number;
+
+  /**
+   * The random seed at the start of the recording.
+   */
+  seed: number;
+
+  /**
+   * The delta time of every frame in seconds. The length is the amount of recorded frames.
+   */
+  deltas: number[];
+
+  events: RecordedEvent[];
+
+  /**
+   * The gamepads at the start of the recording. The gamepad events change them from there.
+   */
+  gamepads?: RecordedGamepad[];
+};
+
+const RECORDING_VERSION = 1;
+
+/**
+ * All input event names and if they are recorded. A record so a new event in `InputEvents` can't be forgotten here.
+ */
+const INPUT_EVENTS: Record<keyof InputEvents, boolean> = {
+  keyPressed: true,
+  keyReleased: true,
+  keyPress: true,
+  mousePressed: true,
+  mouseReleased: true,
+  mouseMoved: true,
+  mouseWheel: true,
+  mouseEnter: true,
+  mouseLeave: true,
+  touchPressed: true,
+  touchReleased: true,
+  touchMoved: true,
+  gamepadConnected: true,
+  gamepadDisconnected: true,
+  gamepadAxis: true,
+  gamepadButton: true,
+  pointerPressed: true,
+  pointerMoved: true,
+  pointerReleased: true,
+  pointerCancelled: true,
+  pointerLockChanged: true,
+  textInput: true,
+  compositionUpdate: true,
+  textSubmitted: true,
+  copy: true,
+  cut: true,
+  paste: true,
+  fileDragOver: true,
+  fileDragLeave: true,
+  // Files can't be serialized.
+  filesPasted: false,
+  filesDropped: false,
+};
+
+/**
+ * Records all events that go through an `Input`, including simulated events from `dispatch`.
+ */
+export class InputRecorder {
+  private readonly input: Input;
+
+  private readonly recording: InputRecording;
+
+  private readonly handlers: [keyof InputEvents, EmitHandler][] = [];
+
+  /**
+   * Start recording.
+   * @param input - The input to record.
+   * @param seed - The random seed the session starts with.
+   */
+  constructor(input: Input, seed: number) {
+    this.input = input;
+    const gamepads = Object.entries(input.getGamepadStates()).map(([index, state]) => ({
+      index: Number(index),
+      ...state,
+    }));
+    this.recording = { version: RECORDING_VERSION, seed, deltas: [], events: [], gamepads };
+
+    for (const event of Object.keys(INPUT_EVENTS) as (keyof InputEvents)[]) {
+      if (!INPUT_EVENTS[event]) {
+        continue;
+      }
+
+      const handler = input.onPersistent({
+        event,
+        // The events with values that can't be recorded are skipped above.
+        callback: (...data: unknown[]) => {
+          this.recording.events.push([this.frame, event, ...(data as RecordedValue[])]);
+        },
+      });
+      this.handlers.push([event, handler]);
+    }
+  }
+
+  /**
+   * The frame that is being recorded.
+   */
+  get frame(): number {
+    return this.recording.deltas.length;
+  }
+
+  /**
+   * Finish the current frame. Events after this belong to the next frame.
+   * @param deltaTime - The delta time the frame was updated with in seconds.
+   */
+  endFrame(deltaTime: number): void {
+    this.recording.deltas.push(deltaTime);
+  }
+
+  /**
+   * Stop recording.
+   * @returns The recording.
+   */
+  stop(): InputRecording {
+    for (const [event, handler] of this.handlers) {
+      this.input.off(event, handler);
+    }
+    this.handlers.length = 0;
+
+    return this.recording;
+  }
+}
+
+/**
+ * Plays a recording back by dispatching the events through an `Input`.
+ */
+export class InputPlayer {
+  private readonly input: Input;
+
+  private readonly recording: InputRecording;
+
+  private _frame = 0;
+
+  /**
+   * The index of the next event to dispatch.
+   */
+  private eventIndex = 0;
+
+  /**
+   * The replayed raw gamepad state by gamepad index.
+   */
+  private readonly gamepads = new Map<number, GamepadState>();
+
+  /**
+   * Create a player.
+   * @param input - The input to dispatch the events through.
+   * @param recording - The recording to play.
+   */
+  constructor(input: Input, recording: InputRecording) {
+    this.input = input;
+    this.recording = recording;
+
+    for (const { index, id, mapping, axes, buttons } of recording.gamepads ?? []) {
+      this.gamepads.set(index, { id, mapping, axes: { ...axes }, buttons: { ...buttons } });
+    }
+  }
+
+  /**
+   * The next frame to play.
+   */
+  get frame(): number {
+    return this._frame;
+  }
+
+  /**
+   * Are all frames played.
+   */
+  get finished(): boolean {
+    return this._frame >= this.recording.deltas.length;
+  }
+
+  /**
+   * Dispatch the events of the next frame.
+   * @returns The delta time of the frame in seconds or undefined when the recording is finished.
+   */
+  playFrame(): number | undefined {
+    if (this.finished) {
+      return undefined;
+    }
+
+    const { events } = this.recording;
+    while (this.eventIndex < events.length && events[this.eventIndex][0] <= this._frame) {
+      const [, event, ...data] = events[this.eventIndex];
+      (this.input.dispatch as (event: keyof InputEvents, ...data: RecordedValue[]) => void)(event, ...data);
+      this.updateGamepad(event, data);
+      this.eventIndex++;
+    }
+
+    return this.recording.deltas[this._frame++];
+  }
+
+  /**
+   * Get the replayed gamepads, so the standard gamepad state can be updated from the recording.
+   * @returns Gamepad objects with the raw values of the recorded gamepad events.
+   */
+  getGamepads(): Gamepad[] {
+    return [...this.gamepads].map(([index, state]) => createGamepad(index, state));
+  }
+
+  /**
+   * Apply a replayed gamepad event to the gamepad state.
+   * @param event - The event name.
+   * @param data - The event data.
+   */
+  private updateGamepad(event: keyof InputEvents, data: RecordedValue[]): void {
+    if (event === 'gamepadConnected') {
+      const [index, id, mapping] = data as InputEvents['gamepadConnected'];
+      this.gamepads.set(index, { id, mapping, axes: {}, buttons: {} });
+    } else if (event === 'gamepadDisconnected') {
+      const [index] = data as InputEvents['gamepadDisconnected'];
+      this.gamepads.delete(index);
+    } else if (event === 'gamepadAxis') {
+      const [index, axis, value] = data as InputEvents['gamepadAxis'];
+      const gamepad = this.gamepads.get(index);
+      if (gamepad) {
+        gamepad.axes[axis] = value;
+      }
+    } else if (event === 'gamepadButton') {
+      const [index, button, value] = data as InputEvents['gamepadButton'];
+      const gamepad = this.gamepads.get(index);
+      if (gamepad) {
+        gamepad.buttons[button] = value;
+      }
+    }
+  }
+}
+
+/**
+ * Create a browser gamepad object from a replayed gamepad state.
+ * @param index - The gamepad index.
+ * @param state - The raw values.
+ * @returns The gamepad.
+ */
+function createGamepad(index: number, { id, mapping, axes, buttons }: GamepadState): Gamepad {
+  return {
+    index,
+    id,
+    mapping,
+    connected: true,
+    timestamp: 0,
+    axes: toValueArray(axes),
+    buttons: toValueArray(buttons).map((value) => ({ value, pressed: value > 0, touched: value > 0 })),
+    vibrationActuator: null,
+  } as unknown as Gamepad;
+}
+
+/**
+ * Convert values by index to an array. Missing indices are 0.
+ * @param values - The values by index.
+ * @returns The array.
+ */
+function toValueArray(values: Record<number, number>): number[] {
+  const length = Math.max(-1, ...Object.keys(values).map(Number)) + 1;
+
+  return Array.from({ length }, (_, i) => values[i] ?? 0);
+}
+
+/**
+ * Convert a recording to a JSON string.
+ * @param recording - The recording.
+ * @returns The JSON string.
+ */
+export function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parse a recording saved with `serializeRecording`.
+ * @param json - The JSON string.
+ * @returns The recording.
+ */
+export function parseRecording(json: string): InputRecording {
+  const data = JSON.parse(json) as Partial<InputRecording> | null;
+  if (data?.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported input recording version ${data?.version}`);
+  }
+
+  if (
+    typeof data.seed !== 'number' ||
+    !Array.isArray(data.deltas) ||
+    !data.deltas.every((delta) => typeof delta === 'number') ||
+    !Array.isArray(data.events) ||
+    !data.events.every(isRecordedEvent) ||
+    (data.gamepads !== undefined && (!Array.isArray(data.gamepads) || !data.gamepads.every(isRecordedGamepad)))
+  ) {
+    throw new Error('Invalid input recording');
+  }
+
+  return data as InputRecording;
+}
+
+/**
+ * Check if a value from saved data is a recorded event.
+ * @param value - The value to check.
+ * @returns True if the value is a recorded event.
+ */
+function isRecordedEvent(value: unknown): value is RecordedEvent {
+  return (
+    Array.isArray(value) &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'string' &&
+    INPUT_EVENTS[value[1] as keyof InputEvents] === true &&
+    value.slice(2).every(isRecordedValue)
+  );
+}
+
+/**
+ * Check if a value from saved data is a recorded gamepad.
+ * @param value - The value to check.
+ * @returns True if the value is a recorded gamepad.
+ */
+function isRecordedGamepad(value: unknown): value is RecordedGamepad {
+  const gamepad = value as Partial<RecordedGamepad> | null;
+
+  return (
+    typeof gamepad === 'object' &&
+    gamepad !== null &&
+    typeof gamepad.index === 'number' &&
+    typeof gamepad.id === 'string' &&
+    typeof gamepad.mapping === 'string' &&
+    isNumberRecord(gamepad.axes) &&
+    isNumberRecord(gamepad.buttons)
+  );
+}
+
+/**
+ * Check if a value from saved data is an object with only number values.
+ * @param value - The value to check.
+ * @returns True if all values are numbers.
+ */
+function isNumberRecord(value: unknown): value is Record<number, number> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === 'number')
+  );
+}
+
+/**
+ * Check if a value from saved data can be event data.
+ * @param value - The value to check.
+ * @returns True if the value is a primitive or an object with primitive values, like a pointer.
+ */
+function isRecordedValue(value: unknown): value is RecordedValue {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return Object.values(value).every((item) => typeof item !== 'object');
+  }
+
+  return typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean';
+}
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HeadlessCanvas } from '../headless/headlessCanvas.js';
+import { Input } from './input.js';
+import { KeyCode } from './keyCode.js';
+import { TextInput, type TextInputElement } from './textInput.js';
+
+/**
+ * A stand in for the hidden input element.
+ */
+class FakeInputElement extends EventTarget {
+  value = '';
+  selectionStart = 0;
+  selectionEnd = 0;
+  maxLength = -1;
+  inputMode = '';
+  enterKeyHint = '';
+  focused = false;
+  removed = false;
+
+  removeAttribute(): void {
+    this.maxLength = -1;
+  }
+
+  focus(): void {
+    this.focused = true;
+  }
+
+  blur(): void {
+    this.focused = false;
+  }
+
+  setSelectionRange(start: number, end: number): void {
+    this.selectionStart = start;
+    this.selectionEnd = end;
+  }
+
+  remove(): void {
+    this.removed = true;
+  }
+
+  /**
+   * Type text at the caret like the browser does.
+   */
+  type(text: string): void {
+    this.value = this.value.slice(0, this.selectionStart) + text + this.value.slice(this.selectionEnd);
+    this.selectionStart = this.selectionEnd = this.selectionStart + text.length;
+    this.dispatchEvent(new Event('input'));
+  }
+}
+
+/**
+ * Create a browser event with extra properties.
+ */
+function createEvent(type: string, properties: Record<string, unknown>): Event {
+  return Object.assign(new Event(type), properties);
+}
+
+describe('TextInput', () => {
+  let input: Input;
+  let element: FakeInputElement;
+  let textInput: TextInput;
+
+  beforeEach(() => {
+    input = new Input(new HeadlessCanvas(100, 100).asElement());
+    element = new FakeInputElement();
+    textInput = new TextInput(input, () => element as unknown as TextInputElement);
+  });
+
+  it('should focus the hidden element when a session starts', () => {
+    textInput.start({ value: 'Bob', maxLength: 12, inputMode: 'email' });
+
+    expect(textInput.active).toBe(true);
+    expect(element.focused).toBe(true);
+    expect(element.maxLength).toBe(12);
+    expect(element.inputMode).toBe('email');
+    expect(textInput.value).toBe('Bob');
+    expect(textInput.selectionStart).toBe(3);
+
+    textInput.stop();
+    expect(textInput.active).toBe(false);
+    expect(element.focused).toBe(false);
+  });
+
+  it('should emit text input events', () => {
+    const onText = vi.fn();
+    input.on({ event: 'textInput', callback: onText });
+
+    textInput.start();
+    element.type('hi');
+
+    expect(onText).toHaveBeenLastCalledWith('hi', 2, 2);
+  });
+
+  it('should emit composition updates and only the composed result as text', () => {
+    const onText = vi.fn();
+    const onComposition = vi.fn();
+    textInput.start();
+    input.on({ event: 'textInput', callback: onText });
+    input.on({ event: 'compositionUpdate', callback: onComposition });
+
+    element.dispatchEvent(createEvent('compositionstart', { data: '' }));
+    element.dispatchEvent(createEvent('compositionupdate', { data: 'に' }));
+    element.type('に');
+    expect(textInput.composition).toBe('に');
+    expect(onText).not.toHaveBeenCalled();
+
+    element.dispatchEvent(createEvent('compositionend', { data: '日' }));
+    expect(textInput.composition).toBe('');
+    expect(onComposition.mock.calls).toEqual([[''], ['に'], ['']]);
+    expect(onText).toHaveBeenCalledWith('に', 1, 1);
+  });
+
+  it('should submit on enter', () => {
+    const onSubmit = vi.fn();
+    input.on({ event: 'textSubmitted', callback: onSubmit });
+    textInput.start({ value: 'Alice' });
+
+    element.dispatchEvent(createEvent('keydown', { key: 'Enter', isComposing: true }));
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    element.dispatchEvent(createEvent('keydown', { key: 'Enter', isComposing: false }));
+    expect(onSubmit).toHaveBeenCalledWith('Alice');
+  });
+
+  it('should release the keys that were held when the session started', () => {
+    const onKeyReleased = vi.fn();
+    input.on({ event: 'keyReleased', callback: onKeyReleased });
+    input.dispatch('keyPressed', KeyCode.Enter, 'Enter', 'Enter');
+    input.update();
+
+    textInput.start();
+    element.dispatchEvent(createEvent('keydown', { code: 'KeyA', key: 'a' }));
+    element.dispatchEvent(createEvent('keyup', { code: 'KeyA', key: 'a' }));
+    element.dispatchEvent(createEvent('keyup', { code: 'Enter', key: 'Enter' }));
+    input.update();
+
+    expect(onKeyReleased.mock.calls).toEqual([[KeyCode.Enter, 'Enter', 'Enter']]);
+    expect(input.isKeyDown(KeyCode.Enter)).toBe(false);
+  });
+
+  it('should change the text and selection', () => {
+    const onText = vi.fn();
+    input.on({ event: 'textInput', callback: onText });
+    textInput.start();
+
+    textInput.setValue('hello');
+    textInput.setSelection(1, 3);
+
+    expect(onText).toHaveBeenLastCalledWith('hello', 1, 3);
+  });
+
+  it('should remove the element on destroy', () => {
+    textInput.start();
+    textInput.destroy();
+
+    expect(element.removed).toBe(true);
+    expect(textInput.value).toBe('');
+  });
+});
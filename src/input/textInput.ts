@@ -0,0 +1,314 @@
+import type { Input } from './input.js';
+import { getKeyCodeFromString } from './keyCode.js';
+
+export type TextInputOptions = {
+  /**
+   * The start text. Defaults to an empty string.
+   */
+  value?: string;
+
+  /**
+   * The maximum amount of characters.
+   */
+  maxLength?: number;
+
+  /**
+   * The virtual keyboard layout on mobile. Defaults to 'text'.
+   */
+  inputMode?: 'text' | 'numeric' | 'decimal' | 'email' | 'url' | 'search';
+
+  /**
+   * The label of the enter key on mobile virtual keyboards. Defaults to 'done'.
+   */
+  enterKeyHint?: 'done' | 'go' | 'next' | 'search' | 'send';
+};
+
+/**
+ * The hidden element text is typed into. A DOM input element in the browser.
+ */
+export type TextInputElement = Pick<
+  HTMLInputElement,
+  | 'value'
+  | 'selectionStart'
+  | 'selectionEnd'
+  | 'maxLength'
+  | 'removeAttribute'
+  | 'inputMode'
+  | 'enterKeyHint'
+  | 'addEventListener'
+  | 'removeEventListener'
+  | 'focus'
+  | 'blur'
+  | 'setSelectionRange'
+  | 'remove'
+>;
+
+/**
+ * Collects text with a hidden input element, so IME composition, dead keys and mobile virtual keyboards work.
+ * While a session is active key events go to the hidden element instead of the canvas.
+ *
+ * Changes are sent as `Input` events: `textInput` when the text or selection changes, `compositionUpdate` while an
+ * IME composes text and `textSubmitted` when enter is pressed.
+ */
+export class TextInput {
+  private readonly input: Input;
+
+  private readonly createElement: () => TextInputElement;
+
+  private readonly onFocusChange?: (event: FocusEvent) => void;
+
+  private element?: TextInputElement;
+
+  private _active = false;
+
+  private _composition = '';
+
+  /**
+   * The key codes that went down on the hidden element during the session.
+   */
+  private readonly typedKeys = new Set<string>();
+
+  /**
+   * Create the text input.
+   * @param input - The input to send the text events through.
+   * @param createElement - Create the hidden element. Defaults to a DOM input element.
+   * @param onFocusChange - Called with the focus and blur events of the hidden element. Core uses this to notice
+   * when the focus moves from a session to outside the game.
+   */
+  constructor(
+    input: Input,
+    createElement: () => TextInputElement = createHiddenInput,
+    onFocusChange?: (event: FocusEvent) => void,
+  ) {
+    this.input = input;
+    this.createElement = createElement;
+    this.onFocusChange = onFocusChange;
+  }
+
+  /**
+   * Is a text input session active.
+   */
+  get active(): boolean {
+    return this._active;
+  }
+
+  /**
+   * The current text. Includes text that is being composed.
+   */
+  get value(): string {
+    return this.element?.value ?? '';
+  }
+
+  /**
+   * The caret position or the start of the selection.
+   */
+  get selectionStart(): number {
+    return this.element?.selectionStart ?? 0;
+  }
+
+  /**
+   * The end of the selection. The same as `selectionStart` when nothing is selected.
+   */
+  get selectionEnd(): number {
+    return this.element?.selectionEnd ?? 0;
+  }
+
+  /**
+   * The text that an IME is composing. Empty when nothing is being composed.
+   */
+  get composition(): string {
+    return this._composition;
+  }
+
+  /**
+   * Start a text input session and show the virtual keyboard on mobile. Mobile browsers only show the keyboard when
+   * this is called from a user input event like a tap.
+   * @param options - The start text and keyboard options.
+   */
+  start({ value = '', maxLength, inputMode = 'text', enterKeyHint = 'done' }: TextInputOptions = {}): void {
+    if (!this.element) {
+      this.element = this.createElement();
+      this.element.addEventListener('input', this.onInput);
+      this.element.addEventListener('select', this.onSelect);
+      this.element.addEventListener('keydown', this.onKeyDown);
+      this.element.addEventListener('keyup', this.onKeyUp);
+      this.element.addEventListener('compositionstart', this.onComposition);
+      this.element.addEventListener('compositionupdate', this.onComposition);
+      this.element.addEventListener('compositionend', this.onCompositionEnd);
+      this.element.addEventListener('focus', this.onFocusOrBlur);
+      this.element.addEventListener('blur', this.onFocusOrBlur);
+    }
+
+    const element = this.element;
+    element.value = value;
+    if (maxLength === undefined) {
+      element.removeAttribute('maxlength');
+    } else {
+      element.maxLength = maxLength;
+    }
+    element.inputMode = inputMode;
+    element.enterKeyHint = enterKeyHint;
+    element.focus();
+    element.setSelectionRange(value.length, value.length);
+
+    this._active = true;
+    this._composition = '';
+    this.typedKeys.clear();
+    this.emitChange();
+  }
+
+  /**
+   * End the text input session, hide the virtual keyboard and give the focus back to the canvas.
+   */
+  stop(): void {
+    if (!this._active) {
+      return;
+    }
+
+    this._active = false;
+    this._composition = '';
+    // Move the focus straight to the canvas, so the page never sees the game lose focus.
+    this.input.focus();
+    this.element?.blur();
+  }
+
+  /**
+   * Check if an event target is the hidden element. Core uses this to ignore the canvas blur when a session starts.
+   * @param target - The event target, like the related target of a focus event.
+   * @returns True if the target is the hidden element.
+   */
+  isTextElement(target: EventTarget | null): boolean {
+    return target !== null && target === (this.element as unknown);
+  }
+
+  /**
+   * Replace the text.
+   * @param value - The new text. The caret is moved to the end.
+   */
+  setValue(value: string): void {
+    if (!this.element) {
+      return;
+    }
+
+    this.element.value = value;
+    this.element.setSelectionRange(value.length, value.length);
+    this.emitChange();
+  }
+
+  /**
+   * Move the caret or select text.
+   * @param start - The start of the selection.
+   * @param end - The end of the selection. Defaults to start, which only moves the caret.
+   */
+  setSelection(start: number, end: number = start): void {
+    if (!this.element) {
+      return;
+    }
+
+    this.element.setSelectionRange(start, end);
+    this.emitChange();
+  }
+
+  /**
+   * Stop the session and remove the hidden element.
+   */
+  destroy(): void {
+    this.stop();
+    if (this.element) {
+      this.element.removeEventListener('input', this.onInput);
+      this.element.removeEventListener('select', this.onSelect);
+      this.element.removeEventListener('keydown', this.onKeyDown);
+      this.element.removeEventListener('keyup', this.onKeyUp);
+      this.element.removeEventListener('compositionstart', this.onComposition);
+      this.element.removeEventListener('compositionupdate', this.onComposition);
+      this.element.removeEventListener('compositionend', this.onCompositionEnd);
+      this.element.removeEventListener('focus', this.onFocusOrBlur);
+      this.element.removeEventListener('blur', this.onFocusOrBlur);
+      this.element.remove();
+      this.element = undefined;
+    }
+  }
+
+  private emitChange(): void {
+    this.input.dispatch('textInput', this.value, this.selectionStart, this.selectionEnd);
+  }
+
+  private onInput = (): void => {
+    // The text changes with every composition update. Only the composed result counts as input.
+    if (!this._composition) {
+      this.emitChange();
+    }
+  };
+
+  private onSelect = (): void => {
+    this.emitChange();
+  };
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    // Page level key handlers should not react to the keys that are used for typing.
+    event.stopPropagation();
+    this.typedKeys.add(event.code);
+
+    if (event.key === 'Enter' && !event.isComposing) {
+      event.preventDefault();
+      this.input.dispatch('textSubmitted', this.value);
+    }
+  };
+
+  private onKeyUp = (event: KeyboardEvent): void => {
+    event.stopPropagation();
+
+    // A key that was held when the session started went down on the canvas. Release it there too, so it doesn't
+    // stay down in the game.
+    if (!this.typedKeys.delete(event.code)) {
+      this.input.dispatch('keyReleased', getKeyCodeFromString(event.code), event.code, event.key);
+    }
+
+    // The caret only has its new position after the key down event.
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight' || event.key === 'Home' || event.key === 'End') {
+      this.emitChange();
+    }
+  };
+
+  private onFocusOrBlur = (event: FocusEvent): void => {
+    this.onFocusChange?.(event);
+  };
+
+  private onComposition = (event: CompositionEvent): void => {
+    this._composition = event.data;
+    this.input.dispatch('compositionUpdate', this._composition);
+  };
+
+  private onCompositionEnd = (): void => {
+    this._composition = '';
+    this.input.dispatch('compositionUpdate', '');
+    this.emitChange();
+  };
+}
+
+/**
+ * Create an invisible input element. It stays in the page so the browser keeps the IME and virtual keyboard open.
+ * @returns The element.
+ */
+function createHiddenInput(): HTMLInputElement {
+  const element = document.createElement('input');
+  element.type = 'text';
+  element.autocomplete = 'off';
+  element.setAttribute('autocapitalize', 'off');
+  element.setAttribute('autocorrect', 'off');
+  element.spellcheck = false;
+
+  const { style } = element;
+  style.position = 'fixed';
+  style.left = '0';
+  style.top = '0';
+  style.width = '1px';
+  style.height = '1px';
+  style.opacity = '0';
+  style.pointerEvents = 'none';
+  // Smaller fonts make iOS zoom in on focus.
+  style.fontSize = '16px';
+  document.body.appendChild(element);
+
+  return element;
+}
@@ -1,6 +1,16 @@
 import { describe, expect, it } from 'vitest';
 
-import { clamp, distance, fuzzyEqual, lerp, linesIntersect, rotateAround, toDeg, toRad } from './mathUtils.js';
+import {
+  applyDeadzone,
+  clamp,
+  distance,
+  fuzzyEqual,
+  lerp,
+  linesIntersect,
+  rotateAround,
+  toDeg,
+  toRad,
+} from './mathUtils.js';
 import { Vec2 } from './vec2.js';
 
 describe('mathUtils', () => {
@@ -31,6 +41,14 @@ describe('mathUtils', () => {
     expect(distance(1, 1, 4, 5)).toBe(5);
   });
 
+  it('applyDeadzone should ignore small values and rescale the rest', () => {
+    expect(applyDeadzone(0.1, 0.2)).toBe(0);
+    expect(applyDeadzone(-0.2, 0.2)).toBe(0);
+    expect(applyDeadzone(0.6, 0.2)).toBeCloseTo(0.5);
+    expect(applyDeadzone(-1, 0.2)).toBe(-1);
+    expect(applyDeadzone(1.5, 0.2)).toBe(1);
+  });
+
   it('fuzzyEqual should compare two values that are almost equal', () => {
     expect(fuzzyEqual(0.1 + 0.2, 0.3)).toBe(true);
     expect(fuzzyEqual(0.1, 0.2)).toBe(false);
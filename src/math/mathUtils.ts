@@ -58,6 +58,21 @@ export function distance(x1: number, y1: number, x2: number, y2: number): number
   return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
 }
 
+/**
+ * Ignore values close to 0 and scale the rest of the range back to 0 - 1. Used for gamepad sticks and triggers.
+ * @param value - The value (-1 - 1).
+ * @param deadzone - The distance from 0 to ignore.
+ * @returns The value with the deadzone applied.
+ */
+export function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) {
+    return 0;
+  }
+
+  return Math.sign(value) * Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+}
+
 /**
  * Compare two values that are almost equal.
  * @param a - The first value to compare.
@@ -0,0 +1,85 @@
+import type { Graphics } from '../graphics/graphics.js';
+
+/**
+ * Base class for scenes managed by the Scenes service. Override the lifecycle hooks that are needed.
+ */
+export class Scene {
+  /**
+   * If true the scenes below this one in the stack are rendered first. Use this for overlays like pause menus.
+   * Scenes below an overlay are paused and don't get updates.
+   */
+  overlay = false;
+
+  /**
+   * Has the scene been loaded. This is managed by the Scenes service.
+   */
+  loaded = false;
+
+  /**
+   * Called once before the scene is entered for the first time. Can be used to load assets.
+   */
+  load(): void | Promise<void> {}
+
+  /**
+   * Called when the scene becomes active.
+   */
+  enter(): void {}
+
+  /**
+   * Called when the scene gets removed from the stack.
+   */
+  exit(): void {}
+
+  /**
+   * Called when another scene gets pushed on top of this one.
+   */
+  pause(): void {}
+
+  /**
+   * Called when this scene is the top scene again after the scene on top of it got removed.
+   */
+  resume(): void {}
+
+  /**
+   * Called after exit when the scene is removed from the stack. Clean up resources here.
+   */
+  destroy(): void {}
+
+  /**
+   * Update the scene. Only called on the top scene.
+   * @param _deltaTime - The time passed since the last update in seconds.
+   */
+  update(_deltaTime: number): void {}
+
+  /**
+   * Fixed update the scene. Only called on the top scene.
+   * @param _deltaTime - The fixed time step in seconds.
+   */
+  fixedUpdate(_deltaTime: number): void {}
+
+  /**
+   * Render the scene.
+   * @param _graphics - The graphics used to render.
+   * @param _alpha - The interpolation alpha between fixed updates.
+   */
+  render(_graphics: Graphics, _alpha: number): void {}
+
+  /**
+   * Called when the game resizes.
+   * @param _width - The new logical width.
+   * @param _height - The new logical height.
+   * @param _physicalWidth - The new drawing buffer width in pixels.
+   * @param _physicalHeight - The new drawing buffer height in pixels.
+   */
+  resize(_width: number, _height: number, _physicalWidth: number, _physicalHeight: number): void {}
+
+  /**
+   * Called when the game gets focus.
+   */
+  focus(): void {}
+
+  /**
+   * Called when the game loses focus.
+   */
+  blur(): void {}
+}
@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Graphics } from '../graphics/graphics.js';
+import { Transition } from '../graphics/transitions/transition.js';
+import type { Input } from '../input/input.js';
+import { Callbacks } from '../utils/callbacks.js';
+import { Scene } from './scene.js';
+import { Scenes } from './scenes.js';
+
+class TestScene extends Scene {
+  readonly events: string[];
+
+  readonly name: string;
+
+  constructor(name: string, events: string[], overlay = false) {
+    super();
+    this.name = name;
+    this.events = events;
+    this.overlay = overlay;
+  }
+
+  override load(): Promise<void> {
+    this.events.push(`${this.name}:load`);
+    return Promise.resolve();
+  }
+
+  override enter(): void {
+    this.events.push(`${this.name}:enter`);
+  }
+
+  override exit(): void {
+    this.events.push(`${this.name}:exit`);
+  }
+
+  override pause(): void {
+    this.events.push(`${this.name}:pause`);
+  }
+
+  override resume(): void {
+    this.events.push(`${this.name}:resume`);
+  }
+
+  override destroy(): void {
+    this.events.push(`${this.name}:destroy`);
+  }
+
+  override update(): void {
+    this.events.push(`${this.name}:update`);
+  }
+
+  override render(): void {
+    this.events.push(`${this.name}:render`);
+  }
+
+  override resize(width: number, height: number): void {
+    this.events.push(`${this.name}:resize ${width}x${height}`);
+  }
+}
+
+class TestTransition extends Transition {
+  render(): void {}
+}
+
+describe('Scenes', () => {
+  let callbacks: Callbacks;
+  let scenes: Scenes;
+  let events: string[];
+
+  beforeEach(() => {
+    callbacks = new Callbacks({} as Input);
+    scenes = new Scenes(callbacks);
+    events = [];
+  });
+
+  it('should load and enter a pushed scene', async () => {
+    const scene = new TestScene('a', events);
+    await scenes.push(scene);
+
+    expect(scenes.current).toBe(scene);
+    expect(scene.loaded).toBe(true);
+    expect(events).toEqual(['a:load', 'a:enter']);
+  });
+
+  it('should pause the current scene when pushing and resume it when popping', async () => {
+    await scenes.push(new TestScene('a', events));
+    await scenes.push(new TestScene('b', events));
+    await scenes.pop();
+
+    expect(scenes.count).toBe(1);
+    expect(events).toEqual(['a:load', 'a:enter', 'b:load', 'a:pause', 'b:enter', 'b:exit', 'a:resume', 'b:destroy']);
+  });
+
+  it('should replace the top scene', async () => {
+    const a = new TestScene('a', events);
+    const b = new TestScene('b', events);
+    await scenes.push(a);
+    await scenes.replace(b);
+
+    expect(scenes.count).toBe(1);
+    expect(scenes.current).toBe(b);
+    expect(events).toEqual(['a:load', 'a:enter', 'b:load', 'a:exit', 'b:enter', 'a:destroy']);
+  });
+
+  it('should destroy the replaced scene after the transition is done', async () => {
+    await scenes.push(new TestScene('a', events));
+    const done = scenes.replace(new TestScene('b', events), new TestTransition(1));
+
+    // Let the new scene load and enter.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(events).toEqual(['a:load', 'a:enter', 'b:load', 'a:exit', 'b:enter']);
+
+    callbacks.unscaledUpdate(1);
+    await done;
+
+    expect(events).toEqual(['a:load', 'a:enter', 'b:load', 'a:exit', 'b:enter', 'a:destroy']);
+  });
+
+  it('should keep running when the game callbacks are cleared', async () => {
+    const gameUpdate = vi.fn();
+    callbacks.addUpdateCallback(gameUpdate);
+    await scenes.push(new TestScene('a', events));
+
+    callbacks.clearCallbacks();
+    callbacks.update(0.1);
+    callbacks.render({} as Graphics);
+
+    expect(gameUpdate).not.toHaveBeenCalled();
+    expect(events).toEqual(['a:load', 'a:enter', 'a:update', 'a:render']);
+  });
+
+  it('should run queued changes in order', async () => {
+    const a = new TestScene('a', events);
+    const b = new TestScene('b', events);
+    scenes.push(a);
+    scenes.push(b);
+    await scenes.pop();
+
+    expect(scenes.current).toBe(a);
+  });
+
+  it('should reject popping an empty stack', async () => {
+    await expect(scenes.pop()).rejects.toThrowError('There is no scene to remove');
+  });
+
+  it('should only update the top scene', async () => {
+    await scenes.push(new TestScene('a', events));
+    await scenes.push(new TestScene('b', events, true));
+    events.length = 0;
+
+    callbacks.update(0.016);
+
+    expect(events).toEqual(['b:update']);
+  });
+
+  it('should render scenes below overlays', async () => {
+    await scenes.push(new TestScene('a', events));
+    await scenes.push(new TestScene('b', events));
+    await scenes.push(new TestScene('c', events, true));
+    events.length = 0;
+
+    callbacks.render({} as Graphics);
+
+    expect(events).toEqual(['b:render', 'c:render']);
+  });
+
+  it('should forward resize to all scenes', async () => {
+    await scenes.push(new TestScene('a', events));
+    await scenes.push(new TestScene('b', events));
+    events.length = 0;
+
+    callbacks.resize(800, 600);
+
+    expect(events).toEqual(['a:resize 800x600', 'b:resize 800x600']);
+  });
+
+  it('should remove all scenes when destroyed', async () => {
+    await scenes.push(new TestScene('a', events));
+    scenes.destroy();
+    events.length = 0;
+
+    callbacks.update(0.016);
+
+    expect(scenes.count).toBe(0);
+    expect(events).toEqual([]);
+  });
+});
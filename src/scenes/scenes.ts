@@ -0,0 +1,281 @@
+import type { Graphics } from '../graphics/graphics.js';
+import type { Transition } from '../graphics/transitions/transition.js';
+import { TransitionPlayer } from '../graphics/transitions/transitionPlayer.js';
+import type { Callbacks } from '../utils/callbacks.js';
+import type { Scene } from './scene.js';
+
+/**
+ * Scene stack manager. Only the top scene is updated. Scenes are rendered bottom to top, starting at the first scene
+ * that is not covered by an overlay. Stack changes can play a transition between the old and the new scenes.
+ */
+export class Scenes {
+  /**
+   * The scene at the top of the stack.
+   */
+  get current(): Scene | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /**
+   * The amount of scenes in the stack.
+   */
+  get count(): number {
+    return this.stack.length;
+  }
+
+  /**
+   * The scene stack. The last scene is the top scene.
+   */
+  private stack: Scene[] = [];
+
+  /**
+   * Stack changes are queued so a change never starts before the previous one finished loading.
+   */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Plays the transitions between stack changes.
+   */
+  private readonly transitions = new TransitionPlayer();
+
+  private callbacks: Callbacks;
+
+  /**
+   * Create a new scene manager.
+   * @param callbacks - The callbacks to hook the scenes into.
+   */
+  constructor(callbacks: Callbacks) {
+    this.callbacks = callbacks;
+
+    this.callbacks.addServiceCallbacks({
+      update: this.update,
+      unscaledUpdate: this.updateTransition,
+      fixedUpdate: this.fixedUpdate,
+      render: this.render,
+      resize: this.resize,
+      focus: this.focus,
+      blur: this.blur,
+    });
+  }
+
+  /**
+   * Push a scene on top of the stack. The current top scene gets paused.
+   * @param scene - The scene to push.
+   * @param transition - Optional transition from the current scenes to the new scene.
+   * @returns A promise that resolves when the scene is loaded and entered and the transition is done.
+   */
+  push(scene: Scene, transition?: Transition): Promise<void> {
+    return this.enqueue(async () => {
+      await this.loadScene(scene);
+
+      const from = this.getVisibleScenes();
+      this.current?.pause();
+      this.stack.push(scene);
+      scene.enter();
+
+      if (transition) {
+        await this.playTransition(transition, from);
+      }
+    });
+  }
+
+  /**
+   * Remove the top scene from the stack. The scene below it gets resumed.
+   * @param transition - Optional transition from the removed scene to the scenes below it.
+   * @returns A promise that resolves when the scene is removed and the transition is done.
+   */
+  pop(transition?: Transition): Promise<void> {
+    return this.enqueue(async () => {
+      const from = this.getVisibleScenes();
+      const scene = this.removeTop();
+      this.current?.resume();
+
+      // The removed scene is still rendered during the transition, so it is destroyed after.
+      if (transition) {
+        await this.playTransition(transition, from);
+      }
+      this.destroyScene(scene);
+    });
+  }
+
+  /**
+   * Replace the top scene with a new scene.
+   * @param scene - The new scene.
+   * @param transition - Optional transition from the replaced scene to the new scene.
+   * @returns A promise that resolves when the new scene is loaded and entered and the transition is done.
+   */
+  replace(scene: Scene, transition?: Transition): Promise<void> {
+    return this.enqueue(async () => {
+      await this.loadScene(scene);
+
+      const from = this.getVisibleScenes();
+      const replaced = this.stack.length > 0 ? this.removeTop() : undefined;
+      this.stack.push(scene);
+      scene.enter();
+
+      if (transition) {
+        await this.playTransition(transition, from);
+      }
+
+      if (replaced) {
+        this.destroyScene(replaced);
+      }
+    });
+  }
+
+  /**
+   * Remove all scenes from the stack.
+   * @returns A promise that resolves when all scenes are removed.
+   */
+  clear(): Promise<void> {
+    return this.enqueue(() => {
+      while (this.stack.length > 0) {
+        this.destroyScene(this.removeTop());
+      }
+    });
+  }
+
+  /**
+   * Remove all scenes and unhook the manager from the callbacks.
+   */
+  destroy(): void {
+    this.transitions.finish();
+    while (this.stack.length > 0) {
+      this.destroyScene(this.removeTop());
+    }
+
+    this.callbacks.removeUpdateCallback(this.update);
+    this.callbacks.removeUpdateCallback(this.updateTransition);
+    this.callbacks.removeFixedUpdateCallback(this.fixedUpdate);
+    this.callbacks.removeRenderCallback(this.render);
+    this.callbacks.removeResizeCallback(this.resize);
+    this.callbacks.removeFocusCallback(this.focus);
+    this.callbacks.removeBlurCallback(this.blur);
+  }
+
+  /**
+   * Run a stack change after all previous changes are done.
+   * @param change - The change to run.
+   * @returns A promise that resolves when the change is done.
+   */
+  private enqueue(change: () => void | Promise<void>): Promise<void> {
+    const result = this.queue.then(change);
+
+    // A failed change should not block the changes after it.
+    this.queue = result.catch(() => {});
+
+    return result;
+  }
+
+  /**
+   * Load a scene if it has not been loaded before.
+   * @param scene - The scene to load.
+   */
+  private async loadScene(scene: Scene): Promise<void> {
+    if (!scene.loaded) {
+      await scene.load();
+      scene.loaded = true;
+    }
+  }
+
+  /**
+   * Remove and exit the top scene.
+   * @returns The removed scene.
+   */
+  private removeTop(): Scene {
+    const scene = this.stack.pop();
+    if (!scene) {
+      throw new Error('There is no scene to remove');
+    }
+    scene.exit();
+
+    return scene;
+  }
+
+  /**
+   * Destroy a removed scene.
+   * @param scene - The scene to destroy.
+   */
+  private destroyScene(scene: Scene): void {
+    scene.destroy();
+    scene.loaded = false;
+  }
+
+  /**
+   * Get the scenes that are rendered. The top scene and all scenes below it that are covered by overlays.
+   * @returns The visible scenes from bottom to top.
+   */
+  private getVisibleScenes(): Scene[] {
+    let start = this.stack.length - 1;
+    while (start > 0 && this.stack[start].overlay) {
+      start--;
+    }
+
+    return this.stack.slice(Math.max(start, 0));
+  }
+
+  /**
+   * Play a transition from the scenes that were visible before a stack change to the current visible scenes.
+   * @param transition - The transition to play.
+   * @param from - The scenes that were visible before the change.
+   * @returns A promise that resolves when the transition is done.
+   */
+  private playTransition(transition: Transition, from: Scene[]): Promise<void> {
+    return this.transitions.play({
+      transition,
+      renderFrom: (graphics: Graphics, alpha: number): void => this.renderScenes(graphics, alpha, from),
+      renderTo: (graphics: Graphics, alpha: number): void =>
+        this.renderScenes(graphics, alpha, this.getVisibleScenes()),
+    });
+  }
+
+  /**
+   * Render a list of scenes.
+   * @param graphics - The graphics to render with.
+   * @param alpha - The interpolation alpha.
+   * @param scenes - The scenes to render from bottom to top.
+   */
+  private renderScenes(graphics: Graphics, alpha: number, scenes: Scene[]): void {
+    for (const scene of scenes) {
+      scene.render(graphics, alpha);
+    }
+  }
+
+  private update = (deltaTime: number): void => {
+    this.current?.update(deltaTime);
+  };
+
+  private fixedUpdate = (deltaTime: number): void => {
+    this.current?.fixedUpdate(deltaTime);
+  };
+
+  private updateTransition = (deltaTime: number): void => {
+    this.transitions.update(deltaTime);
+  };
+
+  private render = (graphics: Graphics, alpha: number): void => {
+    if (this.transitions.active) {
+      this.transitions.render(graphics, alpha);
+    } else {
+      this.renderScenes(graphics, alpha, this.getVisibleScenes());
+    }
+  };
+
+  private resize = (width: number, height: number, physicalWidth: number, physicalHeight: number): void => {
+    for (const scene of this.stack) {
+      scene.resize(width, height, physicalWidth, physicalHeight);
+    }
+  };
+
+  private focus = (): void => {
+    for (const scene of this.stack) {
+      scene.focus();
+    }
+  };
+
+  private blur = (): void => {
+    for (const scene of this.stack) {
+      scene.blur();
+    }
+  };
+}
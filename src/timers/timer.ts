@@ -0,0 +1,88 @@
+/**
+ * A timer handle returned by the Timers service.
+ */
+export class Timer {
+  /**
+   * The time between calls in seconds.
+   */
+  readonly interval: number;
+
+  /**
+   * How many calls are left. -1 repeats forever.
+   */
+  remaining: number;
+
+  /**
+   * Paused timers don't advance.
+   */
+  paused = false;
+
+  /**
+   * Has the timer finished or been cancelled.
+   */
+  get done(): boolean {
+    return this.cancelled || this.remaining === 0;
+  }
+
+  /**
+   * The time until the next call in seconds.
+   */
+  get timeLeft(): number {
+    return Math.max(this.interval - this.time, 0);
+  }
+
+  private readonly callback: () => void;
+
+  /**
+   * The time since the last call in seconds.
+   */
+  private time = 0;
+
+  private cancelled = false;
+
+  /**
+   * Create a new timer.
+   * @param interval - The time between calls in seconds.
+   * @param callback - The function to call.
+   * @param count - How many times to call the function. -1 repeats forever.
+   */
+  constructor(interval: number, callback: () => void, count: number = 1) {
+    this.interval = interval;
+    this.callback = callback;
+    this.remaining = count;
+  }
+
+  /**
+   * Stop the timer. The callback will not be called again.
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  /**
+   * Advance the timer.
+   * @param deltaTime - The time passed in seconds.
+   */
+  update(deltaTime: number): void {
+    if (this.done || this.paused) {
+      return;
+    }
+
+    this.time += deltaTime;
+
+    // Catch up on all calls that should have happened during this update.
+    while (this.time >= this.interval && !this.done) {
+      this.time -= this.interval;
+      if (this.remaining > 0) {
+        this.remaining--;
+      }
+      this.callback();
+
+      // Without an interval the timer fires once per update.
+      if (this.interval <= 0) {
+        this.time = 0;
+        break;
+      }
+    }
+  }
+}
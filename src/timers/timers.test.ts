@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { Input } from '../input/input.js';
+import { Callbacks } from '../utils/callbacks.js';
+import { Timers } from './timers.js';
+
+describe('Timers', () => {
+  let callbacks: Callbacks;
+  let timers: Timers;
+
+  beforeEach(() => {
+    callbacks = new Callbacks({} as Input);
+    timers = new Timers(callbacks);
+  });
+
+  it('should call a function after a delay', () => {
+    let called = 0;
+    timers.after(1, () => called++);
+
+    callbacks.update(0.5);
+    expect(called).toBe(0);
+
+    callbacks.update(0.5);
+    expect(called).toBe(1);
+
+    callbacks.update(1);
+    expect(called).toBe(1);
+  });
+
+  it('should keep running when the game callbacks are cleared', () => {
+    let called = 0;
+    timers.after(1, () => called++);
+
+    callbacks.clearCallbacks();
+    callbacks.update(1);
+
+    expect(called).toBe(1);
+  });
+
+  it('should call a function repeatedly', () => {
+    let called = 0;
+    timers.every(0.5, () => called++, 3);
+
+    callbacks.update(1);
+    expect(called).toBe(2);
+
+    callbacks.update(1);
+    expect(called).toBe(3);
+  });
+
+  it('should cancel a timer', () => {
+    let called = 0;
+    const timer = timers.every(0.5, () => called++);
+
+    callbacks.update(0.5);
+    timer.cancel();
+    callbacks.update(0.5);
+
+    expect(called).toBe(1);
+    expect(timer.done).toBe(true);
+  });
+
+  it('should not advance paused timers', () => {
+    let called = 0;
+    const timer = timers.after(1, () => called++);
+    timer.paused = true;
+
+    callbacks.update(1);
+    expect(called).toBe(0);
+    expect(timer.timeLeft).toBe(1);
+  });
+
+  it('should only advance on updates', () => {
+    let called = 0;
+    timers.after(0.1, () => called++);
+
+    // Unscaled updates keep running while Core is paused. They should not move the game clock.
+    callbacks.unscaledUpdate(1);
+    expect(called).toBe(0);
+    expect(timers.time).toBe(0);
+  });
+
+  it('should resolve a wait after the game time has passed', async () => {
+    let resolved = false;
+    const wait = timers.wait(1).then(() => {
+      resolved = true;
+    });
+
+    callbacks.update(0.5);
+    await Promise.resolve();
+    expect(resolved).toBe(false);
+
+    callbacks.update(0.5);
+    await wait;
+    expect(resolved).toBe(true);
+  });
+
+  it('should resolve a frame wait', async () => {
+    let resolved = false;
+    const wait = timers.waitFrames(2).then(() => {
+      resolved = true;
+    });
+
+    callbacks.update(0.016);
+    await Promise.resolve();
+    expect(resolved).toBe(false);
+
+    callbacks.update(0.016);
+    await wait;
+    expect(resolved).toBe(true);
+  });
+
+  it('should resolve when a condition is true', async () => {
+    let ready = false;
+    const wait = timers.waitUntil(() => ready);
+
+    callbacks.update(0.016);
+    ready = true;
+    callbacks.update(0.016);
+
+    await expect(wait).resolves.toBeUndefined();
+  });
+
+  it('should run scripted sequences', async () => {
+    const steps: string[] = [];
+    const script = (async (): Promise<void> => {
+      steps.push('start');
+      await timers.wait(1);
+      steps.push('waited');
+      await timers.waitFrames(1);
+      steps.push('done');
+    })();
+
+    callbacks.update(1);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    callbacks.update(0.016);
+    await script;
+
+    expect(steps).toEqual(['start', 'waited', 'done']);
+  });
+});
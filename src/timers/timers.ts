@@ -0,0 +1,153 @@
+import type { Callbacks } from '../utils/callbacks.js';
+import { Timer } from './timer.js';
+
+/**
+ * A pending promise wait.
+ */
+type Waiter = {
+  /**
+   * Returns true when the wait is over. Called once per update.
+   */
+  check: () => boolean;
+
+  resolve: () => void;
+};
+
+/**
+ * Timers that run on the game clock. The clock is advanced by the update callbacks, so it stops when the game loses
+ * focus or is paused and follows the Core time scale.
+ */
+export class Timers {
+  /**
+   * The game time in seconds since the service was created.
+   */
+  get time(): number {
+    return this._time;
+  }
+
+  /**
+   * The amount of updates since the service was created.
+   */
+  get frame(): number {
+    return this._frame;
+  }
+
+  private timers: Timer[] = [];
+
+  private waiters: Waiter[] = [];
+
+  private _time = 0;
+
+  private _frame = 0;
+
+  private callbacks: Callbacks;
+
+  /**
+   * Create a new timer manager.
+   * @param callbacks - The callbacks to update the timers from.
+   */
+  constructor(callbacks: Callbacks) {
+    this.callbacks = callbacks;
+    this.callbacks.addServiceCallbacks({ update: this.update });
+  }
+
+  /**
+   * Call a function once after a delay.
+   * @param seconds - The delay in seconds.
+   * @param callback - The function to call.
+   * @returns The timer handle that can be used to cancel the call.
+   */
+  after(seconds: number, callback: () => void): Timer {
+    const timer = new Timer(seconds, callback);
+    this.timers.push(timer);
+
+    return timer;
+  }
+
+  /**
+   * Call a function repeatedly.
+   * @param seconds - The time between calls in seconds.
+   * @param callback - The function to call.
+   * @param count - How many times to call the function. -1 repeats until cancelled.
+   * @returns The timer handle that can be used to cancel the calls.
+   */
+  every(seconds: number, callback: () => void, count: number = -1): Timer {
+    const timer = new Timer(seconds, callback, count);
+    this.timers.push(timer);
+
+    return timer;
+  }
+
+  /**
+   * Wait for an amount of game time.
+   * @param seconds - The time to wait in seconds.
+   * @returns A promise that resolves when the time has passed.
+   */
+  wait(seconds: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.after(seconds, resolve);
+    });
+  }
+
+  /**
+   * Wait for an amount of updates.
+   * @param frames - The amount of updates to wait.
+   * @returns A promise that resolves after the updates.
+   */
+  waitFrames(frames: number): Promise<void> {
+    const endFrame = this._frame + frames;
+
+    return this.waitUntil(() => this._frame >= endFrame);
+  }
+
+  /**
+   * Wait until a condition is true. The condition is checked once per update.
+   * @param predicate - The condition to check.
+   * @returns A promise that resolves when the condition is true.
+   */
+  waitUntil(predicate: () => boolean): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiters.push({ check: predicate, resolve });
+    });
+  }
+
+  /**
+   * Cancel all timers and waits. Pending wait promises will never resolve.
+   */
+  clear(): void {
+    for (const timer of this.timers) {
+      timer.cancel();
+    }
+    this.timers = [];
+    this.waiters = [];
+  }
+
+  /**
+   * Cancel everything and unhook the manager from the callbacks.
+   */
+  destroy(): void {
+    this.clear();
+    this.callbacks.removeUpdateCallback(this.update);
+  }
+
+  private update = (deltaTime: number): void => {
+    this._time += deltaTime;
+    this._frame++;
+
+    // Timers added from a callback start on the next update.
+    for (const timer of [...this.timers]) {
+      timer.update(deltaTime);
+    }
+    this.timers = this.timers.filter((timer) => !timer.done);
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      if (waiter.check()) {
+        waiter.resolve();
+      } else {
+        this.waiters.push(waiter);
+      }
+    }
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import * as easing from './easing.js';
+
+describe('easing', () => {
+  const functions = Object.entries(easing).filter(([, value]) => typeof value === 'function') as [
+    string,
+    (t: number) => number,
+  ][];
+
+  it('should export the full easing set', () => {
+    expect(functions.length).toBe(31);
+  });
+
+  it.each(functions)('%s should start at 0 and end at 1', (_name, ease) => {
+    expect(ease(0)).toBeCloseTo(0);
+    expect(ease(1)).toBeCloseTo(1);
+  });
+
+  it.each(functions.filter(([name]) => name.startsWith('easeInOut')))('%s should be halfway at 0.5', (_name, ease) => {
+    expect(ease(0.5)).toBeCloseTo(0.5);
+  });
+
+  it('should ease in slower than linear', () => {
+    expect(easing.easeInQuad(0.5)).toBe(0.25);
+    expect(easing.easeOutQuad(0.5)).toBe(0.75);
+  });
+
+  it('should overshoot with back easing', () => {
+    expect(easing.easeInBack(0.2)).toBeLessThan(0);
+    expect(easing.easeOutBack(0.8)).toBeGreaterThan(1);
+  });
+});
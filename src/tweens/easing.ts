@@ -0,0 +1,369 @@
+/**
+ * The Robert Penner easing functions. Each function maps a linear position (0 - 1) to an eased position.
+ */
+
+/**
+ * An easing function.
+ */
+export type Ease = (t: number) => number;
+
+/**
+ * How far the back easing functions overshoot.
+ */
+const BACK_OVERSHOOT = 1.70158;
+
+/**
+ * The period of the elastic in and out easing functions.
+ */
+const ELASTIC_PERIOD = (2 * Math.PI) / 0.3;
+
+/**
+ * The period of the elastic in-out easing function.
+ */
+const ELASTIC_IN_OUT_PERIOD = (2 * Math.PI) / 0.45;
+
+/**
+ * No easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function linear(t: number): number {
+  return t;
+}
+
+/**
+ * Accelerating quadratic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInQuad(t: number): number {
+  return t * t;
+}
+
+/**
+ * Decelerating quadratic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutQuad(t: number): number {
+  return t * (2 - t);
+}
+
+/**
+ * Accelerating then decelerating quadratic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutQuad(t: number): number {
+  return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+}
+
+/**
+ * Accelerating cubic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInCubic(t: number): number {
+  return t * t * t;
+}
+
+/**
+ * Decelerating cubic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutCubic(t: number): number {
+  const f = t - 1;
+  return f * f * f + 1;
+}
+
+/**
+ * Accelerating then decelerating cubic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1;
+}
+
+/**
+ * Accelerating quartic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInQuart(t: number): number {
+  return t * t * t * t;
+}
+
+/**
+ * Decelerating quartic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutQuart(t: number): number {
+  const f = t - 1;
+  return 1 - f * f * f * f;
+}
+
+/**
+ * Accelerating then decelerating quartic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutQuart(t: number): number {
+  if (t < 0.5) {
+    return 8 * t * t * t * t;
+  }
+
+  const f = t - 1;
+  return 1 - 8 * f * f * f * f;
+}
+
+/**
+ * Accelerating quintic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInQuint(t: number): number {
+  return t * t * t * t * t;
+}
+
+/**
+ * Decelerating quintic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutQuint(t: number): number {
+  const f = t - 1;
+  return f * f * f * f * f + 1;
+}
+
+/**
+ * Accelerating then decelerating quintic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutQuint(t: number): number {
+  if (t < 0.5) {
+    return 16 * t * t * t * t * t;
+  }
+
+  const f = 2 * t - 2;
+  return 0.5 * f * f * f * f * f + 1;
+}
+
+/**
+ * Accelerating sine easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInSine(t: number): number {
+  return 1 - Math.cos((t * Math.PI) / 2);
+}
+
+/**
+ * Decelerating sine easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutSine(t: number): number {
+  return Math.sin((t * Math.PI) / 2);
+}
+
+/**
+ * Accelerating then decelerating sine easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutSine(t: number): number {
+  return -0.5 * (Math.cos(Math.PI * t) - 1);
+}
+
+/**
+ * Accelerating exponential easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInExpo(t: number): number {
+  return t === 0 ? 0 : 2 ** (10 * (t - 1));
+}
+
+/**
+ * Decelerating exponential easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutExpo(t: number): number {
+  return t === 1 ? 1 : 1 - 2 ** (-10 * t);
+}
+
+/**
+ * Accelerating then decelerating exponential easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutExpo(t: number): number {
+  if (t === 0 || t === 1) {
+    return t;
+  }
+
+  if (t < 0.5) {
+    return 0.5 * 2 ** (20 * t - 10);
+  }
+
+  return 1 - 0.5 * 2 ** (-20 * t + 10);
+}
+
+/**
+ * Accelerating circular easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInCirc(t: number): number {
+  return 1 - Math.sqrt(1 - t * t);
+}
+
+/**
+ * Decelerating circular easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutCirc(t: number): number {
+  const f = t - 1;
+  return Math.sqrt(1 - f * f);
+}
+
+/**
+ * Accelerating then decelerating circular easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutCirc(t: number): number {
+  if (t < 0.5) {
+    return 0.5 * (1 - Math.sqrt(1 - 4 * t * t));
+  }
+
+  const f = 2 * t - 2;
+  return 0.5 * (Math.sqrt(1 - f * f) + 1);
+}
+
+/**
+ * Accelerating back easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInBack(t: number): number {
+  return t * t * ((BACK_OVERSHOOT + 1) * t - BACK_OVERSHOOT);
+}
+
+/**
+ * Decelerating back easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutBack(t: number): number {
+  const f = t - 1;
+  return f * f * ((BACK_OVERSHOOT + 1) * f + BACK_OVERSHOOT) + 1;
+}
+
+/**
+ * Accelerating then decelerating back easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutBack(t: number): number {
+  const s = BACK_OVERSHOOT * 1.525;
+  if (t < 0.5) {
+    const f = 2 * t;
+    return 0.5 * (f * f * ((s + 1) * f - s));
+  }
+
+  const f = 2 * t - 2;
+  return 0.5 * (f * f * ((s + 1) * f + s) + 2);
+}
+
+/**
+ * Accelerating elastic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInElastic(t: number): number {
+  if (t === 0 || t === 1) {
+    return t;
+  }
+
+  return -(2 ** (10 * (t - 1))) * Math.sin((t - 1.075) * ELASTIC_PERIOD);
+}
+
+/**
+ * Decelerating elastic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutElastic(t: number): number {
+  if (t === 0 || t === 1) {
+    return t;
+  }
+
+  return 2 ** (-10 * t) * Math.sin((t - 0.075) * ELASTIC_PERIOD) + 1;
+}
+
+/**
+ * Accelerating then decelerating elastic easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutElastic(t: number): number {
+  if (t === 0 || t === 1) {
+    return t;
+  }
+
+  const f = 2 * t - 1;
+  if (f < 0) {
+    return -0.5 * 2 ** (10 * f) * Math.sin((f - 0.1125) * ELASTIC_IN_OUT_PERIOD);
+  }
+
+  return 2 ** (-10 * f) * Math.sin((f - 0.1125) * ELASTIC_IN_OUT_PERIOD) * 0.5 + 1;
+}
+
+/**
+ * Accelerating bounce easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInBounce(t: number): number {
+  return 1 - easeOutBounce(1 - t);
+}
+
+/**
+ * Decelerating bounce easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeOutBounce(t: number): number {
+  if (t < 1 / 2.75) {
+    return 7.5625 * t * t;
+  }
+
+  if (t < 2 / 2.75) {
+    const f = t - 1.5 / 2.75;
+    return 7.5625 * f * f + 0.75;
+  }
+
+  if (t < 2.5 / 2.75) {
+    const f = t - 2.25 / 2.75;
+    return 7.5625 * f * f + 0.9375;
+  }
+
+  const f = t - 2.625 / 2.75;
+  return 7.5625 * f * f + 0.984375;
+}
+
+/**
+ * Accelerating then decelerating bounce easing.
+ * @param t - The position (0 - 1).
+ * @returns The eased position.
+ */
+export function easeInOutBounce(t: number): number {
+  return t < 0.5 ? easeInBounce(t * 2) * 0.5 : easeOutBounce(t * 2 - 1) * 0.5 + 0.5;
+}
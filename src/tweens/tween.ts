@@ -0,0 +1,220 @@
+import { type Ease, linear } from './easing.js';
+import { Tweenable } from './tweenable.js';
+
+/**
+ * The numeric properties of an object that can be tweened.
+ */
+export type TweenProps<T> = {
+  [K in keyof T as T[K] extends number ? K : never]?: number;
+};
+
+export type TweenParams<T extends object> = {
+  /**
+   * The object to tween. For example a Vec2, Vec3 or Color.
+   */
+  target: T;
+
+  /**
+   * The end values.
+   */
+  to: TweenProps<T>;
+
+  /**
+   * The duration of one iteration in seconds.
+   */
+  duration: number;
+
+  /**
+   * Optional start values. The values of the target at the start of the tween are used if not set.
+   */
+  from?: TweenProps<T>;
+
+  /**
+   * The easing function. Defaults to linear.
+   */
+  ease?: Ease;
+
+  /**
+   * The time to wait before starting in seconds.
+   */
+  delay?: number;
+
+  /**
+   * How many times to repeat after the first iteration. -1 repeats forever.
+   */
+  repeat?: number;
+
+  /**
+   * Play every other iteration in reverse.
+   */
+  yoyo?: boolean;
+
+  /**
+   * Called when the tween starts after the delay.
+   */
+  onStart?: () => void;
+
+  /**
+   * Called every time the target is updated.
+   */
+  onUpdate?: (target: T) => void;
+
+  /**
+   * Called when the tween is complete.
+   */
+  onComplete?: () => void;
+};
+
+/**
+ * Interpolates numeric properties on an object.
+ */
+export class Tween<T extends object> extends Tweenable {
+  /**
+   * The object that is tweened.
+   */
+  readonly target: T;
+
+  private readonly params: TweenParams<T>;
+
+  private readonly keys: string[];
+
+  private readonly startValues: Record<string, number> = {};
+
+  private readonly endValues: Record<string, number> = {};
+
+  /**
+   * The time spent in the delay.
+   */
+  private delayTime = 0;
+
+  /**
+   * The time since the tween started after the delay.
+   */
+  private time = 0;
+
+  private started = false;
+
+  /**
+   * Create a new tween. Tweens created with the constructor need to be added to the Tweens service or a sequence.
+   * @param params - The tween parameters.
+   */
+  constructor(params: TweenParams<T>) {
+    super();
+    this.params = params;
+    this.target = params.target;
+    this.keys = Object.keys(params.to);
+  }
+
+  update(deltaTime: number): number {
+    if (this.complete) {
+      return deltaTime;
+    }
+
+    if (this.paused) {
+      return 0;
+    }
+
+    let remaining = deltaTime;
+    const delay = this.params.delay ?? 0;
+    if (this.delayTime < delay) {
+      const used = Math.min(delay - this.delayTime, remaining);
+      this.delayTime += used;
+      remaining -= used;
+
+      if (this.delayTime < delay) {
+        return 0;
+      }
+    }
+
+    if (!this.started) {
+      this.start();
+    }
+    this.time += remaining;
+
+    const duration = this.params.duration;
+    const repeat = this.params.repeat ?? 0;
+    const iterations = repeat === -1 ? Number.POSITIVE_INFINITY : repeat + 1;
+    const iteration = duration > 0 ? Math.floor(this.time / duration) : iterations;
+
+    if (iteration >= iterations) {
+      this.apply(this.getEndPosition());
+      this.complete = true;
+      this.params.onComplete?.();
+
+      return duration > 0 ? this.time - iterations * duration : remaining;
+    }
+
+    const position = (this.time - iteration * duration) / duration;
+    const reversed = this.params.yoyo === true && iteration % 2 === 1;
+    this.apply(reversed ? 1 - position : position);
+
+    return 0;
+  }
+
+  reset(): void {
+    this.complete = false;
+    this.started = false;
+    this.delayTime = 0;
+    this.time = 0;
+  }
+
+  /**
+   * Finish the tween right away. The target gets the values of the end of the last iteration.
+   */
+  finish(): void {
+    if (this.complete) {
+      return;
+    }
+
+    if (!this.started) {
+      this.start();
+    }
+    this.apply(this.getEndPosition());
+    this.complete = true;
+    this.params.onComplete?.();
+  }
+
+  /**
+   * Store the start and end values.
+   */
+  private start(): void {
+    const target = this.target as Record<string, number>;
+    const from = this.params.from as Record<string, number> | undefined;
+    const to = this.params.to as Record<string, number>;
+
+    for (const key of this.keys) {
+      this.startValues[key] = from?.[key] ?? target[key];
+      this.endValues[key] = to[key];
+    }
+
+    this.started = true;
+    this.params.onStart?.();
+  }
+
+  /**
+   * Get the position at the end of the last iteration. A yoyo tween with an odd repeat count ends reversed.
+   * @returns The linear position (0 - 1).
+   */
+  private getEndPosition(): number {
+    const repeat = this.params.repeat ?? 0;
+    const reversed = this.params.yoyo === true && repeat !== -1 && repeat % 2 === 1;
+
+    return reversed ? 0 : 1;
+  }
+
+  /**
+   * Update the target values.
+   * @param position - The linear position in the iteration (0 - 1).
+   */
+  private apply(position: number): void {
+    const target = this.target as Record<string, number>;
+    const eased = (this.params.ease ?? linear)(position);
+
+    for (const key of this.keys) {
+      const start = this.startValues[key];
+      target[key] = start + (this.endValues[key] - start) * eased;
+    }
+
+    this.params.onUpdate?.(this.target);
+  }
+}
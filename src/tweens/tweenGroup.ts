@@ -0,0 +1,56 @@
+import { Tweenable } from './tweenable.js';
+
+/**
+ * Plays tweens in parallel. The group is complete when all tweens are complete.
+ */
+export class TweenGroup extends Tweenable {
+  private readonly tweens: Tweenable[];
+
+  private readonly onComplete?: () => void;
+
+  /**
+   * Create a new group.
+   * @param tweens - The tweens to play at the same time. These should not be added to the Tweens service themselves.
+   * @param onComplete - Called when all tweens are complete.
+   */
+  constructor(tweens: Tweenable[], onComplete?: () => void) {
+    super();
+    this.tweens = tweens;
+    this.onComplete = onComplete;
+  }
+
+  update(deltaTime: number): number {
+    if (this.complete) {
+      return deltaTime;
+    }
+
+    if (this.paused) {
+      return 0;
+    }
+
+    let remaining = deltaTime;
+    let complete = true;
+    for (const tween of this.tweens) {
+      remaining = Math.min(remaining, tween.update(deltaTime));
+      if (!tween.complete) {
+        complete = false;
+      }
+    }
+
+    if (!complete) {
+      return 0;
+    }
+
+    this.complete = true;
+    this.onComplete?.();
+
+    return remaining;
+  }
+
+  reset(): void {
+    this.complete = false;
+    for (const tween of this.tweens) {
+      tween.reset();
+    }
+  }
+}
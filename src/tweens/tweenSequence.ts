@@ -0,0 +1,59 @@
+import { Tweenable } from './tweenable.js';
+
+/**
+ * Plays tweens one after another.
+ */
+export class TweenSequence extends Tweenable {
+  private readonly tweens: Tweenable[];
+
+  private readonly onComplete?: () => void;
+
+  /**
+   * The index of the tween that is playing.
+   */
+  private index = 0;
+
+  /**
+   * Create a new sequence.
+   * @param tweens - The tweens to play in order. These should not be added to the Tweens service themselves.
+   * @param onComplete - Called when the last tween is complete.
+   */
+  constructor(tweens: Tweenable[], onComplete?: () => void) {
+    super();
+    this.tweens = tweens;
+    this.onComplete = onComplete;
+  }
+
+  update(deltaTime: number): number {
+    if (this.complete) {
+      return deltaTime;
+    }
+
+    if (this.paused) {
+      return 0;
+    }
+
+    // Time left over by a completed tween carries over to the next tween.
+    let remaining = deltaTime;
+    while (this.index < this.tweens.length) {
+      remaining = this.tweens[this.index].update(remaining);
+      if (!this.tweens[this.index].complete) {
+        return 0;
+      }
+      this.index++;
+    }
+
+    this.complete = true;
+    this.onComplete?.();
+
+    return remaining;
+  }
+
+  reset(): void {
+    this.complete = false;
+    this.index = 0;
+    for (const tween of this.tweens) {
+      tween.reset();
+    }
+  }
+}
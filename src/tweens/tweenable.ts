@@ -0,0 +1,26 @@
+/**
+ * Base class for anything that can be updated by the Tweens service.
+ */
+export abstract class Tweenable {
+  /**
+   * Is the tween done.
+   */
+  complete = false;
+
+  /**
+   * Paused tweens don't advance.
+   */
+  paused = false;
+
+  /**
+   * Advance the tween.
+   * @param deltaTime - The time to advance in seconds.
+   * @returns The time left over after the tween completed. 0 when the tween is still running.
+   */
+  abstract update(deltaTime: number): number;
+
+  /**
+   * Reset the tween so it can be played again.
+   */
+  abstract reset(): void;
+}
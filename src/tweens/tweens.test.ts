@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { Color } from '../graphics/color.js';
+import type { Input } from '../input/input.js';
+import { Vec2 } from '../math/vec2.js';
+import { Callbacks } from '../utils/callbacks.js';
+import { easeInQuad } from './easing.js';
+import { Tween } from './tween.js';
+import { Tweens } from './tweens.js';
+
+describe('Tweens', () => {
+  let callbacks: Callbacks;
+  let tweens: Tweens;
+
+  beforeEach(() => {
+    callbacks = new Callbacks({} as Input);
+    tweens = new Tweens(callbacks);
+  });
+
+  it('should tween vector properties', () => {
+    const position = new Vec2(0, 0);
+    tweens.to({ target: position, to: { x: 10, y: 20 }, duration: 1 });
+
+    callbacks.update(0.5);
+    expect(position.x).toBeCloseTo(5);
+    expect(position.y).toBeCloseTo(10);
+
+    callbacks.update(0.5);
+    expect(position.x).toBe(10);
+    expect(position.y).toBe(20);
+  });
+
+  it('should tween color properties with easing', () => {
+    const color = new Color(0, 0, 0, 1);
+    tweens.to({ target: color, to: { red: 1, alpha: 0 }, duration: 1, ease: easeInQuad });
+
+    callbacks.update(0.5);
+    expect(color.red).toBeCloseTo(0.25);
+    expect(color.alpha).toBeCloseTo(0.75);
+  });
+
+  it('should use the from values', () => {
+    const position = new Vec2(100, 0);
+    tweens.to({ target: position, from: { x: 0 }, to: { x: 10 }, duration: 1 });
+
+    callbacks.update(0.5);
+    expect(position.x).toBeCloseTo(5);
+  });
+
+  it('should wait for the delay', () => {
+    const position = new Vec2(0, 0);
+    tweens.to({ target: position, to: { x: 10 }, duration: 1, delay: 0.5 });
+
+    callbacks.update(0.5);
+    expect(position.x).toBe(0);
+
+    callbacks.update(0.5);
+    expect(position.x).toBeCloseTo(5);
+  });
+
+  it('should repeat with yoyo', () => {
+    const position = new Vec2(0, 0);
+    let completed = false;
+    tweens.to({
+      target: position,
+      to: { x: 10 },
+      duration: 1,
+      repeat: 1,
+      yoyo: true,
+      onComplete: () => {
+        completed = true;
+      },
+    });
+
+    callbacks.update(1.5);
+    expect(position.x).toBeCloseTo(5);
+    expect(completed).toBe(false);
+
+    callbacks.update(0.5);
+    expect(position.x).toBe(0);
+    expect(completed).toBe(true);
+  });
+
+  it('should finish a yoyo tween at the same values as when it completes', () => {
+    const finished = new Vec2(0, 0);
+    const completed = new Vec2(0, 0);
+    const finishedTween = tweens.to({ target: finished, to: { x: 10 }, duration: 1, repeat: 1, yoyo: true });
+    tweens.to({ target: completed, to: { x: 10 }, duration: 1, repeat: 1, yoyo: true });
+
+    callbacks.update(0.5);
+    finishedTween.finish();
+    callbacks.update(1.5);
+
+    expect(finished.x).toBe(0);
+    expect(completed.x).toBe(0);
+
+    const even = new Vec2(0, 0);
+    tweens.to({ target: even, to: { x: 10 }, duration: 1, repeat: 2, yoyo: true }).finish();
+    expect(even.x).toBe(10);
+  });
+
+  it('should keep updating when the game callbacks are cleared', () => {
+    const position = new Vec2(0, 0);
+    tweens.to({ target: position, to: { x: 10 }, duration: 1 });
+
+    callbacks.clearCallbacks();
+    callbacks.update(0.5);
+
+    expect(position.x).toBeCloseTo(5);
+  });
+
+  it('should remove completed tweens', () => {
+    const tween = tweens.to({ target: new Vec2(), to: { x: 1 }, duration: 1 });
+    expect(tweens.isActive(tween)).toBe(true);
+
+    callbacks.update(1);
+    expect(tweens.isActive(tween)).toBe(false);
+  });
+
+  it('should play a sequence and carry over left over time', () => {
+    const position = new Vec2(0, 0);
+    tweens.sequence([
+      new Tween({ target: position, to: { x: 10 }, duration: 1 }),
+      new Tween({ target: position, to: { y: 10 }, duration: 1 }),
+    ]);
+
+    callbacks.update(1.5);
+    expect(position.x).toBe(10);
+    expect(position.y).toBeCloseTo(5);
+  });
+
+  it('should play a parallel group', () => {
+    const a = new Vec2(0, 0);
+    const b = new Vec2(0, 0);
+    let completed = false;
+    tweens.parallel(
+      [new Tween({ target: a, to: { x: 10 }, duration: 1 }), new Tween({ target: b, to: { x: 10 }, duration: 2 })],
+      () => {
+        completed = true;
+      },
+    );
+
+    callbacks.update(1);
+    expect(a.x).toBe(10);
+    expect(b.x).toBeCloseTo(5);
+    expect(completed).toBe(false);
+
+    callbacks.update(1);
+    expect(completed).toBe(true);
+  });
+
+  it('should not advance paused tweens', () => {
+    const position = new Vec2(0, 0);
+    const tween = tweens.to({ target: position, to: { x: 10 }, duration: 1 });
+    tween.paused = true;
+
+    callbacks.update(0.5);
+    expect(position.x).toBe(0);
+  });
+
+  it('should remove tweens of a target', () => {
+    const position = new Vec2(0, 0);
+    const tween = tweens.to({ target: position, to: { x: 10 }, duration: 1 });
+    tweens.removeTweensOf(position);
+
+    expect(tweens.isActive(tween)).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import type { Callbacks } from '../utils/callbacks.js';
+import { Tween, type TweenParams } from './tween.js';
+import type { Tweenable } from './tweenable.js';
+import { TweenGroup } from './tweenGroup.js';
+import { TweenSequence } from './tweenSequence.js';
+
+/**
+ * Tween manager. Tweens are updated from the update callbacks, so they follow the Core time scale and pause state.
+ */
+export class Tweens {
+  /**
+   * The tweens that are playing.
+   */
+  private active: Tweenable[] = [];
+
+  private callbacks: Callbacks;
+
+  /**
+   * Create a new tween manager.
+   * @param callbacks - The callbacks to update the tweens from.
+   */
+  constructor(callbacks: Callbacks) {
+    this.callbacks = callbacks;
+    this.callbacks.addServiceCallbacks({ update: this.update });
+  }
+
+  /**
+   * Create and start a tween.
+   * @param params - The tween parameters.
+   * @returns The started tween.
+   */
+  to<T extends object>(params: TweenParams<T>): Tween<T> {
+    const tween = new Tween(params);
+    this.add(tween);
+
+    return tween;
+  }
+
+  /**
+   * Create and start a sequence.
+   * @param tweens - The tweens to play in order. Create these with `new Tween`.
+   * @param onComplete - Called when the sequence is complete.
+   * @returns The started sequence.
+   */
+  sequence(tweens: Tweenable[], onComplete?: () => void): TweenSequence {
+    const sequence = new TweenSequence(tweens, onComplete);
+    this.add(sequence);
+
+    return sequence;
+  }
+
+  /**
+   * Create and start a parallel group.
+   * @param tweens - The tweens to play at the same time. Create these with `new Tween`.
+   * @param onComplete - Called when all tweens are complete.
+   * @returns The started group.
+   */
+  parallel(tweens: Tweenable[], onComplete?: () => void): TweenGroup {
+    const group = new TweenGroup(tweens, onComplete);
+    this.add(group);
+
+    return group;
+  }
+
+  /**
+   * Start playing a tween.
+   * @param tween - The tween to add.
+   */
+  add(tween: Tweenable): void {
+    if (!this.active.includes(tween)) {
+      this.active.push(tween);
+    }
+  }
+
+  /**
+   * Stop a tween without completing it.
+   * @param tween - The tween to remove.
+   */
+  remove(tween: Tweenable): void {
+    const index = this.active.indexOf(tween);
+    if (index !== -1) {
+      this.active.splice(index, 1);
+    }
+  }
+
+  /**
+   * Stop all single tweens that target an object. Tweens inside sequences and groups are not affected.
+   * @param target - The tweened object.
+   */
+  removeTweensOf(target: object): void {
+    this.active = this.active.filter((tween) => !(tween instanceof Tween && tween.target === target));
+  }
+
+  /**
+   * Check if a tween is playing.
+   * @param tween - The tween to check.
+   * @returns True if the tween is playing.
+   */
+  isActive(tween: Tweenable): boolean {
+    return this.active.includes(tween);
+  }
+
+  /**
+   * Stop all tweens.
+   */
+  clear(): void {
+    this.active = [];
+  }
+
+  /**
+   * Stop all tweens and unhook the manager from the callbacks.
+   */
+  destroy(): void {
+    this.clear();
+    this.callbacks.removeUpdateCallback(this.update);
+  }
+
+  private update = (deltaTime: number): void => {
+    // Copy so tweens can be added and removed from completion callbacks.
+    for (const tween of [...this.active]) {
+      tween.update(deltaTime);
+      if (tween.complete) {
+        this.remove(tween);
+      }
+    }
+  };
+}
@@ -1,37 +1,90 @@
 import type { Graphics } from '../graphics/graphics.js';
 import type { Input } from '../input/input.js';
 
+/**
+ * The hooks of a service like Scenes, Tweens or Timers.
+ */
+export type ServiceCallbacks = {
+  update?: (deltaTime: number) => void;
+  unscaledUpdate?: (deltaTime: number) => void;
+  fixedUpdate?: (deltaTime: number) => void;
+  render?: (graphics: Graphics, alpha: number) => void;
+  resize?: (width: number, height: number, physicalWidth: number, physicalHeight: number) => void;
+  focus?: () => void;
+  blur?: () => void;
+};
+
 export class Callbacks {
   readonly input: Input;
 
-  private renderCallbacks: ((graphics: Graphics) => void)[];
+  private renderCallbacks: ((graphics: Graphics, alpha: number) => void)[];
 
   private updateCallbacks: ((deltaTime: number) => void)[];
 
-  private resizeCallbacks: ((width: number, height: number) => void)[];
+  private unscaledUpdateCallbacks: ((deltaTime: number) => void)[];
+
+  private fixedUpdateCallbacks: ((deltaTime: number) => void)[];
+
+  private resizeCallbacks: ((width: number, height: number, physicalWidth: number, physicalHeight: number) => void)[];
 
   private focusCallbacks: (() => void)[];
 
   private blurCallbacks: (() => void)[];
 
+  /**
+   * The callbacks added with `addServiceCallbacks`. These are kept by `clearCallbacks`.
+   */
+  private readonly serviceCallbacks = new Set<unknown>();
+
   constructor(input: Input) {
     this.input = input;
     this.renderCallbacks = [];
     this.updateCallbacks = [];
+    this.unscaledUpdateCallbacks = [];
+    this.fixedUpdateCallbacks = [];
     this.resizeCallbacks = [];
     this.focusCallbacks = [];
     this.blurCallbacks = [];
   }
 
-  addRenderCallback(callback: (graphics: Graphics) => void): void {
+  /**
+   * Add a render callback.
+   * @param callback - The callback. `alpha` is the interpolation position (0 - 1) between the previous and the
+   * current fixed update. It is always 1 when the fixed time step is disabled.
+   */
+  addRenderCallback(callback: (graphics: Graphics, alpha: number) => void): void {
     this.renderCallbacks.push(callback);
   }
 
-  addUpdateCallback(callback: (deltaTime: number) => void): void {
-    this.updateCallbacks.push(callback);
+  /**
+   * Add an update callback.
+   * @param callback - The callback.
+   * @param unscaled - If true the callback gets the real frame time and keeps running while Core is paused.
+   */
+  addUpdateCallback(callback: (deltaTime: number) => void, unscaled: boolean = false): void {
+    if (unscaled) {
+      this.unscaledUpdateCallbacks.push(callback);
+    } else {
+      this.updateCallbacks.push(callback);
+    }
+  }
+
+  /**
+   * Add a callback that gets called at the fixed time step rate. Only used when the fixed time step is enabled in Core.
+   * @param callback - The callback. `deltaTime` is always the fixed time step.
+   */
+  addFixedUpdateCallback(callback: (deltaTime: number) => void): void {
+    this.fixedUpdateCallbacks.push(callback);
   }
 
-  addResizeCallback(callback: (width: number, height: number) => void): void {
+  /**
+   * Add a resize callback.
+   * @param callback - The callback. `width` and `height` are the logical size in CSS pixels or the design resolution
+   * when a scale mode is used. `physicalWidth` and `physicalHeight` are the drawing buffer size in pixels.
+   */
+  addResizeCallback(
+    callback: (width: number, height: number, physicalWidth: number, physicalHeight: number) => void,
+  ): void {
     this.resizeCallbacks.push(callback);
   }
 
@@ -43,7 +96,43 @@ export class Callbacks {
     this.blurCallbacks.push(callback);
   }
 
-  removeRenderCallback(callback: (graphics: Graphics) => void): void {
+  /**
+   * Add the hooks of a service. They run in order with the other callbacks, but `clearCallbacks` keeps them, so
+   * clearing the game callbacks doesn't stop the service. Remove them with the matching remove functions.
+   * @param callbacks - The service hooks.
+   */
+  addServiceCallbacks({ update, unscaledUpdate, fixedUpdate, render, resize, focus, blur }: ServiceCallbacks): void {
+    if (update) {
+      this.addUpdateCallback(update);
+    }
+    if (unscaledUpdate) {
+      this.addUpdateCallback(unscaledUpdate, true);
+    }
+    if (fixedUpdate) {
+      this.addFixedUpdateCallback(fixedUpdate);
+    }
+    if (render) {
+      this.addRenderCallback(render);
+    }
+    if (resize) {
+      this.addResizeCallback(resize);
+    }
+    if (focus) {
+      this.addFocusCallback(focus);
+    }
+    if (blur) {
+      this.addBlurCallback(blur);
+    }
+
+    for (const callback of [update, unscaledUpdate, fixedUpdate, render, resize, focus, blur]) {
+      if (callback) {
+        this.serviceCallbacks.add(callback);
+      }
+    }
+  }
+
+  removeRenderCallback(callback: (graphics: Graphics, alpha: number) => void): void {
+    this.serviceCallbacks.delete(callback);
     const index = this.renderCallbacks.indexOf(callback);
     if (index !== -1) {
       this.renderCallbacks.splice(index, 1);
@@ -51,13 +140,30 @@ export class Callbacks {
   }
 
   removeUpdateCallback(callback: (deltaTime: number) => void): void {
+    this.serviceCallbacks.delete(callback);
     const index = this.updateCallbacks.indexOf(callback);
     if (index !== -1) {
       this.updateCallbacks.splice(index, 1);
     }
+
+    const unscaledIndex = this.unscaledUpdateCallbacks.indexOf(callback);
+    if (unscaledIndex !== -1) {
+      this.unscaledUpdateCallbacks.splice(unscaledIndex, 1);
+    }
+  }
+
+  removeFixedUpdateCallback(callback: (deltaTime: number) => void): void {
+    this.serviceCallbacks.delete(callback);
+    const index = this.fixedUpdateCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.fixedUpdateCallbacks.splice(index, 1);
+    }
   }
 
-  removeResizeCallback(callback: (width: number, height: number) => void): void {
+  removeResizeCallback(
+    callback: (width: number, height: number, physicalWidth: number, physicalHeight: number) => void,
+  ): void {
+    this.serviceCallbacks.delete(callback);
     const index = this.resizeCallbacks.indexOf(callback);
     if (index !== -1) {
       this.resizeCallbacks.splice(index, 1);
@@ -65,6 +171,7 @@ export class Callbacks {
   }
 
   removeFocusCallback(callback: () => void): void {
+    this.serviceCallbacks.delete(callback);
     const index = this.focusCallbacks.indexOf(callback);
     if (index !== -1) {
       this.focusCallbacks.splice(index, 1);
@@ -72,23 +179,30 @@ export class Callbacks {
   }
 
   removeBlurCallback(callback: () => void): void {
+    this.serviceCallbacks.delete(callback);
     const index = this.blurCallbacks.indexOf(callback);
     if (index !== -1) {
       this.blurCallbacks.splice(index, 1);
     }
   }
 
+  /**
+   * Remove all callbacks except the service callbacks.
+   */
   clearCallbacks(): void {
-    this.renderCallbacks = [];
-    this.updateCallbacks = [];
-    this.resizeCallbacks = [];
-    this.focusCallbacks = [];
-    this.blurCallbacks = [];
+    const isService = (callback: unknown): boolean => this.serviceCallbacks.has(callback);
+    this.renderCallbacks = this.renderCallbacks.filter(isService);
+    this.updateCallbacks = this.updateCallbacks.filter(isService);
+    this.unscaledUpdateCallbacks = this.unscaledUpdateCallbacks.filter(isService);
+    this.fixedUpdateCallbacks = this.fixedUpdateCallbacks.filter(isService);
+    this.resizeCallbacks = this.resizeCallbacks.filter(isService);
+    this.focusCallbacks = this.focusCallbacks.filter(isService);
+    this.blurCallbacks = this.blurCallbacks.filter(isService);
   }
 
-  render(graphics: Graphics): void {
+  render(graphics: Graphics, alpha: number = 1): void {
     for (const callback of this.renderCallbacks) {
-      callback(graphics);
+      callback(graphics, alpha);
     }
   }
 
@@ -98,9 +212,21 @@ export class Callbacks {
     }
   }
 
-  resize(width: number, height: number): void {
+  unscaledUpdate(deltaTime: number): void {
+    for (const callback of this.unscaledUpdateCallbacks) {
+      callback(deltaTime);
+    }
+  }
+
+  fixedUpdate(deltaTime: number): void {
+    for (const callback of this.fixedUpdateCallbacks) {
+      callback(deltaTime);
+    }
+  }
+
+  resize(width: number, height: number, physicalWidth: number = width, physicalHeight: number = height): void {
     for (const callback of this.resizeCallbacks) {
-      callback(width, height);
+      callback(width, height, physicalWidth, physicalHeight);
     }
   }
 